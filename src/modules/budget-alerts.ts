@@ -0,0 +1,205 @@
+/**
+ * Budget alerts for OpenAI Deep Research MCP Server
+ * Watches the spend the rate limiter charges to each client, project and all clients
+ * together, and fires an alert the first time spend crosses each threshold of a daily
+ * or monthly budget
+ */
+
+import type { BudgetAlert, Logger, ServerConfig } from '@/types';
+import type { UsageStore } from './usage-store.js';
+import type { BudgetStatus, ResearchRateLimiter } from './rate-limiter.js';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Usage store ids under which fired thresholds of global and project budgets are kept
+ */
+const GLOBAL_SCOPE_ID = '__global__';
+const PROJECT_SCOPE_PREFIX = '__project__:';
+
+/**
+ * Lock taken while thresholds are checked, so processes sharing the store fire each one once
+ */
+const ALERT_LOCK_ID = 'budget-alerts';
+
+/**
+ * How long fired markers are kept, beyond the end of their period
+ */
+const PERIOD_TTL_SECONDS: Record<BudgetAlert['period'], number> = {
+  daily: 2 * DAY_SECONDS,
+  monthly: 32 * DAY_SECONDS
+};
+
+/**
+ * Callback invoked for every alert fired
+ */
+export type BudgetAlertListener = (alert: BudgetAlert) => void | Promise<void>;
+
+/**
+ * Fires budget alerts from the spend the rate limiter has charged; thresholds fire once per
+ * budget and period
+ */
+export class BudgetAlertMonitor {
+  private rateLimiter: ResearchRateLimiter;
+  private store: UsageStore;
+  private logger: Logger;
+  private thresholds: number[];
+  private listeners: BudgetAlertListener[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    thresholds: number[],
+    rateLimiter: ResearchRateLimiter,
+    store: UsageStore,
+    logger: Logger
+  ) {
+    this.thresholds = [...thresholds].sort((a, b) => a - b);
+    this.rateLimiter = rateLimiter;
+    this.store = store;
+    this.logger = logger;
+  }
+
+  /**
+   * Register a listener for fired alerts
+   */
+  onAlert(listener: BudgetAlertListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Fire any thresholds crossed by the spend of a client and its project on a local day,
+   * the day the rate limiter charged a finished run to
+   * Runs one at a time so a threshold cannot fire twice for concurrent runs
+   */
+  checkBudgets(
+    clientId: string,
+    projectId: string | undefined,
+    day: string,
+    now: number = Date.now()
+  ): Promise<BudgetAlert[]> {
+    const result = this.queue.then(() =>
+      this.store.withLock(ALERT_LOCK_ID, () => this.applyBudgets(clientId, projectId, day, now))
+    );
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async applyBudgets(
+    clientId: string,
+    projectId: string | undefined,
+    day: string,
+    now: number
+  ): Promise<BudgetAlert[]> {
+    const budgets = await this.rateLimiter.getBudgetSpend(clientId, projectId, day);
+
+    const alerts: BudgetAlert[] = [];
+    for (const budget of budgets) {
+      const start = budget.period === 'daily' ? day : day.slice(0, 7);
+      const scopeId = this.getScopeId(budget);
+      const ttlSeconds = PERIOD_TTL_SECONDS[budget.period];
+
+      const firedKeys = this.thresholds.map(threshold => `alert_fired:${budget.period}:${start}:${threshold}`);
+      const fired = await this.store.getCounters(scopeId, firedKeys);
+
+      // Only the highest newly crossed threshold is reported; the lower ones are marked as fired with it
+      const crossed = this.thresholds
+        .map((threshold, index) => ({ threshold, firedKey: firedKeys[index] as string }))
+        .filter(({ threshold, firedKey }) => budget.spentUsd >= threshold * budget.limitUsd && !fired[firedKey]);
+      const highest = crossed[crossed.length - 1];
+      if (!highest) {
+        continue;
+      }
+
+      await this.store.setCounters(scopeId, crossed.map(({ firedKey }) => ({ key: firedKey, value: 1, ttlSeconds })));
+
+      const alert: BudgetAlert = {
+        scope: budget.scope,
+        period: budget.period,
+        period_start: start,
+        threshold: highest.threshold,
+        spent_usd: parseFloat(budget.spentUsd.toFixed(6)),
+        budget_usd: budget.limitUsd,
+        message: this.describe(budget, highest.threshold),
+        timestamp: new Date(now).toISOString()
+      };
+      if (budget.scope === 'client') {
+        alert.client_id = clientId;
+      }
+      if (budget.scope === 'project' && budget.id !== undefined) {
+        alert.project_id = budget.id;
+      }
+      alerts.push(alert);
+    }
+
+    for (const alert of alerts) {
+      await this.notify(alert);
+    }
+    return alerts;
+  }
+
+  private getScopeId(budget: BudgetStatus): string {
+    if (budget.scope === 'global') {
+      return GLOBAL_SCOPE_ID;
+    }
+    return budget.scope === 'project' ? `${PROJECT_SCOPE_PREFIX}${budget.id}` : budget.id as string;
+  }
+
+  private describe(budget: BudgetStatus, threshold: number): string {
+    const owner = budget.scope === 'global'
+      ? 'All clients together'
+      : `${budget.scope === 'client' ? 'Client' : 'Project'} ${budget.id}`;
+    return `${owner} reached ${Math.round(threshold * 100)}% of the ${budget.period} budget: `
+      + `$${budget.spentUsd.toFixed(2)} of $${budget.limitUsd.toFixed(2)} spent`;
+  }
+
+  private async notify(alert: BudgetAlert): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(alert);
+      } catch (error) {
+        this.logger.error('Budget alert listener failed', {
+          scope: alert.scope,
+          period: alert.period,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Create the monitor for the configured thresholds, watching the client, project and
+ * global budgets the rate limiter enforces
+ */
+export function createBudgetAlertMonitor(
+  config: ServerConfig,
+  rateLimiter: ResearchRateLimiter,
+  store: UsageStore,
+  logger: Logger
+): BudgetAlertMonitor {
+  return new BudgetAlertMonitor(config.alerts.thresholds, rateLimiter, store, logger);
+}
+
+/**
+ * Listener that POSTs each alert as JSON to a webhook; delivery failures are logged
+ */
+export function createWebhookAlertListener(url: string, logger: Logger, timeoutMs = 10000): BudgetAlertListener {
+  return async (alert) => {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'budget_alert', alert }),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+      if (!response.ok) {
+        logger.warn('Budget alert webhook rejected the alert', { status: response.status, message: alert.message });
+      }
+    } catch (error) {
+      logger.warn('Budget alert webhook failed', {
+        error: error instanceof Error ? error.message : String(error),
+        message: alert.message
+      });
+    }
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Citation extraction for OpenAI Deep Research MCP Server
+ * Builds a structured citation list from url_citation annotations in Responses API output
+ */
+
+import type { ResponseOutputItem } from 'openai/resources/responses/responses';
+import type { Citation } from '@/types';
+
+/**
+ * Remove tracking parameters (e.g. utm_source=openai) that OpenAI appends to cited URLs
+ */
+export function normalizeCitationUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (key.toLowerCase().startsWith('utm_')) {
+        parsed.searchParams.delete(key);
+      }
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Get the host name of a URL without a leading "www."
+ */
+export function getCitationDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./i, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Walk the output items and message annotations and return one citation per cited URL,
+ * in order of first appearance
+ */
+export function extractCitations(output: ResponseOutputItem[] | undefined): Citation[] {
+  const citations: Citation[] = [];
+  const seenUrls = new Set<string>();
+
+  for (const item of output || []) {
+    if (item.type !== 'message' || !Array.isArray(item.content)) {
+      continue;
+    }
+
+    for (const content of item.content) {
+      if (content.type !== 'output_text' || !Array.isArray(content.annotations)) {
+        continue;
+      }
+
+      for (const annotation of content.annotations) {
+        if (annotation.type !== 'url_citation' || !annotation.url) {
+          continue;
+        }
+
+        const url = normalizeCitationUrl(annotation.url);
+        const dedupeKey = url.replace(/\/$/, '').toLowerCase();
+        if (seenUrls.has(dedupeKey)) {
+          continue;
+        }
+        seenUrls.add(dedupeKey);
+
+        citations.push({
+          title: annotation.title || url,
+          url,
+          domain: getCitationDomain(url),
+          start_index: annotation.start_index,
+          end_index: annotation.end_index,
+          quoted_text: content.text.slice(annotation.start_index, annotation.end_index)
+        });
+      }
+    }
+  }
+
+  return citations;
+}
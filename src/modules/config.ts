@@ -7,12 +7,64 @@ import dotenv from 'dotenv';
 import type { 
   ServerConfig, 
   OpenAIClientConfig, 
-  RateLimitConfig 
+  RateLimitConfig,
+  RateLimitAlgorithm,
+  BudgetCaps
 } from '@/types';
+import { isValidTimezone } from './validation.js';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * Read daily and monthly caps from two environment variables (undefined when neither is set)
+ */
+function parseBudgetCaps(dailyVariable: string, monthlyVariable: string): BudgetCaps | undefined {
+  const caps: BudgetCaps = {};
+
+  if (process.env[dailyVariable]) {
+    caps.daily_usd = parseFloat(process.env[dailyVariable] as string);
+  }
+
+  if (process.env[monthlyVariable]) {
+    caps.monthly_usd = parseFloat(process.env[monthlyVariable] as string);
+  }
+
+  return Object.keys(caps).length > 0 ? caps : undefined;
+}
+
+/**
+ * Split a comma-separated environment variable into its non-empty entries
+ */
+function parseList(value: string): string[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Parse PROJECT_BUDGETS, a JSON object of project ids to caps,
+ * e.g. {"marketing": {"daily_usd": 20, "monthly_usd": 300}}
+ */
+function parseProjectBudgets(value: string): Record<string, BudgetCaps> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`PROJECT_BUDGETS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('PROJECT_BUDGETS must be a JSON object of project ids to { "daily_usd", "monthly_usd" } caps');
+  }
+
+  const budgets: Record<string, BudgetCaps> = {};
+  for (const [projectId, caps] of Object.entries(parsed as Record<string, Record<string, unknown>>)) {
+    // Non-numeric caps become NaN and are reported by validateConfig
+    budgets[projectId] = {};
+    if (caps?.daily_usd !== undefined) budgets[projectId].daily_usd = Number(caps.daily_usd);
+    if (caps?.monthly_usd !== undefined) budgets[projectId].monthly_usd = Number(caps.monthly_usd);
+  }
+  return budgets;
+}
+
 /**
  * Default server configuration for OpenAI Deep Research
  */
@@ -44,17 +96,135 @@ function createDefaultConfig(): ServerConfig {
     redisConfig.password = process.env.REDIS_PASSWORD;
   }
 
+  const promptsConfig = {
+    templatesDir: process.env.PROMPT_TEMPLATES_DIR || 'templates'
+  } as { templatesDir: string; systemInstructionsPath?: string };
+
+  if (process.env.SYSTEM_INSTRUCTIONS_PATH) {
+    promptsConfig.systemInstructionsPath = process.env.SYSTEM_INSTRUCTIONS_PATH;
+  }
+
+  const pricingConfig = {} as { tablePath?: string };
+
+  if (process.env.PRICING_TABLE_PATH) {
+    pricingConfig.tablePath = process.env.PRICING_TABLE_PATH;
+  }
+
+  const alertsConfig = {
+    enabled: process.env.ENABLE_COST_ALERTS !== 'false',
+    thresholds: (process.env.COST_ALERT_THRESHOLDS || '0.5,0.8,1')
+      .split(',')
+      .map(threshold => parseFloat(threshold.trim()))
+  } as ServerConfig['alerts'];
+
+  if (process.env.COST_ALERT_WEBHOOK_URL) {
+    alertsConfig.webhookUrl = process.env.COST_ALERT_WEBHOOK_URL;
+  }
+
+  const costControlsConfig = {
+    autoDowngrade: process.env.AUTO_DOWNGRADE_ACCURACY === 'true',
+    approvalTimeoutSeconds: parseInt(process.env.APPROVAL_TIMEOUT_SECONDS || '300')
+  } as ServerConfig['costControls'];
+
+  if (process.env.APPROVAL_THRESHOLD_USD) {
+    costControlsConfig.approvalThresholdUsd = parseFloat(process.env.APPROVAL_THRESHOLD_USD);
+  }
+
+  const httpConfig = {
+    port: parseInt(process.env.MCP_HTTP_PORT || '3000'),
+    host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+    path: process.env.MCP_HTTP_PATH || '/mcp',
+    sessionIdleTimeoutSeconds: parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT_SECONDS || '3600'),
+    enableLegacySse: process.env.ENABLE_LEGACY_SSE !== 'false',
+    ssePath: process.env.MCP_SSE_PATH || '/sse',
+    messagesPath: process.env.MCP_SSE_MESSAGES_PATH || '/messages',
+    enableCors: process.env.ENABLE_CORS !== 'false',
+    enableHelmet: process.env.ENABLE_HELMET !== 'false'
+  } as ServerConfig['http'];
+
+  if (process.env.MCP_HTTP_ALLOWED_HOSTS) {
+    httpConfig.allowedHosts = parseList(process.env.MCP_HTTP_ALLOWED_HOSTS);
+  }
+
+  if (process.env.CORS_ALLOWED_ORIGINS) {
+    httpConfig.corsOrigins = parseList(process.env.CORS_ALLOWED_ORIGINS);
+  }
+
+  const authConfig = {
+    requiredScopes: parseList(process.env.OAUTH_REQUIRED_SCOPES || ''),
+    jwksCacheSeconds: parseInt(process.env.OAUTH_JWKS_CACHE_SECONDS || '600')
+  } as ServerConfig['auth'];
+
+  if (process.env.API_KEYS_FILE) {
+    authConfig.apiKeysPath = process.env.API_KEYS_FILE;
+  }
+
+  if (process.env.OAUTH_JWKS_URL) {
+    authConfig.jwksUrl = process.env.OAUTH_JWKS_URL;
+  }
+
+  if (process.env.OAUTH_INTROSPECTION_FILE) {
+    authConfig.introspectionPath = process.env.OAUTH_INTROSPECTION_FILE;
+  }
+
+  if (process.env.OAUTH_ISSUER) {
+    authConfig.issuer = process.env.OAUTH_ISSUER;
+  }
+
+  if (process.env.MCP_RESOURCE_URL) {
+    authConfig.resourceUrl = process.env.MCP_RESOURCE_URL;
+  }
+
+  const rateLimitConfig: RateLimitConfig = {
+    requests_per_hour: parseInt(process.env.MAX_REQUESTS_PER_HOUR || '10'),
+    requests_per_day: parseInt(process.env.MAX_REQUESTS_PER_DAY || '30'),
+    tokens_per_day: parseInt(process.env.MAX_TOKENS_PER_DAY || '1000000'),
+    daily_cost_limit_usd: parseFloat(process.env.MAX_DAILY_COST_USD || '25.00'),
+    high_accuracy_daily_limit: parseInt(process.env.HIGH_ACCURACY_DAILY_LIMIT || '8'),
+    medium_accuracy_daily_limit: parseInt(process.env.MEDIUM_ACCURACY_DAILY_LIMIT || '15'),
+    algorithm: (process.env.RATE_LIMIT_ALGORITHM as RateLimitAlgorithm) || 'sliding_window',
+    reset_timezone: process.env.RATE_LIMIT_TIMEZONE || 'UTC'
+  };
+
+  if (process.env.MAX_MONTHLY_COST_USD) {
+    rateLimitConfig.monthly_cost_limit_usd = parseFloat(process.env.MAX_MONTHLY_COST_USD);
+  }
+
+  const projectBudget = parseBudgetCaps('PROJECT_MAX_DAILY_COST_USD', 'PROJECT_MAX_MONTHLY_COST_USD');
+  if (projectBudget) {
+    rateLimitConfig.project_budget = projectBudget;
+  }
+
+  if (process.env.PROJECT_BUDGETS) {
+    rateLimitConfig.project_budgets = parseProjectBudgets(process.env.PROJECT_BUDGETS);
+  }
+
+  const globalBudget = parseBudgetCaps('GLOBAL_MAX_DAILY_COST_USD', 'GLOBAL_MAX_MONTHLY_COST_USD');
+  if (globalBudget) {
+    rateLimitConfig.global_budget = globalBudget;
+  }
+
   return {
     openai: openaiConfig,
-    rateLimits: {
-      requests_per_hour: parseInt(process.env.MAX_REQUESTS_PER_HOUR || '10'),
-      requests_per_day: parseInt(process.env.MAX_REQUESTS_PER_DAY || '30'),
-      tokens_per_day: parseInt(process.env.MAX_TOKENS_PER_DAY || '100000'),
-      daily_cost_limit_usd: parseFloat(process.env.MAX_DAILY_COST_USD || '25.00'),
-      high_accuracy_daily_limit: parseInt(process.env.HIGH_ACCURACY_DAILY_LIMIT || '8'),
-      medium_accuracy_daily_limit: parseInt(process.env.MEDIUM_ACCURACY_DAILY_LIMIT || '15')
-    },
+    rateLimits: rateLimitConfig,
     redis: redisConfig,
+    jobs: {
+      storePath: process.env.JOB_STORE_PATH || 'data/research-jobs.db',
+      pollIntervalSeconds: parseInt(process.env.JOB_POLL_INTERVAL_SECONDS || '15')
+    },
+    usage: {
+      store: (process.env.USAGE_STORE as "memory" | "sqlite" | "redis") || 'sqlite',
+      sqlitePath: process.env.USAGE_STORE_PATH || 'data/usage.db'
+    },
+    prompts: promptsConfig,
+    pricing: pricingConfig,
+    ledger: {
+      storePath: process.env.SPEND_LEDGER_PATH || 'data/spend-ledger.db'
+    },
+    costControls: costControlsConfig,
+    http: httpConfig,
+    auth: authConfig,
+    alerts: alertsConfig,
     server: {
       name: process.env.SERVER_NAME || 'openai-deep-research-mcp-server',
       version: process.env.SERVER_VERSION || '1.0.0',
@@ -101,6 +271,76 @@ export function validateConfig(config: ServerConfig): string[] {
     errors.push('Redis URL is required (REDIS_URL)');
   }
 
+  // Validate usage store settings
+  if (!['memory', 'sqlite', 'redis'].includes(config.usage.store)) {
+    errors.push('Usage store must be "memory", "sqlite", or "redis" (USAGE_STORE)');
+  }
+
+  // Validate job settings
+  if (config.jobs.pollIntervalSeconds < 1 || config.jobs.pollIntervalSeconds > 3600) {
+    errors.push('Job poll interval must be between 1 and 3600 seconds');
+  }
+
+  // Validate cost approval
+  const { approvalThresholdUsd, approvalTimeoutSeconds } = config.costControls;
+  if (approvalThresholdUsd !== undefined && (isNaN(approvalThresholdUsd) || approvalThresholdUsd < 0)) {
+    errors.push('Approval threshold must be an amount in USD of at least 0 (APPROVAL_THRESHOLD_USD)');
+  }
+
+  if (isNaN(approvalTimeoutSeconds) || approvalTimeoutSeconds < 10 || approvalTimeoutSeconds > 3600) {
+    errors.push('Approval timeout must be between 10 and 3600 seconds (APPROVAL_TIMEOUT_SECONDS)');
+  }
+
+  // Validate HTTP transport
+  if (isNaN(config.http.port) || config.http.port < 0 || config.http.port > 65535) {
+    errors.push('HTTP port must be between 0 and 65535 (MCP_HTTP_PORT)');
+  }
+
+  const httpPaths: Array<[string, string]> = [
+    ['MCP_HTTP_PATH', config.http.path],
+    ['MCP_SSE_PATH', config.http.ssePath],
+    ['MCP_SSE_MESSAGES_PATH', config.http.messagesPath]
+  ];
+  for (const [variable, path] of httpPaths) {
+    if (!path.startsWith('/')) {
+      errors.push(`HTTP endpoint paths must start with "/" (${variable})`);
+    }
+  }
+
+  if (config.http.enableLegacySse && new Set(httpPaths.map(([, path]) => path)).size < httpPaths.length) {
+    errors.push('The Streamable HTTP, SSE and SSE messages endpoints need different paths');
+  }
+
+  if (isNaN(config.http.sessionIdleTimeoutSeconds) || config.http.sessionIdleTimeoutSeconds < 60) {
+    errors.push('Session idle timeout must be at least 60 seconds (MCP_SESSION_IDLE_TIMEOUT_SECONDS)');
+  }
+
+  // Validate HTTP authentication
+  if (config.auth.jwksUrl && !/^https?:\/\//.test(config.auth.jwksUrl)) {
+    errors.push('JWKS URL must be an http(s) URL (OAUTH_JWKS_URL)');
+  }
+
+  if (config.auth.resourceUrl && !/^https?:\/\//.test(config.auth.resourceUrl)) {
+    errors.push('Resource URL must be the http(s) URL of the MCP endpoint (MCP_RESOURCE_URL)');
+  }
+
+  if ((config.auth.jwksUrl || config.auth.introspectionPath) && !config.auth.issuer) {
+    errors.push('OAuth bearer tokens need the authorization server they come from (OAUTH_ISSUER)');
+  }
+
+  if (isNaN(config.auth.jwksCacheSeconds) || config.auth.jwksCacheSeconds < 60) {
+    errors.push('JWKS cache time must be at least 60 seconds (OAUTH_JWKS_CACHE_SECONDS)');
+  }
+
+  // Validate cost alerts
+  if (config.alerts.thresholds.some(threshold => isNaN(threshold) || threshold <= 0 || threshold > 10)) {
+    errors.push('Cost alert thresholds must be fractions of the budget between 0 and 10, e.g. 0.5,0.8,1 (COST_ALERT_THRESHOLDS)');
+  }
+
+  if (config.alerts.webhookUrl && !/^https?:\/\//.test(config.alerts.webhookUrl)) {
+    errors.push('Cost alert webhook must be an http(s) URL (COST_ALERT_WEBHOOK_URL)');
+  }
+
   // Validate rate limits
   if (config.rateLimits.requests_per_hour < 1 || config.rateLimits.requests_per_hour > 1000) {
     errors.push('Requests per hour must be between 1 and 1000');
@@ -114,6 +354,23 @@ export function validateConfig(config: ServerConfig): string[] {
     errors.push('Daily cost limit must be between $0.01 and $1000');
   }
 
+  const budgets: Array<[string, number | undefined]> = [
+    ['MAX_MONTHLY_COST_USD', config.rateLimits.monthly_cost_limit_usd],
+    ['PROJECT_MAX_DAILY_COST_USD', config.rateLimits.project_budget?.daily_usd],
+    ['PROJECT_MAX_MONTHLY_COST_USD', config.rateLimits.project_budget?.monthly_usd],
+    ['GLOBAL_MAX_DAILY_COST_USD', config.rateLimits.global_budget?.daily_usd],
+    ['GLOBAL_MAX_MONTHLY_COST_USD', config.rateLimits.global_budget?.monthly_usd]
+  ];
+  for (const [projectId, caps] of Object.entries(config.rateLimits.project_budgets || {})) {
+    budgets.push([`PROJECT_BUDGETS.${projectId}.daily_usd`, caps.daily_usd]);
+    budgets.push([`PROJECT_BUDGETS.${projectId}.monthly_usd`, caps.monthly_usd]);
+  }
+  for (const [name, budget] of budgets) {
+    if (budget !== undefined && (isNaN(budget) || budget <= 0)) {
+      errors.push(`Budget must be a positive amount in USD (${name})`);
+    }
+  }
+
   if (config.rateLimits.high_accuracy_daily_limit > config.rateLimits.requests_per_day) {
     errors.push('High accuracy daily limit cannot exceed total daily requests');
   }
@@ -122,6 +379,14 @@ export function validateConfig(config: ServerConfig): string[] {
     errors.push('Medium accuracy daily limit cannot exceed total daily requests');
   }
 
+  if (config.rateLimits.algorithm && !['sliding_log', 'sliding_window', 'token_bucket'].includes(config.rateLimits.algorithm)) {
+    errors.push('Rate limit algorithm must be "sliding_log", "sliding_window", or "token_bucket" (RATE_LIMIT_ALGORITHM)');
+  }
+
+  if (config.rateLimits.reset_timezone && !isValidTimezone(config.rateLimits.reset_timezone)) {
+    errors.push(`Rate limit timezone '${config.rateLimits.reset_timezone}' is not a valid IANA timezone (RATE_LIMIT_TIMEZONE)`);
+  }
+
   // Validate server configuration
   const validLogLevels = ['error', 'warn', 'info', 'debug'];
   if (!validLogLevels.includes(config.server.logLevel)) {
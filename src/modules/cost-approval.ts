@@ -0,0 +1,128 @@
+/**
+ * Cost approval for OpenAI Deep Research MCP Server
+ * Asks the user, through MCP elicitation, to confirm research runs whose estimated cost
+ * is above the approval threshold
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { CostEstimate, DoDeepResearchRequest, Logger, ResearchScopeApplied } from '@/types';
+
+/**
+ * Longest part of the research query quoted in the approval message
+ */
+const QUERY_PREVIEW_LENGTH = 300;
+
+/**
+ * How the user answered (or did not answer) an approval request
+ */
+export type CostApprovalOutcome = 'approved' | 'declined' | 'cancelled' | 'timed_out';
+
+/**
+ * Sends an elicitation/create request to the client of the current tool call
+ */
+export type ElicitationSender = (params: ElicitRequest['params'], options?: RequestOptions) => Promise<ElicitResult>;
+
+/**
+ * Build the elicitation shown to the user: the model, the estimated cost and the scope of the run
+ */
+export function buildCostApprovalRequest(
+  request: DoDeepResearchRequest,
+  estimate: CostEstimate,
+  thresholdUsd: number,
+  scope?: ResearchScopeApplied
+): ElicitRequest['params'] {
+  const query = request.research_query.length > QUERY_PREVIEW_LENGTH
+    ? `${request.research_query.slice(0, QUERY_PREVIEW_LENGTH)}…`
+    : request.research_query;
+
+  const lines = [
+    `This deep research run is estimated above the $${thresholdUsd.toFixed(2)} approval threshold.`,
+    '',
+    `Model: ${estimate.model} (${estimate.accuracy_level} accuracy)`,
+    `Estimated cost: $${estimate.estimated_cost_usd.toFixed(2)} (typically $${estimate.cost_range_usd.min.toFixed(2)} to $${estimate.cost_range_usd.max.toFixed(2)})`,
+    `Query: "${query}"`,
+    `Scope: ${describeScope(request, scope)}`
+  ];
+
+  return {
+    message: lines.join('\n'),
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        approve: {
+          type: 'boolean',
+          title: 'Run this research',
+          description: `Approve spending about $${estimate.estimated_cost_usd.toFixed(2)} on this run`,
+          default: false
+        }
+      },
+      required: ['approve']
+    }
+  };
+}
+
+/**
+ * Ask for approval and wait for the user's answer
+ * Timeouts and cancelled tool calls count as not approved; other failures are rethrown
+ */
+export async function requestCostApproval(
+  send: ElicitationSender,
+  params: ElicitRequest['params'],
+  logger: Logger,
+  options: RequestOptions = {}
+): Promise<CostApprovalOutcome> {
+  try {
+    const result = await send(params, options);
+
+    if (result.action === 'accept') {
+      return result.content?.['approve'] === true ? 'approved' : 'declined';
+    }
+    return result.action === 'decline' ? 'declined' : 'cancelled';
+  } catch (error) {
+    if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+      logger.warn('Cost approval timed out', { timeout_ms: options.timeout });
+      return 'timed_out';
+    }
+    if (options.signal?.aborted) {
+      return 'cancelled';
+    }
+    throw error;
+  }
+}
+
+/**
+ * One-line summary of what the run will cover
+ */
+function describeScope(request: DoDeepResearchRequest, scope?: ResearchScopeApplied): string {
+  const parts: string[] = [];
+
+  if (scope?.time_range) {
+    parts.push(`from ${scope.time_range.start_date || 'any date'} to ${scope.time_range.end_date || 'now'}`);
+  }
+  if (scope?.domain_categories?.length) {
+    parts.push(`${scope.domain_categories.join(', ')} sources`);
+  }
+  if (scope?.allowed_domains?.length) {
+    parts.push(`only ${scope.allowed_domains.join(', ')}`);
+  }
+  if (scope?.blocked_domains?.length) {
+    parts.push(`excluding ${scope.blocked_domains.join(', ')}`);
+  }
+  if (scope?.user_location) {
+    const location = [scope.user_location.city, scope.user_location.region, scope.user_location.country]
+      .filter(Boolean)
+      .join(', ');
+    if (location) parts.push(`localized to ${location}`);
+  }
+  if (request.template) {
+    parts.push(`template ${request.template}`);
+  }
+  parts.push(`${request.response_format} report`);
+  if (request.background) {
+    parts.push('runs in the background');
+  }
+
+  return parts.join('; ');
+}
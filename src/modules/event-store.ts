@@ -0,0 +1,72 @@
+/**
+ * Event store for OpenAI Deep Research MCP Server
+ * Keeps the messages sent on the Streamable HTTP event streams of a session so a client
+ * that loses its connection during a long research run can reconnect with Last-Event-ID
+ * and receive the progress notifications and the result it missed
+ */
+
+import { randomUUID } from 'crypto';
+import type { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Most events kept per session; the oldest are dropped first
+ */
+const DEFAULT_MAX_EVENTS = 1000;
+
+/**
+ * In-memory event store, one per session; events live as long as the session
+ */
+export class InMemoryEventStore implements EventStore {
+  private events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+  private maxEvents: number;
+
+  constructor(maxEvents = DEFAULT_MAX_EVENTS) {
+    this.maxEvents = maxEvents;
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = randomUUID();
+    this.events.set(eventId, { streamId, message });
+
+    // Maps iterate in insertion order, so the first key is the oldest event
+    while (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value as EventId;
+      this.events.delete(oldest);
+    }
+    return eventId;
+  }
+
+  /**
+   * Send the events of the stream that follow lastEventId, in order
+   * Returns an empty stream id when lastEventId is unknown or has been dropped
+   */
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const last = this.events.get(lastEventId);
+    if (!last) {
+      return '';
+    }
+
+    let found = false;
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && event.streamId === last.streamId) {
+        await send(eventId, event.message);
+      }
+    }
+    return last.streamId;
+  }
+
+  /**
+   * Number of events currently kept
+   */
+  get size(): number {
+    return this.events.size;
+  }
+}
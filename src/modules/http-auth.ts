@@ -0,0 +1,506 @@
+/**
+ * Authentication for the HTTP transports of OpenAI Deep Research MCP Server
+ * Accepts static API keys (stored as SHA-256 hashes) and OAuth 2.1 bearer tokens, either
+ * JWTs signed by a key of a configured JWKS or tokens listed in a local file standing in for
+ * an introspection endpoint. Follows the MCP authorization spec: the server publishes its
+ * protected resource metadata and only accepts tokens issued for it. The authenticated
+ * principal is the client id that budgets and rate limits are charged to
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import type { Request, RequestHandler, Response } from 'express';
+import { z } from 'zod';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { InsufficientScopeError, InvalidTokenError, ServerError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import type { Logger, ServerConfig } from '@/types';
+
+/**
+ * Clock skew tolerated when checking token expiry and not-before times
+ */
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+/**
+ * Shortest time between two JWKS downloads triggered by an unknown key id
+ */
+const JWKS_REFRESH_COOLDOWN_MS = 30 * 1000;
+
+/**
+ * Where the protected resource metadata is published (RFC 9728)
+ */
+const RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+/**
+ * Signature algorithms accepted for JWT access tokens and how node:crypto verifies them
+ */
+const JWT_ALGORITHMS: Record<string, { digest: string | null; options?: Partial<crypto.VerifyKeyObjectInput> }> = {
+  RS256: { digest: 'sha256' },
+  RS384: { digest: 'sha384' },
+  RS512: { digest: 'sha512' },
+  PS256: { digest: 'sha256', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST } },
+  PS384: { digest: 'sha384', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST } },
+  PS512: { digest: 'sha512', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST } },
+  ES256: { digest: 'sha256', options: { dsaEncoding: 'ieee-p1363' } },
+  ES384: { digest: 'sha384', options: { dsaEncoding: 'ieee-p1363' } },
+  ES512: { digest: 'sha512', options: { dsaEncoding: 'ieee-p1363' } },
+  EdDSA: { digest: null }
+};
+
+const Sha256Schema = z.string().regex(/^[a-f0-9]{64}$/i, 'must be the hex SHA-256 hash of the key');
+
+const ApiKeyFileSchema = z.array(z.object({
+  client_id: z.string().min(1).max(128),
+  key_sha256: Sha256Schema,
+  scopes: z.array(z.string()).optional(),
+  description: z.string().optional()
+}));
+
+/**
+ * JOSE header of a JWT
+ */
+const JwtHeaderSchema = z.object({
+  alg: z.string(),
+  kid: z.string().optional()
+}).passthrough();
+
+/**
+ * Claims of a token: the payload of a JWT, or an RFC 7662 introspection response
+ */
+const TokenClaimsSchema = z.object({
+  active: z.boolean().optional(),
+  sub: z.string().optional(),
+  client_id: z.string().optional(),
+  azp: z.string().optional(),
+  iss: z.string().optional(),
+  aud: z.union([z.string(), z.array(z.string())]).optional(),
+  exp: z.number().optional(),
+  nbf: z.number().optional(),
+  scope: z.string().optional(),
+  scp: z.array(z.string()).optional()
+}).passthrough();
+
+type TokenClaims = z.infer<typeof TokenClaimsSchema>;
+
+const IntrospectionFileSchema = z.record(Sha256Schema, TokenClaimsSchema);
+
+/**
+ * Checks one kind of credential
+ */
+export interface AccessTokenVerifier {
+  /**
+   * Auth info of a valid token, or undefined for tokens this verifier does not handle;
+   * throws InvalidTokenError for tokens it handles that are not valid
+   */
+  verify(token: string): Promise<AuthInfo | undefined>;
+}
+
+/**
+ * What OAuth access tokens must have been issued for
+ */
+export interface TokenExpectations {
+  audience: string;               // This server's resource URL (RFC 8707)
+  issuer?: string;
+}
+
+/**
+ * Hex SHA-256 hash under which API keys and stand-in tokens are stored
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Auth info of the request, set by the authenticator's middleware
+ */
+export function getAuthInfo(req: Request): AuthInfo | undefined {
+  return (req as Request & { auth?: AuthInfo }).auth;
+}
+
+/**
+ * Static API keys; each key is charged to the client id it is listed under
+ */
+export class ApiKeyVerifier implements AccessTokenVerifier {
+  private keys = new Map<string, z.infer<typeof ApiKeyFileSchema>[number]>();
+
+  constructor(entries: z.infer<typeof ApiKeyFileSchema>) {
+    for (const entry of entries) {
+      this.keys.set(entry.key_sha256.toLowerCase(), entry);
+    }
+  }
+
+  /**
+   * Load a JSON array of { client_id, key_sha256, scopes? } entries
+   */
+  static async load(filePath: string, logger: Logger): Promise<ApiKeyVerifier> {
+    const entries = await readJsonFile(filePath, ApiKeyFileSchema, 'API key file');
+    logger.info('API keys loaded', { file: filePath, keys: entries.length });
+    return new ApiKeyVerifier(entries);
+  }
+
+  async verify(token: string): Promise<AuthInfo | undefined> {
+    const entry = this.keys.get(hashToken(token));
+    if (!entry) {
+      return undefined;
+    }
+    return {
+      token,
+      clientId: entry.client_id,
+      scopes: entry.scopes ?? [],
+      extra: { auth_method: 'api_key' }
+    };
+  }
+}
+
+/**
+ * JWT access tokens signed by a key of the authorization server's JWKS
+ */
+export class JwtAccessTokenVerifier implements AccessTokenVerifier {
+  private jwksUrl: string;
+  private expectations: TokenExpectations;
+  private logger: Logger;
+  private cacheMs: number;
+  private keys = new Map<string, { key: crypto.KeyObject; alg?: string }>();
+  private fetchedAt = 0;
+  private pending: Promise<void> | undefined;
+
+  constructor(jwksUrl: string, expectations: TokenExpectations, logger: Logger, cacheSeconds = 600) {
+    this.jwksUrl = jwksUrl;
+    this.expectations = expectations;
+    this.logger = logger;
+    this.cacheMs = cacheSeconds * 1000;
+  }
+
+  async verify(token: string): Promise<AuthInfo | undefined> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return undefined;
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts as [string, string, string];
+
+    const parsedHeader = JwtHeaderSchema.safeParse(decodeJwtPart(encodedHeader));
+    if (!parsedHeader.success) {
+      throw new InvalidTokenError('Token header is malformed');
+    }
+    const header = parsedHeader.data;
+    const algorithm = JWT_ALGORITHMS[header.alg];
+    if (!algorithm) {
+      throw new InvalidTokenError(`Unsupported token signature algorithm ${header.alg}`);
+    }
+
+    const signingKey = await this.getKey(header.kid);
+    if (!signingKey || (signingKey.alg && signingKey.alg !== header.alg)) {
+      throw new InvalidTokenError('Token is not signed by a key of the authorization server');
+    }
+
+    let valid = false;
+    try {
+      valid = crypto.verify(
+        algorithm.digest,
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        { key: signingKey.key, ...algorithm.options },
+        Buffer.from(encodedSignature, 'base64url')
+      );
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      throw new InvalidTokenError('Token signature is invalid');
+    }
+
+    const claims = TokenClaimsSchema.safeParse(decodeJwtPart(encodedPayload));
+    if (!claims.success) {
+      throw new InvalidTokenError('Token claims are malformed');
+    }
+    if (claims.data.exp === undefined) {
+      throw new InvalidTokenError('Token has no expiration time');
+    }
+    return toAuthInfo(token, claims.data, this.expectations, 'jwt');
+  }
+
+  /**
+   * Key by id (the only key when the token names none); an unknown id refreshes the JWKS
+   */
+  private async getKey(kid: string | undefined): Promise<{ key: crypto.KeyObject; alg?: string } | undefined> {
+    const now = Date.now();
+    const find = () => kid !== undefined
+      ? this.keys.get(kid)
+      : this.keys.size === 1 ? this.keys.values().next().value : undefined;
+
+    const stale = now - this.fetchedAt > this.cacheMs;
+    if (stale || (!find() && now - this.fetchedAt > JWKS_REFRESH_COOLDOWN_MS)) {
+      this.pending ??= this.fetchKeys().finally(() => {
+        this.pending = undefined;
+      });
+      await this.pending;
+    }
+    return find();
+  }
+
+  private async fetchKeys(): Promise<void> {
+    let body: { keys?: unknown };
+    try {
+      const response = await fetch(this.jwksUrl, { signal: AbortSignal.timeout(10000) });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      body = await response.json() as { keys?: unknown };
+    } catch (error) {
+      this.logger.error('Fetching the JWKS failed', {
+        url: this.jwksUrl,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new ServerError('Signing keys of the authorization server are unavailable');
+    }
+
+    const keys = new Map<string, { key: crypto.KeyObject; alg?: string }>();
+    for (const [index, jwk] of (Array.isArray(body.keys) ? body.keys : []).entries()) {
+      if (!jwk || typeof jwk !== 'object' || (jwk as { use?: unknown }).use === 'enc') {
+        continue;
+      }
+      try {
+        const { kid, alg } = jwk as { kid?: unknown; alg?: unknown };
+        const key = crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' });
+        keys.set(typeof kid === 'string' ? kid : `#${index}`, typeof alg === 'string' ? { key, alg } : { key });
+      } catch (error) {
+        this.logger.warn('Skipping unusable JWKS key', { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+    this.logger.info('JWKS loaded', { url: this.jwksUrl, keys: keys.size });
+  }
+}
+
+/**
+ * Tokens listed in a local JSON file of RFC 7662 introspection responses keyed by the SHA-256
+ * hash of the token; stands in for the authorization server's introspection endpoint
+ */
+export class LocalIntrospectionVerifier implements AccessTokenVerifier {
+  private tokens: Map<string, TokenClaims>;
+  private expectations: TokenExpectations;
+
+  constructor(tokens: Record<string, TokenClaims>, expectations: TokenExpectations) {
+    this.tokens = new Map(Object.entries(tokens).map(([hash, claims]) => [hash.toLowerCase(), claims]));
+    this.expectations = expectations;
+  }
+
+  static async load(filePath: string, expectations: TokenExpectations, logger: Logger): Promise<LocalIntrospectionVerifier> {
+    const tokens = await readJsonFile(filePath, IntrospectionFileSchema, 'Token introspection file');
+    logger.info('Token introspection stand-in loaded', { file: filePath, tokens: Object.keys(tokens).length });
+    return new LocalIntrospectionVerifier(tokens, expectations);
+  }
+
+  async verify(token: string): Promise<AuthInfo | undefined> {
+    const claims = this.tokens.get(hashToken(token));
+    if (!claims) {
+      return undefined;
+    }
+    if (claims.active !== true) {
+      throw new InvalidTokenError('Token is not active');
+    }
+    return toAuthInfo(token, claims, this.expectations, 'introspection');
+  }
+}
+
+/**
+ * Options of the authenticator and the protected resource metadata it publishes
+ */
+export interface HttpAuthenticatorOptions {
+  resourceUrl: string;
+  authorizationServers: string[];
+  requiredScopes: string[];
+}
+
+/**
+ * Requires a valid bearer credential on every MCP request and publishes the protected
+ * resource metadata clients use to find the authorization server
+ */
+export class HttpAuthenticator {
+  private verifiers: AccessTokenVerifier[];
+  private options: HttpAuthenticatorOptions;
+  private logger: Logger;
+
+  constructor(verifiers: AccessTokenVerifier[], options: HttpAuthenticatorOptions, logger: Logger) {
+    this.verifiers = verifiers;
+    this.options = options;
+    this.logger = logger;
+  }
+
+  /**
+   * OAuth 2.0 Protected Resource Metadata (RFC 9728)
+   */
+  getResourceMetadata(): Record<string, unknown> {
+    const metadata: Record<string, unknown> = {
+      resource: this.options.resourceUrl,
+      authorization_servers: this.options.authorizationServers,
+      bearer_methods_supported: ['header'],
+      resource_name: 'OpenAI Deep Research MCP Server'
+    };
+    if (this.options.requiredScopes.length > 0) {
+      metadata['scopes_supported'] = this.options.requiredScopes;
+    }
+    return metadata;
+  }
+
+  /**
+   * Paths the metadata is served at: under the resource's path (RFC 9728) and at the root
+   */
+  getResourceMetadataPaths(): string[] {
+    const resourcePath = new URL(this.options.resourceUrl).pathname.replace(/\/$/, '');
+    return resourcePath ? [`${RESOURCE_METADATA_PATH}${resourcePath}`, RESOURCE_METADATA_PATH] : [RESOURCE_METADATA_PATH];
+  }
+
+  getResourceMetadataUrl(): string {
+    return new URL(this.getResourceMetadataPaths()[0] as string, this.options.resourceUrl).href;
+  }
+
+  /**
+   * Check the credential of a request and attach its auth info
+   */
+  middleware(): RequestHandler {
+    return (req, res, next) => {
+      this.authenticate(req)
+        .then(authInfo => {
+          (req as Request & { auth?: AuthInfo }).auth = authInfo;
+          next();
+        })
+        .catch(error => this.reject(req, res, error));
+    };
+  }
+
+  async authenticate(req: Request): Promise<AuthInfo> {
+    const header = req.headers.authorization;
+    if (!header) {
+      throw new InvalidTokenError('Missing Authorization header');
+    }
+    const [scheme, token] = header.split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      throw new InvalidTokenError('Invalid Authorization header format, expected \'Bearer TOKEN\'');
+    }
+
+    for (const verifier of this.verifiers) {
+      const authInfo = await verifier.verify(token);
+      if (!authInfo) {
+        continue;
+      }
+      if (!this.options.requiredScopes.every(scope => authInfo.scopes.includes(scope))) {
+        throw new InsufficientScopeError(`Token needs the scopes ${this.options.requiredScopes.join(' ')}`);
+      }
+      return authInfo;
+    }
+    throw new InvalidTokenError('Unknown API key or access token');
+  }
+
+  private reject(req: Request, res: Response, error: unknown): void {
+    const resourceMetadata = `resource_metadata="${this.getResourceMetadataUrl()}"`;
+
+    if (error instanceof InvalidTokenError || error instanceof InsufficientScopeError) {
+      this.logger.warn('HTTP request rejected', { path: req.path, reason: error.message });
+
+      // A request without credentials only learns where to get them (RFC 6750 section 3.1)
+      const challenge = !req.headers.authorization
+        ? `Bearer ${resourceMetadata}`
+        : error instanceof InsufficientScopeError
+          ? `Bearer error="${error.errorCode}", error_description="${error.message}", scope="${this.options.requiredScopes.join(' ')}", ${resourceMetadata}`
+          : `Bearer error="${error.errorCode}", error_description="${error.message}", ${resourceMetadata}`;
+      res.set('WWW-Authenticate', challenge);
+      res.status(error instanceof InsufficientScopeError ? 403 : 401).json(error.toResponseObject());
+      return;
+    }
+
+    this.logger.error('Authentication failed', {
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    const serverError = error instanceof ServerError ? error : new ServerError('Internal Server Error');
+    res.status(500).json(serverError.toResponseObject());
+  }
+}
+
+/**
+ * Create the authenticator for the configured API keys, JWKS and introspection stand-in;
+ * undefined when none is configured and HTTP requests are not authenticated
+ */
+export async function createHttpAuthenticator(config: ServerConfig, logger: Logger): Promise<HttpAuthenticator | undefined> {
+  const { auth, http } = config;
+  const resourceUrl = auth.resourceUrl || `http://${http.host}:${http.port}${http.path}`;
+  const expectations: TokenExpectations = { audience: resourceUrl };
+  if (auth.issuer) expectations.issuer = auth.issuer;
+
+  const verifiers: AccessTokenVerifier[] = [];
+  if (auth.apiKeysPath) {
+    verifiers.push(await ApiKeyVerifier.load(auth.apiKeysPath, logger));
+  }
+  if (auth.jwksUrl) {
+    verifiers.push(new JwtAccessTokenVerifier(auth.jwksUrl, expectations, logger, auth.jwksCacheSeconds));
+  }
+  if (auth.introspectionPath) {
+    verifiers.push(await LocalIntrospectionVerifier.load(auth.introspectionPath, expectations, logger));
+  }
+
+  if (verifiers.length === 0) {
+    return undefined;
+  }
+  return new HttpAuthenticator(verifiers, {
+    resourceUrl,
+    authorizationServers: auth.issuer ? [auth.issuer] : [],
+    requiredScopes: auth.requiredScopes
+  }, logger);
+}
+
+/**
+ * Check the claims of an OAuth token and turn its subject into the client id
+ */
+function toAuthInfo(token: string, claims: TokenClaims, expectations: TokenExpectations, method: string): AuthInfo {
+  const now = Date.now() / 1000;
+
+  if (claims.exp !== undefined && claims.exp + CLOCK_TOLERANCE_SECONDS < now) {
+    throw new InvalidTokenError('Token has expired');
+  }
+  if (claims.nbf !== undefined && claims.nbf - CLOCK_TOLERANCE_SECONDS > now) {
+    throw new InvalidTokenError('Token is not valid yet');
+  }
+  if (expectations.issuer && claims.iss !== expectations.issuer) {
+    throw new InvalidTokenError('Token was issued by another authorization server');
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : [];
+  if (!audiences.includes(expectations.audience)) {
+    throw new InvalidTokenError('Token was not issued for this server');
+  }
+
+  const principal = claims.sub || claims.client_id;
+  if (!principal) {
+    throw new InvalidTokenError('Token has no subject');
+  }
+
+  const authInfo: AuthInfo = {
+    token,
+    clientId: principal,
+    scopes: claims.scp ?? claims.scope?.split(' ').filter(Boolean) ?? [],
+    resource: new URL(expectations.audience),
+    extra: { auth_method: method, oauth_client_id: claims.client_id ?? claims.azp }
+  };
+  if (claims.exp !== undefined) {
+    authInfo.expiresAt = claims.exp;
+  }
+  return authInfo;
+}
+
+function decodeJwtPart(part: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidTokenError('Token is not a well-formed JWT');
+  }
+}
+
+async function readJsonFile<T>(filePath: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, label: string): Promise<T> {
+  const source = await fs.promises.readFile(filePath, 'utf8');
+  const parsed = schema.safeParse(JSON.parse(source));
+  if (!parsed.success) {
+    throw new Error(`Invalid ${label} ${filePath}: ${parsed.error.errors.map(error => `${error.path.join('.')}: ${error.message}`).join('; ')}`);
+  }
+  return parsed.data;
+}
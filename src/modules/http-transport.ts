@@ -0,0 +1,412 @@
+/**
+ * Streamable HTTP transport for OpenAI Deep Research MCP Server
+ * Serves MCP from an Express app so several clients share one server, one OpenAI API key
+ * and one budget. Each client connection gets its own session and MCP server instance, and
+ * event streams can be resumed with Last-Event-ID after a dropped connection. Older clients
+ * can connect through the legacy HTTP+SSE endpoint pair instead
+ */
+
+import { randomUUID } from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import type { Express, Request, RequestHandler, Response } from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { Logger, ServerConfig } from '@/types';
+import { InMemoryEventStore } from './event-store.js';
+import type { HttpAuthenticator } from './http-auth.js';
+
+/**
+ * Header carrying the session id, as defined by the Streamable HTTP transport
+ */
+const SESSION_HEADER = 'mcp-session-id';
+
+/**
+ * How often sessions are checked for the idle timeout
+ */
+const IDLE_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Creates the MCP server, with all tools registered, that handles one session
+ */
+export type SessionServerFactory = (clientId: string) => McpServer;
+
+/**
+ * Works out which client an initialize request comes from; the session keeps that identity
+ */
+export type ClientIdentifier = (req: Request) => string;
+
+/**
+ * Transport a session was opened with: Streamable HTTP, or the legacy HTTP+SSE pair
+ */
+export type McpSessionProtocol = 'streamable-http' | 'sse';
+
+/**
+ * An open MCP session and the client it belongs to
+ */
+export interface McpSession {
+  id: string;
+  clientId: string;
+  protocol: McpSessionProtocol;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  createdAt: number;
+  lastActivityAt: number;
+  openRequests: number;           // Requests and event streams still connected
+}
+
+/**
+ * Why a request could not be routed to a session
+ */
+interface SessionError {
+  status: number;
+  message: string;
+}
+
+/**
+ * Express app serving MCP Streamable HTTP, and optionally the legacy HTTP+SSE transport,
+ * with one MCP server per session
+ */
+export class McpHttpServer {
+  private config: ServerConfig['http'];
+  private createSessionServer: SessionServerFactory;
+  private identifyClient: ClientIdentifier;
+  private logger: Logger;
+  private authenticator: HttpAuthenticator | undefined;
+  private app: Express;
+  private sessions = new Map<string, McpSession>();
+  private httpServer: Server | undefined;
+  private idleTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    config: ServerConfig['http'],
+    createSessionServer: SessionServerFactory,
+    identifyClient: ClientIdentifier,
+    logger: Logger,
+    authenticator?: HttpAuthenticator
+  ) {
+    this.config = config;
+    this.createSessionServer = createSessionServer;
+    this.identifyClient = identifyClient;
+    this.logger = logger;
+    this.authenticator = authenticator;
+    this.app = this.createApp();
+  }
+
+  /**
+   * The Express app, for mounting in tests or behind another server
+   */
+  getApp(): Express {
+    return this.app;
+  }
+
+  /**
+   * Sessions currently open
+   */
+  getSessions(): McpSession[] {
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * Listen on the configured host and port and start closing idle sessions
+   */
+  async start(): Promise<AddressInfo> {
+    const server = await new Promise<Server>((resolve, reject) => {
+      const listening = this.app.listen(this.config.port, this.config.host, () => resolve(listening));
+      listening.once('error', reject);
+    });
+    this.httpServer = server;
+
+    this.idleTimer = setInterval(() => {
+      this.closeIdleSessions().catch(error => {
+        this.logger.error('Closing idle MCP sessions failed', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }, IDLE_CHECK_INTERVAL_MS);
+    this.idleTimer.unref();
+
+    const address = server.address() as AddressInfo;
+    this.logger.info('MCP HTTP transport listening', {
+      host: address.address,
+      port: address.port,
+      path: this.config.path
+    });
+    return address;
+  }
+
+  /**
+   * Close sessions with no open request or stream and no activity within the idle timeout
+   */
+  async closeIdleSessions(now: number = Date.now()): Promise<number> {
+    const cutoff = now - this.config.sessionIdleTimeoutSeconds * 1000;
+    const idle = this.getSessions().filter(session => session.openRequests === 0 && session.lastActivityAt < cutoff);
+
+    for (const session of idle) {
+      await this.closeSession(session.id, 'idle');
+    }
+    return idle.length;
+  }
+
+  /**
+   * Close one session: its open event streams end and its MCP server shuts down
+   * Background research jobs started in the session keep running
+   */
+  async closeSession(sessionId: string, reason: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(sessionId);
+    this.logger.info('Closing MCP session', { session_id: sessionId, client_id: session.clientId, reason });
+    await session.server.close();
+    return true;
+  }
+
+  /**
+   * Stop accepting connections and close every session
+   */
+  async close(): Promise<void> {
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+
+    const server = this.httpServer;
+    this.httpServer = undefined;
+    const stopped = server
+      ? new Promise<void>(resolve => server.close(() => resolve()))
+      : Promise.resolve();
+
+    for (const sessionId of [...this.sessions.keys()]) {
+      await this.closeSession(sessionId, 'shutdown');
+    }
+
+    server?.closeAllConnections();
+    await stopped;
+    this.logger.info('MCP HTTP transport stopped');
+  }
+
+  private createApp(): Express {
+    const app = express();
+
+    if (this.config.enableHelmet) {
+      app.use(helmet());
+    }
+    if (this.config.enableCors) {
+      app.use(cors({
+        origin: this.config.corsOrigins ?? '*',
+        allowedHeaders: ['Content-Type', 'Authorization', 'Mcp-Session-Id', 'Mcp-Protocol-Version', 'Last-Event-ID'],
+        exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate']
+      }));
+    }
+
+    app.get('/health', (_req, res) => {
+      res.json({ status: 'ok', sessions: this.sessions.size });
+    });
+
+    // Every MCP endpoint needs a credential when authentication is configured
+    const authenticate: RequestHandler[] = [];
+    if (this.authenticator) {
+      const metadata = this.authenticator.getResourceMetadata();
+      for (const metadataPath of this.authenticator.getResourceMetadataPaths()) {
+        app.get(metadataPath, (_req, res) => {
+          res.json(metadata);
+        });
+      }
+      authenticate.push(this.authenticator.middleware());
+    }
+
+    // Streamable HTTP: one endpoint for messages, event streams and session teardown
+    app.post(this.config.path, ...authenticate, express.json({ limit: '1mb' }), this.handle(req => this.handlePost(req)));
+    app.get(this.config.path, ...authenticate, this.handle(req => this.findSession(req, req.header(SESSION_HEADER), 'streamable-http')));
+    app.delete(this.config.path, ...authenticate, this.handle(req => this.findSession(req, req.header(SESSION_HEADER), 'streamable-http')));
+
+    // Legacy HTTP+SSE: an event stream that opens the session and an endpoint for its messages
+    if (this.config.enableLegacySse) {
+      app.get(this.config.ssePath, ...authenticate, (req, res) => {
+        this.openSseSession(req, res).catch(error => this.reportFailure(req, res, error));
+      });
+      app.post(this.config.messagesPath, ...authenticate, express.json({ limit: '1mb' }), this.handle(req => {
+        const sessionId = req.query['sessionId'];
+        return this.findSession(req, typeof sessionId === 'string' ? sessionId : undefined, 'sse');
+      }));
+    }
+
+    return app;
+  }
+
+  /**
+   * Route a request to the transport of its session, answering errors as JSON-RPC errors
+   */
+  private handle(
+    resolve: (req: Request) => Promise<McpSession | SessionError> | McpSession | SessionError
+  ): (req: Request, res: Response) => Promise<void> {
+    return async (req, res) => {
+      try {
+        const session = await resolve(req);
+        if (!('server' in session)) {
+          this.sendError(res, session.status, session.message);
+          return;
+        }
+
+        this.trackRequest(session, res);
+
+        if (session.transport instanceof SSEServerTransport) {
+          await session.transport.handlePostMessage(req, res, req.body);
+          return;
+        }
+
+        await session.transport.handleRequest(req, res, req.body);
+
+        // An initialize request that was rejected never opens its session
+        if (!session.id) {
+          await session.server.close();
+        }
+      } catch (error) {
+        this.reportFailure(req, res, error);
+      }
+    };
+  }
+
+  /**
+   * Existing session of a POST, or a new session for an initialize request
+   */
+  private async handlePost(req: Request): Promise<McpSession | SessionError> {
+    if (req.header(SESSION_HEADER) || !isInitializeRequest(req.body)) {
+      return this.findSession(req, req.header(SESSION_HEADER), 'streamable-http');
+    }
+    return this.openSession(this.identifyClient(req));
+  }
+
+  /**
+   * Open session with this id and protocol owned by the client making the request,
+   * or the error to answer with
+   */
+  private findSession(req: Request, sessionId: string | undefined, protocol: McpSessionProtocol): McpSession | SessionError {
+    const start = protocol === 'sse'
+      ? `open a session with GET ${this.config.ssePath}`
+      : 'start a session with an initialize request';
+    if (!sessionId) {
+      return { status: 400, message: `Bad Request: no session id; ${start}` };
+    }
+
+    const session = this.sessions.get(sessionId);
+    // Another client's session is reported as unknown rather than confirmed
+    if (!session || session.protocol !== protocol || session.clientId !== this.identifyClient(req)) {
+      return { status: 404, message: `Session not found; ${start}` };
+    }
+    return session;
+  }
+
+  private async openSession(clientId: string): Promise<McpSession> {
+    const server = this.createSessionServer(clientId);
+    const now = Date.now();
+    const session: McpSession = {
+      id: '',
+      clientId,
+      protocol: 'streamable-http',
+      server,
+      transport: new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: new InMemoryEventStore(),
+        onsessioninitialized: (sessionId) => {
+          session.id = sessionId;
+          this.sessions.set(sessionId, session);
+          this.logger.info('MCP session opened', { session_id: sessionId, client_id: clientId, protocol: session.protocol });
+        },
+        ...this.getDnsRebindingOptions()
+      }),
+      createdAt: now,
+      lastActivityAt: now,
+      openRequests: 0
+    };
+
+    this.forgetOnClose(session);
+    await server.connect(session.transport);
+    return session;
+  }
+
+  /**
+   * Open a legacy SSE session: the response becomes its event stream, which first tells the
+   * client where to POST its messages
+   */
+  private async openSseSession(req: Request, res: Response): Promise<void> {
+    const clientId = this.identifyClient(req);
+    const transport = new SSEServerTransport(this.config.messagesPath, res, this.getDnsRebindingOptions());
+    const now = Date.now();
+    const session: McpSession = {
+      id: transport.sessionId,
+      clientId,
+      protocol: 'sse',
+      server: this.createSessionServer(clientId),
+      transport,
+      createdAt: now,
+      lastActivityAt: now,
+      openRequests: 0
+    };
+
+    this.sessions.set(session.id, session);
+    this.trackRequest(session, res);
+    this.forgetOnClose(session);
+    this.logger.info('MCP session opened', { session_id: session.id, client_id: clientId, protocol: session.protocol });
+
+    await session.server.connect(transport);
+  }
+
+  /**
+   * Keep the session from timing out while the request or stream is connected
+   */
+  private trackRequest(session: McpSession, res: Response): void {
+    session.openRequests++;
+    session.lastActivityAt = Date.now();
+    res.on('close', () => {
+      session.openRequests--;
+      session.lastActivityAt = Date.now();
+    });
+  }
+
+  /**
+   * Sessions ended by the client (a DELETE, or a dropped SSE stream) close their transport;
+   * forget them here
+   */
+  private forgetOnClose(session: McpSession): void {
+    session.transport.onclose = () => {
+      if (this.sessions.get(session.id) === session) {
+        this.sessions.delete(session.id);
+        this.logger.info('MCP session ended by the client', { session_id: session.id, client_id: session.clientId });
+      }
+    };
+  }
+
+  private getDnsRebindingOptions(): { enableDnsRebindingProtection: boolean; allowedHosts?: string[] } {
+    return this.config.allowedHosts
+      ? { enableDnsRebindingProtection: true, allowedHosts: this.config.allowedHosts }
+      : { enableDnsRebindingProtection: false };
+  }
+
+  private reportFailure(req: Request, res: Response, error: unknown): void {
+    this.logger.error('MCP HTTP request failed', {
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    if (!res.headersSent) {
+      this.sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  private sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null
+    });
+  }
+}
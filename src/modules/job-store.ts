@@ -0,0 +1,283 @@
+/**
+ * Research job persistence for OpenAI Deep Research MCP Server
+ * Stores background research jobs so they survive server restarts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import type { ResearchJob, ResearchJobStatus, Logger } from '@/types';
+
+/**
+ * Statuses of jobs that can still change; a stored job in any other status is final
+ */
+const OPEN_STATUSES: ResearchJobStatus[] = ['queued', 'in_progress'];
+
+/**
+ * Storage backend for research jobs
+ */
+export interface ResearchJobStore {
+  initialize(): Promise<void>;
+  /**
+   * Insert or update a job, unless the stored job already reached a final status
+   * Checked and written in one step, so of several concurrent updates only one can finish a job;
+   * resolves to whether the job was written
+   */
+  saveJob(job: ResearchJob): Promise<boolean>;
+  getJob(jobId: string): Promise<ResearchJob | undefined>;
+  listJobsByStatus(statuses: ResearchJobStatus[]): Promise<ResearchJob[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Row layout of the research_jobs table
+ */
+interface ResearchJobRow {
+  job_id: string;
+  client_id: string;
+  status: ResearchJobStatus;
+  model_used: ResearchJob['model_used'];
+  openai_response_id: string | null;
+  request_json: string;
+  result_json: string | null;
+  cost_usd: number | null;
+  error: string | null;
+  accuracy_downgrade_json: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * In-memory job store (jobs are lost on restart)
+ */
+export class InMemoryJobStore implements ResearchJobStore {
+  private jobs: Map<string, ResearchJob> = new Map();
+
+  async initialize(): Promise<void> {
+    // Nothing to initialize
+  }
+
+  async saveJob(job: ResearchJob): Promise<boolean> {
+    const stored = this.jobs.get(job.job_id);
+    if (stored && !OPEN_STATUSES.includes(stored.status)) {
+      return false;
+    }
+    this.jobs.set(job.job_id, { ...job });
+    return true;
+  }
+
+  async getJob(jobId: string): Promise<ResearchJob | undefined> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : undefined;
+  }
+
+  async listJobsByStatus(statuses: ResearchJobStatus[]): Promise<ResearchJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => statuses.includes(job.status))
+      .map(job => ({ ...job }));
+  }
+
+  async close(): Promise<void> {
+    this.jobs.clear();
+  }
+}
+
+/**
+ * SQLite-backed job store
+ */
+export class SQLiteJobStore implements ResearchJobStore {
+  private db: sqlite3.Database | undefined;
+  private filename: string;
+  private logger: Logger;
+
+  constructor(filename: string, logger: Logger) {
+    this.filename = filename;
+    this.logger = logger;
+  }
+
+  /**
+   * Open the database and create the schema if needed
+   */
+  async initialize(): Promise<void> {
+    if (this.filename !== ':memory:') {
+      const dir = path.dirname(path.resolve(this.filename));
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+    }
+
+    this.db = await new Promise<sqlite3.Database>((resolve, reject) => {
+      const db = new sqlite3.Database(this.filename, error => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(db);
+        }
+      });
+    });
+
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS research_jobs (
+        job_id TEXT PRIMARY KEY,
+        client_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        model_used TEXT NOT NULL,
+        openai_response_id TEXT,
+        request_json TEXT NOT NULL,
+        result_json TEXT,
+        cost_usd REAL,
+        error TEXT,
+        accuracy_downgrade_json TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        completed_at TEXT
+      )
+    `);
+    await this.run('CREATE INDEX IF NOT EXISTS idx_research_jobs_status ON research_jobs (status)');
+
+    // Databases created before accuracy downgrades were recorded lack the column
+    const columns = await this.all<{ name: string }>('PRAGMA table_info(research_jobs)');
+    if (!columns.some(column => column.name === 'accuracy_downgrade_json')) {
+      await this.run('ALTER TABLE research_jobs ADD COLUMN accuracy_downgrade_json TEXT');
+    }
+
+    this.logger.info('SQLite job store initialized', { filename: this.filename });
+  }
+
+  async saveJob(job: ResearchJob): Promise<boolean> {
+    const changes = await this.run(
+      `INSERT INTO research_jobs (
+        job_id, client_id, status, model_used, openai_response_id, request_json,
+        result_json, cost_usd, error, accuracy_downgrade_json, created_at, updated_at, completed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(job_id) DO UPDATE SET
+        status = excluded.status,
+        openai_response_id = excluded.openai_response_id,
+        result_json = excluded.result_json,
+        cost_usd = excluded.cost_usd,
+        error = excluded.error,
+        updated_at = excluded.updated_at,
+        completed_at = excluded.completed_at
+      WHERE research_jobs.status IN (${OPEN_STATUSES.map(() => '?').join(', ')})`,
+      [
+        job.job_id,
+        job.client_id,
+        job.status,
+        job.model_used,
+        job.openai_response_id ?? null,
+        JSON.stringify(job.request),
+        job.result ? JSON.stringify(job.result) : null,
+        job.cost_usd ?? null,
+        job.error ?? null,
+        job.accuracy_downgrade ? JSON.stringify(job.accuracy_downgrade) : null,
+        job.created_at,
+        job.updated_at,
+        job.completed_at ?? null,
+        ...OPEN_STATUSES
+      ]
+    );
+    return changes > 0;
+  }
+
+  async getJob(jobId: string): Promise<ResearchJob | undefined> {
+    const row = await this.get<ResearchJobRow>('SELECT * FROM research_jobs WHERE job_id = ?', [jobId]);
+    return row ? this.rowToJob(row) : undefined;
+  }
+
+  async listJobsByStatus(statuses: ResearchJobStatus[]): Promise<ResearchJob[]> {
+    if (statuses.length === 0) {
+      return [];
+    }
+
+    const placeholders = statuses.map(() => '?').join(', ');
+    const rows = await this.all<ResearchJobRow>(
+      `SELECT * FROM research_jobs WHERE status IN (${placeholders}) ORDER BY created_at`,
+      statuses
+    );
+    return rows.map(row => this.rowToJob(row));
+  }
+
+  async close(): Promise<void> {
+    const db = this.db;
+    if (!db) {
+      return;
+    }
+
+    this.db = undefined;
+    await new Promise<void>((resolve, reject) => {
+      db.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Convert a database row back into a job
+   */
+  private rowToJob(row: ResearchJobRow): ResearchJob {
+    const job: ResearchJob = {
+      job_id: row.job_id,
+      client_id: row.client_id,
+      request: JSON.parse(row.request_json),
+      model_used: row.model_used,
+      status: row.status,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+
+    if (row.openai_response_id) job.openai_response_id = row.openai_response_id;
+    if (row.result_json) job.result = JSON.parse(row.result_json);
+    if (row.cost_usd !== null) job.cost_usd = row.cost_usd;
+    if (row.error) job.error = row.error;
+    if (row.accuracy_downgrade_json) job.accuracy_downgrade = JSON.parse(row.accuracy_downgrade_json);
+    if (row.completed_at) job.completed_at = row.completed_at;
+
+    return job;
+  }
+
+  private getDatabase(): sqlite3.Database {
+    if (!this.db) {
+      throw new Error('SQLite job store is not initialized');
+    }
+    return this.db;
+  }
+
+  /**
+   * Run a statement, resolving to the number of rows it changed
+   */
+  private run(sql: string, params: unknown[] = []): Promise<number> {
+    const db = this.getDatabase();
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, function (this: sqlite3.RunResult, error: Error | null) {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(this.changes);
+        }
+      });
+    });
+  }
+
+  private get<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+    const db = this.getDatabase();
+    return new Promise((resolve, reject) => {
+      db.get(sql, params, (error, row) => (error ? reject(error) : resolve(row as T | undefined)));
+    });
+  }
+
+  private all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    const db = this.getDatabase();
+    return new Promise((resolve, reject) => {
+      db.all(sql, params, (error, rows) => (error ? reject(error) : resolve(rows as T[])));
+    });
+  }
+}
+
+/**
+ * Create the job store for the configured path ('memory' keeps jobs in process only)
+ */
+export function createJobStore(storePath: string, logger: Logger): ResearchJobStore {
+  if (!storePath || storePath === 'memory') {
+    return new InMemoryJobStore();
+  }
+  return new SQLiteJobStore(storePath, logger);
+}
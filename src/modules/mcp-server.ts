@@ -8,21 +8,84 @@
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ElicitResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
 import dotenv from 'dotenv';
 import type {
+  AccuracyDowngrade,
   DoDeepResearchRequest,
+  DoDeepResearchResponse,
+  ExhaustedBudget,
   MCPToolResponse,
   Logger,
-  OpenAIClientConfig
+  OpenAIClientConfig,
+  PricingTable,
+  RateLimitResult,
+  ResearchError,
+  ResearchJob,
+  ResearchJobLookupRequest,
+  UsageReportRequest
 } from '@/types';
-import { createContextLogger } from './logger.js';
+import { ResearchJobLookupSchema, UsageReportSchema, MODEL_CONFIGS } from '../types/index.js';
+import { createContextLogger, logCost } from './logger.js';
 import { DoDeepResearchSchema, ResearchRequestValidator } from './validation.js';
 import { OpenAIDeepResearchClient } from './openai-client.js';
-import { getConfig } from './config.js';
+import { ResearchJobManager, createJobId, isTerminalStatus } from './research-jobs.js';
+import type { WaitForCompletionOptions } from './research-jobs.js';
+import { createJobStore } from './job-store.js';
+import { PromptTemplateRegistry } from './prompt-templates.js';
+import { ResearchRateLimiter } from './rate-limiter.js';
+import type { RemainingQuota } from './rate-limiter.js';
+import { createUsageStore } from './usage-store.js';
+import type { UsageStore } from './usage-store.js';
+import { DEFAULT_PRICING_TABLE, estimateResearchCost, loadPricingTable } from './pricing.js';
+import { ResearchProgressReporter } from './progress-reporter.js';
+import { createLedgerEntry, createSpendLedger } from './spend-ledger.js';
+import type { SpendLedger } from './spend-ledger.js';
+import { generateUsageReport } from './usage-report.js';
+import { createBudgetAlertMonitor, createWebhookAlertListener } from './budget-alerts.js';
+import type { BudgetAlertMonitor } from './budget-alerts.js';
+import { buildCostApprovalRequest, requestCostApproval } from './cost-approval.js';
+import { getConfig, getRateLimitConfig } from './config.js';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * Request context the SDK passes to tool handlers
+ */
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Limits a high accuracy request can get past by running at medium accuracy
+ */
+const DOWNGRADE_REASONS: Array<RateLimitResult['reason']> = ['hourly_limit', 'daily_limit', 'token_limit', 'cost_limit'];
+
+/**
+ * Cost savings tip for high accuracy requests that cost too much
+ */
+const MEDIUM_ACCURACY_TIP = 'Medium accuracy (o4-mini-deep-research) costs roughly a third of high accuracy and may fit in the remaining budget';
+
+/**
+ * Outcome of reserving budget for a research request
+ */
+interface ResearchReservation {
+  request: DoDeepResearchRequest;     // The request as it will run (medium accuracy after a downgrade)
+  rateLimit: RateLimitResult;
+  estimatedCost: number;
+  estimatedTokens: number;
+  accuracyDowngrade?: AccuracyDowngrade;
+}
+
+/**
+ * An MCP connection the tools are registered on and the client it belongs to
+ */
+interface ToolSession {
+  server: McpServer;
+  clientId: string;
+}
+
 /**
  * OpenAI Deep Research MCP Server
  * Implements the Model Context Protocol for deep research operations using OpenAI's APIs
@@ -32,12 +95,16 @@ export class OpenAIDeepResearchMCPServer {
   private logger: Logger;
   private openaiClient!: OpenAIDeepResearchClient;
   private validator!: ResearchRequestValidator;
+  private jobManager!: ResearchJobManager;
+  private templates!: PromptTemplateRegistry;
+  private rateLimiter!: ResearchRateLimiter;
+  private ledger!: SpendLedger;
+  private budgetAlerts: BudgetAlertMonitor | undefined;
+  private pricing: PricingTable = DEFAULT_PRICING_TABLE;
+  private sessions = new Set<ToolSession>();
 
   constructor() {
-    this.server = new McpServer({
-      name: 'openai-deep-research-mcp-server',
-      version: '1.0.0',
-    });
+    this.server = this.createMcpServer();
     this.logger = createContextLogger({ component: 'MCPServer' });
   }
 
@@ -48,19 +115,34 @@ export class OpenAIDeepResearchMCPServer {
     this.logger.info('=== INITIALIZING OpenAI Deep Research MCP Server ===');
     
     try {
-      // Step 1: Initialize request validator
-      this.logger.info('Step 1: Initializing request validator');
-      this.validator = new ResearchRequestValidator(this.logger);
+      // Step 1: Load prompt templates
+      this.logger.info('Step 1: Loading prompt templates');
+      await this.initializeTemplates();
+      this.logger.info('✅ Prompt templates loaded successfully');
+
+      // Step 2: Initialize request validator
+      this.logger.info('Step 2: Initializing request validator');
+      this.validator = new ResearchRequestValidator(this.logger, this.templates);
       this.logger.info('✅ Request validator initialized successfully');
 
-      // Step 2: Initialize OpenAI client
-      this.logger.info('Step 2: Initializing OpenAI client');
+      // Step 3: Initialize per-client rate limiter
+      this.logger.info('Step 3: Initializing rate limiter');
+      await this.initializeRateLimiter();
+      this.logger.info('✅ Rate limiter initialized successfully');
+
+      // Step 4: Initialize OpenAI client
+      this.logger.info('Step 4: Initializing OpenAI client');
       await this.initializeOpenAI();
       this.logger.info('✅ OpenAI client initialized successfully');
 
-      // Step 3: Setup MCP tools
-      this.logger.info('Step 3: Setting up MCP tools');
-      this.setupTools();
+      // Step 5: Initialize job store and re-attach to running jobs
+      this.logger.info('Step 5: Initializing research job manager');
+      await this.initializeJobs();
+      this.logger.info('✅ Research job manager initialized successfully');
+
+      // Step 6: Setup MCP tools
+      this.logger.info('Step 6: Setting up MCP tools');
+      this.setupTools(this.server, this.getClientId());
       this.logger.info('✅ MCP tools setup completed');
 
       this.logger.info('=== MCP SERVER INITIALIZATION COMPLETED SUCCESSFULLY ===');
@@ -82,6 +164,26 @@ export class OpenAIDeepResearchMCPServer {
     return this.server;
   }
 
+  /**
+   * Create another MCP server with the same tools, for one session of a multi-client
+   * transport; its tool calls run as the given client. Call after initialize()
+   */
+  createSessionServer(clientId: string): McpServer {
+    const server = this.createMcpServer();
+    this.setupTools(server, clientId);
+    return server;
+  }
+
+  private createMcpServer(): McpServer {
+    return new McpServer({
+      name: 'openai-deep-research-mcp-server',
+      version: '1.0.0',
+    }, {
+      // Budget alerts are sent to connected clients as logging notifications
+      capabilities: { logging: {} }
+    });
+  }
+
   private async initializeOpenAI(): Promise<void> {
     const config: OpenAIClientConfig = {
       apiKey: process.env.OPENAI_API_KEY!,
@@ -97,14 +199,20 @@ export class OpenAIDeepResearchMCPServer {
       config.projectId = process.env.OPENAI_PROJECT_ID;
     }
 
+    // Billed costs and pre-run estimates use the same pricing table
+    const { pricing } = getConfig();
+    if (pricing.tablePath) {
+      this.pricing = await loadPricingTable(pricing.tablePath, this.logger.child({ component: 'Pricing' }));
+    }
+
     // Check if API key is configured
     if (!config.apiKey || config.apiKey.startsWith('sk-test-mock')) {
       this.logger.warn('Using mock/test OpenAI API key - validation skipped');
-      this.openaiClient = new OpenAIDeepResearchClient(config, this.logger);
+      this.openaiClient = new OpenAIDeepResearchClient(config, this.logger, this.templates, this.pricing);
       return;
     }
 
-    this.openaiClient = new OpenAIDeepResearchClient(config, this.logger);
+    this.openaiClient = new OpenAIDeepResearchClient(config, this.logger, this.templates, this.pricing);
     
     // Only validate connection with real API keys
     try {
@@ -115,29 +223,193 @@ export class OpenAIDeepResearchMCPServer {
     }
   }
 
+  private async initializeTemplates(): Promise<void> {
+    const { prompts } = getConfig();
+    this.templates = new PromptTemplateRegistry(this.logger.child({ component: 'PromptTemplates' }));
+
+    await this.templates.loadFromDirectory(prompts.templatesDir);
+    if (prompts.systemInstructionsPath) {
+      await this.templates.loadSystemInstructions(prompts.systemInstructionsPath);
+    }
+  }
+
+  private async initializeRateLimiter(): Promise<void> {
+    const config = getConfig();
+    const limiterLogger = this.logger.child({ component: 'RateLimiter' });
+
+    // Counters live in the configured store so caps hold across restarts and processes
+    const store = createUsageStore(config, limiterLogger);
+    await store.initialize();
+
+    this.rateLimiter = new ResearchRateLimiter(getRateLimitConfig(config), limiterLogger, store);
+    this.logger.info('Usage store ready', { usage_store: config.usage.store });
+
+    if (config.alerts.enabled) {
+      this.initializeBudgetAlerts(store);
+    }
+  }
+
   /**
-   * Setup MCP tools
+   * Send budget alerts to the log, the webhook (when configured) and connected clients
    */
-  private setupTools(): void {
+  private initializeBudgetAlerts(store: UsageStore): void {
+    const config = getConfig();
+    const alertLogger = this.logger.child({ component: 'BudgetAlerts' });
+    this.budgetAlerts = createBudgetAlertMonitor(config, this.rateLimiter, store, alertLogger);
+
+    this.budgetAlerts.onAlert(alert => {
+      logCost('budget_alert', alert.spent_usd, { ...alert });
+    });
+    if (config.alerts.webhookUrl) {
+      this.budgetAlerts.onAlert(createWebhookAlertListener(config.alerts.webhookUrl, alertLogger));
+    }
+    // Client alerts go to that client's sessions, project and global alerts to every session
+    this.budgetAlerts.onAlert(async alert => {
+      for (const session of this.sessions) {
+        if (!session.server.isConnected() || (alert.client_id && alert.client_id !== session.clientId)) {
+          continue;
+        }
+        await session.server.server.sendLoggingMessage({
+          level: alert.threshold >= 1 ? 'error' : 'warning',
+          logger: 'budget-alerts',
+          data: alert
+        });
+      }
+    });
+
+    this.logger.info('Budget alerts enabled', {
+      thresholds: config.alerts.thresholds,
+      webhook: !!config.alerts.webhookUrl
+    });
+  }
+
+  private async initializeJobs(): Promise<void> {
+    const { jobs, ledger } = getConfig();
+    const jobLogger = this.logger.child({ component: 'ResearchJobs' });
+
+    const store = createJobStore(jobs.storePath, jobLogger);
+    await store.initialize();
+
+    this.ledger = createSpendLedger(ledger.storePath, this.logger.child({ component: 'SpendLedger' }));
+    await this.ledger.initialize();
+
+    this.jobManager = new ResearchJobManager(this.openaiClient, store, jobLogger);
+
+    // Every finished job (including ones resumed after a restart) settles its budget reservation
+    // with the actual cost; failed and cancelled runs are charged whatever they cost. The budgets
+    // of the day the cost was charged to are then checked against the alert thresholds
+    this.jobManager.onJobFinished(async (job, usage) => {
+      const projectId = this.getProjectId(job.request);
+      const chargedDay = await this.rateLimiter.settleReservation(
+        job.client_id,
+        job.request.accuracy_level,
+        job.job_id,
+        job.cost_usd ?? 0,
+        usage?.total_tokens ?? job.result?.token_usage.total_tokens ?? 0,
+        projectId
+      );
+      if (chargedDay) {
+        await this.budgetAlerts?.checkBudgets(job.client_id, projectId, chargedDay);
+      }
+    });
+
+    // ...and is written to the spend ledger for usage reports
+    this.jobManager.onJobFinished(async (job, usage, costInfo) => {
+      await this.ledger.record(createLedgerEntry(job, usage, costInfo));
+    });
+
+    const resumed = await this.jobManager.resumeActiveJobs(jobs.pollIntervalSeconds);
+
+    this.logger.info('Research jobs restored', {
+      store_path: jobs.storePath,
+      resumed_jobs: resumed
+    });
+  }
+
+  /**
+   * Setup MCP tools on a server whose tool calls run as the given client
+   */
+  private setupTools(server: McpServer, clientId: string): void {
+    const session: ToolSession = { server, clientId };
+    this.sessions.add(session);
+    server.server.onclose = () => {
+      this.sessions.delete(session);
+    };
+
     // Register do_deep_research tool
-    this.server.registerTool('do_deep_research', {
-      description: 'Perform deep research using OpenAI\'s specialized research models. Supports high accuracy (o3-deep-research) and medium accuracy (o4-mini-deep-research) research.',
+    server.registerTool('do_deep_research', {
+      description: 'Perform deep research using OpenAI\'s specialized research models. Supports high accuracy (o3-deep-research) and medium accuracy (o4-mini-deep-research) research. Set background to true to get a job_id back immediately instead of waiting for the result.',
       inputSchema: DoDeepResearchSchema.shape,
+    }, async (request, extra) => {
+      return this.handleDeepResearchRequest(request as DoDeepResearchRequest, session, extra);
+    });
+
+    // Register background job tools
+    server.registerTool('start_deep_research', {
+      description: 'Start a deep research run in the background and return a job_id immediately. Use get_research_status to poll and get_research_result to fetch the report.',
+      inputSchema: DoDeepResearchSchema.shape,
+    }, async (request, extra) => {
+      return this.handleDeepResearchRequest({ ...(request as DoDeepResearchRequest), background: true }, session, extra);
+    });
+
+    server.registerTool('estimate_research_cost', {
+      description: 'Estimate the tokens, cost and duration of a deep research request at high and medium accuracy without running it. Validates the request and returns the rendered prompt and whether each accuracy level fits the remaining limits and budget. Same as do_deep_research with dry_run set to true.',
+      inputSchema: DoDeepResearchSchema.shape,
+    }, async (request, extra) => {
+      return this.handleDeepResearchRequest({ ...(request as DoDeepResearchRequest), dry_run: true }, session, extra);
+    });
+
+    server.registerTool('get_research_status', {
+      description: 'Get the current status of a background deep research job.',
+      inputSchema: ResearchJobLookupSchema.shape,
+    }, async (request) => {
+      return this.handleResearchStatusRequest(request as ResearchJobLookupRequest, clientId);
+    });
+
+    server.registerTool('get_research_result', {
+      description: 'Get the research report of a completed background deep research job.',
+      inputSchema: ResearchJobLookupSchema.shape,
     }, async (request) => {
-      return this.handleDeepResearchRequest(request as DoDeepResearchRequest);
+      return this.handleResearchResultRequest(request as ResearchJobLookupRequest, clientId);
+    });
+
+    server.registerTool('cancel_research', {
+      description: 'Cancel a running background deep research job.',
+      inputSchema: ResearchJobLookupSchema.shape,
+    }, async (request) => {
+      return this.handleCancelResearchRequest(request as ResearchJobLookupRequest, clientId);
+    });
+
+    server.registerTool('get_usage_report', {
+      description: 'Report research usage and spend from the ledger of finished runs: totals, cost by day, error rate, peak hours and breakdowns by day, client, model and template. Defaults to the last 30 days.',
+      inputSchema: UsageReportSchema.shape,
+    }, async (request) => {
+      return this.handleUsageReportRequest(request as UsageReportRequest);
+    });
+
+    server.registerTool('list_research_templates', {
+      description: 'List the prompt templates that can be passed as the template parameter of do_deep_research, with their variables.',
+      inputSchema: {},
+    }, async () => {
+      return this.handleListTemplatesRequest();
     });
 
     this.logger.info('MCP tools registered successfully', {
-      tools: ['do_deep_research']
+      tools: ['do_deep_research', 'start_deep_research', 'estimate_research_cost', 'get_research_status', 'get_research_result', 'cancel_research', 'get_usage_report', 'list_research_templates']
     });
   }
 
   /**
    * Handle deep research requests
    */
-  private async handleDeepResearchRequest(request: DoDeepResearchRequest): Promise<MCPToolResponse> {
+  private async handleDeepResearchRequest(
+    request: DoDeepResearchRequest,
+    session: ToolSession,
+    extra?: ToolExtra
+  ): Promise<MCPToolResponse> {
     const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const clientId = this.getClientId(); // Extract from context or generate
+    const clientId = session.clientId;
+    const progress = this.createProgressReporter(request, extra);
 
     this.logger.info('Processing deep research request', {
       request_id: requestId,
@@ -156,24 +428,9 @@ export class OpenAIDeepResearchMCPServer {
           errors: validationResult.errors
         });
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: false,
-                error: errorMessage,
-                error_type: 'validation_error',
-                request_id: requestId
-              }, null, 2)
-            }
-          ],
-          _meta: {
-            request_id: requestId,
-            timestamp: new Date().toISOString(),
-            validation_errors: validationResult.errors
-          }
-        };
+        return this.createErrorResponse(requestId, errorMessage, 'validation_error', {
+          validation_errors: validationResult.errors
+        });
       }
 
       const validatedRequest = validationResult.data!;
@@ -188,28 +445,103 @@ export class OpenAIDeepResearchMCPServer {
         });
       }
 
-      // Step 3: Perform the research
-      const researchRequest = {
+      let researchRequest: DoDeepResearchRequest = {
         ...validatedRequest,
         research_query: sanitizedQuery
       };
 
-      this.logger.info('Processing deep research request', {
-        request_id: requestId,
-        client_id: clientId,
-        accuracy_level: validatedRequest.accuracy_level,
-        query_length: validatedRequest.research_query.length
-      });
+      // A dry run stops here: nothing is reserved and OpenAI is not called
+      if (researchRequest.dry_run) {
+        return this.createCostEstimateResponse(requestId, clientId, researchRequest);
+      }
+
+      // Step 3: Ask the user to approve runs estimated above the approval threshold
+      const approvalRejection = await this.requireCostApproval(requestId, session, researchRequest, extra);
+      if (approvalRejection) {
+        return approvalRejection;
+      }
+
+      // Step 4: Enforce the rate limits and the client, project and global budgets,
+      // reserving the estimated cost under the job id
+      const jobId = createJobId();
+      const projectId = this.getProjectId(researchRequest);
+      const reservation = await this.reserveResearchBudget(researchRequest, clientId, jobId);
+      const { rateLimit, accuracyDowngrade } = reservation;
+      if (!rateLimit.allowed) {
+        return this.createRateLimitResponse(
+          requestId,
+          clientId,
+          reservation.request,
+          rateLimit,
+          reservation.estimatedCost,
+          reservation.estimatedTokens
+        );
+      }
+      researchRequest = reservation.request;
 
+      // Step 5: Perform the research
+      if (researchRequest.background) {
+        return this.startBackgroundResearch(researchRequest, requestId, clientId, jobId, rateLimit, accuracyDowngrade);
+      }
+
+      // Run as a persisted background job so the run survives a server restart,
+      // then wait for it here up to the request timeout
       const startTime = Date.now();
-      const researchResult = await this.openaiClient.performDeepResearch(researchRequest);
+      progress?.report({ phase: 'queued', message: 'Submitting research request to OpenAI' });
+      const startedJob = await this.startReservedJob(researchRequest, clientId, jobId, extra?.signal, accuracyDowngrade);
+      progress?.report({ phase: 'submitted', message: `Research submitted to ${startedJob.model_used}` });
+
+      // Cancelling the tool call (notifications/cancelled) aborts the signal, which cancels the job on OpenAI
+      const waitOptions: WaitForCompletionOptions = { timeoutMs: getConfig().openai.timeout };
+      if (progress) waitOptions.onProgress = progress.listener;
+      if (extra?.signal) waitOptions.signal = extra.signal;
+
+      const job = await this.jobManager.waitForCompletion(startedJob.job_id, clientId, waitOptions);
       const executionTime = (Date.now() - startTime) / 1000;
 
-      // Step 6: Log completion (skip cost alerts for simplicity)
+      if (job?.status === 'cancelled') {
+        this.logger.info('Research request cancelled by client', {
+          request_id: requestId,
+          job_id: job.job_id,
+          partial_cost_usd: job.cost_usd
+        });
+
+        return this.createErrorResponse(requestId, 'Research was cancelled by the client', 'cancelled', {
+          job_id: job.job_id,
+          status: job.status,
+          partial_cost_usd: job.cost_usd
+        });
+      }
+
+      if (job?.status === 'completed') {
+        progress?.report({ phase: 'completed', message: 'Research completed' });
+      }
+
+      if (!job || !isTerminalStatus(job.status)) {
+        return this.createErrorResponse(
+          requestId,
+          `Research is still running after ${Math.round(executionTime)} seconds. It continues in the background: poll get_research_status with job_id ${startedJob.job_id} and fetch the report with get_research_result.`,
+          'timeout',
+          { job_id: startedJob.job_id, status: job?.status || startedJob.status }
+        );
+      }
+
+      if (job.status !== 'completed' || !job.result) {
+        return this.createErrorResponse(
+          requestId,
+          job.error || `Research ended with status ${job.status}`,
+          `job_${job.status}`,
+          { job_id: job.job_id, status: job.status }
+        );
+      }
+
+      const researchResult = job.result;
+
+      // Step 6: Log completion (budget alerts fire when the finished job is settled)
       this.logger.info('Research request completed successfully', {
         client_id: clientId,
         cost_used: researchResult.cost_info.estimated_cost_usd,
-        accuracy_level: validatedRequest.accuracy_level
+        accuracy_level: researchRequest.accuracy_level
       });
 
       // Step 7: Format and return the response
@@ -222,37 +554,8 @@ export class OpenAIDeepResearchMCPServer {
         research_confidence: researchResult.research_confidence
       });
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              success: true,
-              research_results: researchResult.research_results,
-              executive_summary: researchResult.executive_summary,
-              model_used: researchResult.model_used,
-              execution_time_seconds: executionTime,
-              sources_found: researchResult.sources_found,
-              research_confidence: researchResult.research_confidence,
-              coverage_completeness: researchResult.coverage_completeness,
-              recency_score: researchResult.recency_score,
-              related_topics: researchResult.related_topics,
-              limitations: researchResult.limitations,
-              token_usage: researchResult.token_usage,
-              cost_info: researchResult.cost_info,
-              request_id: requestId,
-              rate_limit_remaining: 100, // Rate limiting removed
-              timestamp: researchResult.timestamp
-            }, null, 2)
-          }
-        ],
-        _meta: {
-          request_id: requestId,
-          model_used: researchResult.model_used,
-          execution_time_seconds: executionTime,
-          cost_info: researchResult.cost_info
-        }
-      };
+      const quota = await this.rateLimiter.getRemainingQuota(clientId, researchRequest.accuracy_level, projectId);
+      return this.formatResearchResponse(researchResult, requestId, executionTime, job.job_id, quota, job.accuracy_downgrade);
 
     } catch (error) {
       this.logger.error('Research request failed', {
@@ -261,50 +564,705 @@ export class OpenAIDeepResearchMCPServer {
         stack: error instanceof Error ? error.stack : undefined
       });
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              success: false,
-              error: error instanceof Error ? error.message : 'An unexpected error occurred',
-              error_type: 'internal_error',
-              request_id: requestId,
-              timestamp: new Date().toISOString()
-            }, null, 2)
-          }
-        ],
-        _meta: {
-          request_id: requestId,
-          timestamp: new Date().toISOString(),
-          error: true
-        }
+      return this.createErrorResponse(
+        requestId,
+        error instanceof Error ? error.message : 'An unexpected error occurred',
+        'internal_error'
+      );
+    }
+  }
+
+  /**
+   * Create a progress reporter when the client asked for progress notifications
+   */
+  private createProgressReporter(request: DoDeepResearchRequest, extra?: ToolExtra): ResearchProgressReporter | undefined {
+    const progressToken = extra?._meta?.progressToken;
+    if (progressToken === undefined || !extra || request.background) {
+      return undefined;
+    }
+
+    return new ResearchProgressReporter(
+      progressToken,
+      extra.sendNotification,
+      request.accuracy_level,
+      this.logger.child({ component: 'Progress' })
+    );
+  }
+
+  /**
+   * Ask the user, through MCP elicitation, to approve a run estimated above APPROVAL_THRESHOLD_USD
+   * Returns the error response for a run that was not approved
+   */
+  private async requireCostApproval(
+    requestId: string,
+    session: ToolSession,
+    request: DoDeepResearchRequest,
+    extra?: ToolExtra
+  ): Promise<MCPToolResponse | undefined> {
+    const { clientId } = session;
+    const { approvalThresholdUsd, approvalTimeoutSeconds } = getConfig().costControls;
+    if (approvalThresholdUsd === undefined) {
+      return undefined;
+    }
+
+    const estimate = this.openaiClient.estimateRequestCost(request);
+    if (estimate.estimated_cost_usd <= approvalThresholdUsd) {
+      return undefined;
+    }
+
+    const details = {
+      reason: 'approval_required',
+      model: estimate.model,
+      accuracy_level: estimate.accuracy_level,
+      estimated_cost_usd: estimate.estimated_cost_usd,
+      approval_threshold_usd: approvalThresholdUsd
+    };
+
+    if (!extra || !session.server.server.getClientCapabilities()?.elicitation) {
+      const error: ResearchError = {
+        type: 'cost_limit',
+        message: `This request is estimated at $${estimate.estimated_cost_usd.toFixed(2)}, above the $${approvalThresholdUsd.toFixed(2)} approval threshold, and this client does not support MCP elicitation to ask the user for approval`,
+        suggestion: 'Use a client that supports MCP elicitation, reduce the estimated cost below the threshold (check it with estimate_research_cost), or ask the server operator to raise APPROVAL_THRESHOLD_USD'
       };
+      if (request.accuracy_level === 'high') {
+        error.costSavingsTip = MEDIUM_ACCURACY_TIP;
+      }
+
+      this.logger.warn('Expensive research request rejected: client cannot approve it', {
+        request_id: requestId,
+        client_id: clientId,
+        ...details
+      });
+
+      return this.createErrorResponse(requestId, error.message, error.type, {
+        ...details,
+        suggestion: error.suggestion,
+        cost_savings_tip: error.costSavingsTip
+      });
+    }
+
+    const outcome = await requestCostApproval(
+      (params, options) => extra.sendRequest({ method: 'elicitation/create', params }, ElicitResultSchema, options),
+      buildCostApprovalRequest(request, estimate, approvalThresholdUsd, this.openaiClient.renderPrompt(request).scope.applied),
+      this.logger.child({ component: 'CostApproval' }),
+      { signal: extra.signal, timeout: approvalTimeoutSeconds * 1000 }
+    );
+
+    this.logger.info('Cost approval answered', {
+      request_id: requestId,
+      client_id: clientId,
+      outcome,
+      ...details
+    });
+
+    if (outcome === 'approved') {
+      return undefined;
     }
+
+    return this.createErrorResponse(
+      requestId,
+      outcome === 'timed_out'
+        ? `Research was not started: nobody approved the estimated $${estimate.estimated_cost_usd.toFixed(2)} cost within ${approvalTimeoutSeconds} seconds`
+        : `Research was not started: the user did not approve the estimated $${estimate.estimated_cost_usd.toFixed(2)} cost`,
+      'approval_declined',
+      { ...details, approval_outcome: outcome }
+    );
   }
 
   /**
-   * Estimate the cost of a research request
+   * Reserve the estimated cost of a request under its job id. With AUTO_DOWNGRADE_ACCURACY, a high
+   * accuracy request that does not fit the limits is reserved and run at medium accuracy instead.
    */
-  private estimateRequestCost(request: DoDeepResearchRequest): number {
-    // Base cost estimates (these would be updated based on actual OpenAI pricing)
-    const baseCosts = {
-      high: 2.50,    // o3-deep-research estimated cost
-      medium: 0.85   // o4-mini-deep-research estimated cost
+  private async reserveResearchBudget(
+    request: DoDeepResearchRequest,
+    clientId: string,
+    jobId: string
+  ): Promise<ResearchReservation> {
+    const projectId = this.getProjectId(request);
+    const reserve = async (candidate: DoDeepResearchRequest): Promise<ResearchReservation> => {
+      const estimate = estimateResearchCost(this.pricing, candidate);
+      const estimatedCost = estimate.cost_info.estimated_cost_usd;
+      const estimatedTokens = estimate.estimated_total_tokens;
+      const rateLimit = await this.rateLimiter.reserveBudget(
+        clientId,
+        candidate.accuracy_level,
+        estimatedCost,
+        estimatedTokens,
+        jobId,
+        projectId
+      );
+      return { request: candidate, rateLimit, estimatedCost, estimatedTokens };
     };
 
-    const baseTokens = request.max_tokens || 4000;
-    const tokenMultiplier = baseTokens / 4000; // Normalize to 4k tokens
-    
-    return baseCosts[request.accuracy_level] * tokenMultiplier;
+    const reservation = await reserve(request);
+    const { rateLimit } = reservation;
+    if (
+      rateLimit.allowed
+      || !rateLimit.reason
+      || !DOWNGRADE_REASONS.includes(rateLimit.reason)
+      || request.accuracy_level !== 'high'
+      || !getConfig().costControls.autoDowngrade
+    ) {
+      return reservation;
+    }
+
+    const downgraded = await reserve({ ...request, accuracy_level: 'medium' });
+    if (!downgraded.rateLimit.allowed) {
+      return downgraded;
+    }
+
+    const error = this.createRateLimitError(request, rateLimit, reservation.estimatedCost, reservation.estimatedTokens);
+    const accuracyDowngrade: AccuracyDowngrade = {
+      requested_accuracy_level: 'high',
+      accuracy_level: 'medium',
+      reason: rateLimit.reason,
+      message: `Accuracy level changed from high to medium (${this.openaiClient.getModelForAccuracy('medium')}) instead of rejecting the request. ${error.message}`,
+      cost_savings_tip: `Medium accuracy is estimated at $${downgraded.estimatedCost.toFixed(2)} instead of $${reservation.estimatedCost.toFixed(2)} for high accuracy`
+    };
+    if (rateLimit.budget) {
+      accuracyDowngrade.exhausted_budget = rateLimit.budget;
+    }
+
+    this.logger.warn('High accuracy request downgraded to medium accuracy', {
+      job_id: jobId,
+      client_id: clientId,
+      reason: rateLimit.reason,
+      budget: rateLimit.budget,
+      estimated_cost_usd: downgraded.estimatedCost
+    });
+
+    return { ...downgraded, accuracyDowngrade };
+  }
+
+  /**
+   * Start a job whose budget is reserved under its id, releasing the reservation if submission fails
+   */
+  private async startReservedJob(
+    request: DoDeepResearchRequest,
+    clientId: string,
+    jobId: string,
+    signal?: AbortSignal,
+    accuracyDowngrade?: AccuracyDowngrade
+  ): Promise<ResearchJob> {
+    try {
+      return await this.jobManager.startJob(request, clientId, signal, jobId, accuracyDowngrade);
+    } catch (error) {
+      await this.rateLimiter.releaseReservation(clientId, jobId, this.getProjectId(request));
+      throw error;
+    }
+  }
+
+  /**
+   * Submit a validated request as a background research job
+   */
+  private async startBackgroundResearch(
+    request: DoDeepResearchRequest,
+    requestId: string,
+    clientId: string,
+    jobId: string,
+    rateLimit: RateLimitResult,
+    accuracyDowngrade?: AccuracyDowngrade
+  ): Promise<MCPToolResponse> {
+    const job = await this.startReservedJob(request, clientId, jobId, undefined, accuracyDowngrade);
+
+    return this.createTextResponse({
+      success: true,
+      job_id: job.job_id,
+      status: job.status,
+      model_used: job.model_used,
+      accuracy_downgrade: job.accuracy_downgrade,
+      estimated_time_seconds: MODEL_CONFIGS[job.request.accuracy_level]?.typical_response_time_seconds,
+      next_steps: 'Poll get_research_status with this job_id, then call get_research_result once the status is completed.',
+      rate_limit_remaining: rateLimit.remaining,
+      tokens_remaining: rateLimit.tokensRemaining,
+      cost_remaining_usd: rateLimit.costRemaining,
+      request_id: requestId,
+      timestamp: job.created_at
+    }, {
+      request_id: requestId,
+      job_id: job.job_id
+    });
+  }
+
+  /**
+   * Handle get_research_status requests
+   */
+  private async handleResearchStatusRequest(request: ResearchJobLookupRequest, clientId: string): Promise<MCPToolResponse> {
+    const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    try {
+      const job = await this.jobManager.refreshJob(request.job_id, clientId);
+      if (!job) {
+        return this.createJobNotFoundResponse(requestId, request.job_id);
+      }
+
+      return this.createTextResponse({
+        success: true,
+        ...this.summarizeJob(job),
+        request_id: requestId
+      }, {
+        request_id: requestId,
+        job_id: job.job_id
+      });
+
+    } catch (error) {
+      this.logger.error('Research status request failed', {
+        request_id: requestId,
+        job_id: request.job_id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      return this.createErrorResponse(
+        requestId,
+        error instanceof Error ? error.message : 'An unexpected error occurred',
+        'internal_error'
+      );
+    }
+  }
+
+  /**
+   * Handle get_research_result requests
+   */
+  private async handleResearchResultRequest(request: ResearchJobLookupRequest, clientId: string): Promise<MCPToolResponse> {
+    const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    try {
+      const job = await this.jobManager.refreshJob(request.job_id, clientId);
+      if (!job) {
+        return this.createJobNotFoundResponse(requestId, request.job_id);
+      }
+
+      if (job.status === 'completed' && job.result) {
+        const quota = await this.rateLimiter.getRemainingQuota(
+          job.client_id,
+          job.request.accuracy_level,
+          this.getProjectId(job.request)
+        );
+        return this.formatResearchResponse(
+          job.result,
+          requestId,
+          job.result.execution_time_seconds,
+          job.job_id,
+          quota,
+          job.accuracy_downgrade
+        );
+      }
+
+      if (job.status === 'queued' || job.status === 'in_progress') {
+        return this.createErrorResponse(
+          requestId,
+          `Research job ${job.job_id} is still ${job.status}. Poll get_research_status and retry once it has completed.`,
+          'job_not_ready',
+          { job_id: job.job_id, status: job.status }
+        );
+      }
+
+      return this.createErrorResponse(
+        requestId,
+        job.error || `Research job ${job.job_id} ended with status ${job.status}`,
+        `job_${job.status}`,
+        { job_id: job.job_id, status: job.status }
+      );
+
+    } catch (error) {
+      this.logger.error('Research result request failed', {
+        request_id: requestId,
+        job_id: request.job_id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      return this.createErrorResponse(
+        requestId,
+        error instanceof Error ? error.message : 'An unexpected error occurred',
+        'internal_error'
+      );
+    }
   }
 
   /**
-   * Get or generate client ID (in real implementation, this would extract from MCP context)
+   * Handle cancel_research requests
    */
-  private getClientId(): string {
-    // In a real implementation, this would extract the client ID from the MCP context
-    // For now, we'll use a default client ID
+  private async handleCancelResearchRequest(request: ResearchJobLookupRequest, clientId: string): Promise<MCPToolResponse> {
+    const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    try {
+      const job = await this.jobManager.cancelJob(request.job_id, clientId);
+      if (!job) {
+        return this.createJobNotFoundResponse(requestId, request.job_id);
+      }
+
+      return this.createTextResponse({
+        success: job.status === 'cancelled',
+        ...this.summarizeJob(job),
+        request_id: requestId
+      }, {
+        request_id: requestId,
+        job_id: job.job_id
+      });
+
+    } catch (error) {
+      this.logger.error('Research cancel request failed', {
+        request_id: requestId,
+        job_id: request.job_id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      return this.createErrorResponse(
+        requestId,
+        error instanceof Error ? error.message : 'An unexpected error occurred',
+        'internal_error'
+      );
+    }
+  }
+
+  /**
+   * Handle usage report requests
+   */
+  private async handleUsageReportRequest(request: UsageReportRequest): Promise<MCPToolResponse> {
+    const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    try {
+      const timezone = getConfig().rateLimits.reset_timezone || 'UTC';
+      const report = await generateUsageReport(this.ledger, request, timezone);
+
+      return this.createTextResponse({
+        success: true,
+        report,
+        request_id: requestId
+      }, {
+        request_id: requestId,
+        period: report.period,
+        total_requests: report.total_requests
+      });
+    } catch (error) {
+      this.logger.error('Usage report failed', {
+        request_id: requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      return this.createErrorResponse(
+        requestId,
+        error instanceof Error ? error.message : 'Failed to build the usage report',
+        'usage_report_error'
+      );
+    }
+  }
+
+  /**
+   * Handle prompt template listing requests
+   */
+  private async handleListTemplatesRequest(): Promise<MCPToolResponse> {
+    const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const templates = this.templates.list().map(template => ({
+      name: template.name,
+      description: template.description,
+      variables: template.variables
+    }));
+
+    return this.createTextResponse({
+      success: true,
+      templates,
+      request_id: requestId
+    }, {
+      request_id: requestId,
+      template_count: templates.length
+    });
+  }
+
+  /**
+   * Build a dry-run response: the rendered prompt and, for each accuracy level, the
+   * estimate and whether the client's limits and budget would allow it right now
+   */
+  private async createCostEstimateResponse(
+    requestId: string,
+    clientId: string,
+    request: DoDeepResearchRequest
+  ): Promise<MCPToolResponse> {
+    const prompt = this.openaiClient.renderPrompt(request);
+    const projectId = this.getProjectId(request);
+    const estimates: Record<string, unknown> = {};
+
+    for (const accuracyLevel of ['high', 'medium'] as const) {
+      const estimate = this.openaiClient.estimateRequestCost({ ...request, accuracy_level: accuracyLevel });
+      const rateLimit = await this.rateLimiter.checkRateLimit(
+        clientId,
+        accuracyLevel,
+        estimate.estimated_cost_usd,
+        estimate.estimated_total_tokens,
+        projectId
+      );
+      estimates[accuracyLevel] = {
+        ...estimate,
+        allowed_now: rateLimit.allowed,
+        limit_reason: rateLimit.reason,
+        exhausted_budget: rateLimit.budget
+      };
+    }
+
+    const quota = await this.rateLimiter.getRemainingQuota(clientId, request.accuracy_level, projectId);
+
+    this.logger.info('Research cost estimated (dry run)', {
+      request_id: requestId,
+      client_id: clientId,
+      accuracy_level: request.accuracy_level
+    });
+
+    return this.createTextResponse({
+      success: true,
+      dry_run: true,
+      accuracy_level: request.accuracy_level,
+      project_id: projectId,
+      rendered_prompt: {
+        model: this.openaiClient.getModelForAccuracy(request.accuracy_level),
+        instructions: prompt.instructions,
+        input: prompt.input,
+        scope_applied: prompt.scope.applied
+      },
+      estimates,
+      rate_limit_remaining: quota.remaining,
+      daily_requests_remaining: quota.dailyRemaining,
+      tokens_remaining: quota.tokensRemaining,
+      cost_remaining_usd: quota.costRemaining,
+      request_id: requestId
+    }, {
+      request_id: requestId,
+      dry_run: true
+    });
+  }
+
+  /**
+   * Public view of a job's state (without the full research report)
+   */
+  private summarizeJob(job: ResearchJob): Record<string, unknown> {
+    const endTime = job.completed_at ? new Date(job.completed_at).getTime() : Date.now();
+
+    return {
+      job_id: job.job_id,
+      status: job.status,
+      model_used: job.model_used,
+      accuracy_level: job.request.accuracy_level,
+      accuracy_downgrade: job.accuracy_downgrade,
+      created_at: job.created_at,
+      updated_at: job.updated_at,
+      completed_at: job.completed_at,
+      elapsed_seconds: (endTime - new Date(job.created_at).getTime()) / 1000,
+      estimated_time_seconds: MODEL_CONFIGS[job.request.accuracy_level]?.typical_response_time_seconds,
+      result_available: job.status === 'completed' && !!job.result,
+      cost_usd: job.cost_usd,
+      error: job.error
+    };
+  }
+
+  /**
+   * Format a completed research result as a tool response
+   */
+  private formatResearchResponse(
+    researchResult: DoDeepResearchResponse,
+    requestId: string,
+    executionTime: number,
+    jobId: string,
+    quota: RemainingQuota,
+    accuracyDowngrade?: AccuracyDowngrade
+  ): MCPToolResponse {
+    return this.createTextResponse({
+      success: true,
+      job_id: jobId,
+      // Listed before the report so a changed accuracy level is not missed
+      accuracy_downgrade: accuracyDowngrade,
+      research_results: researchResult.research_results,
+      executive_summary: researchResult.executive_summary,
+      model_used: researchResult.model_used,
+      execution_time_seconds: executionTime,
+      sources_found: researchResult.sources_found,
+      citations: researchResult.citations,
+      source_urls: researchResult.source_urls,
+      scope_applied: researchResult.scope_applied,
+      research_trace: researchResult.research_trace,
+      reasoning_summary: researchResult.reasoning_summary,
+      research_confidence: researchResult.research_confidence,
+      coverage_completeness: researchResult.coverage_completeness,
+      recency_score: researchResult.recency_score,
+      related_topics: researchResult.related_topics,
+      limitations: researchResult.limitations,
+      token_usage: researchResult.token_usage,
+      cost_info: researchResult.cost_info,
+      request_id: requestId,
+      rate_limit_remaining: quota.remaining,
+      tokens_remaining: quota.tokensRemaining,
+      cost_remaining_usd: quota.costRemaining,
+      timestamp: researchResult.timestamp
+    }, {
+      request_id: requestId,
+      job_id: jobId,
+      model_used: researchResult.model_used,
+      execution_time_seconds: executionTime,
+      cost_info: researchResult.cost_info,
+      accuracy_downgraded: !!accuracyDowngrade
+    });
+  }
+
+  /**
+   * Build a tool response for an unknown (or foreign) job id
+   */
+  private createJobNotFoundResponse(requestId: string, jobId: string): MCPToolResponse {
+    return this.createErrorResponse(
+      requestId,
+      `Research job ${jobId} was not found`,
+      'job_not_found',
+      { job_id: jobId }
+    );
+  }
+
+  /**
+   * Build an error tool response (details are included in both the payload and _meta)
+   */
+  private createErrorResponse(
+    requestId: string,
+    message: string,
+    errorType: string,
+    details: Record<string, unknown> = {}
+  ): MCPToolResponse {
+    const timestamp = new Date().toISOString();
+
+    return this.createTextResponse({
+      success: false,
+      error: message,
+      error_type: errorType,
+      request_id: requestId,
+      timestamp,
+      ...details
+    }, {
+      request_id: requestId,
+      timestamp,
+      error: true,
+      ...details
+    });
+  }
+
+  /**
+   * Build a typed rate_limit / cost_limit error for a request the rate limiter rejected
+   */
+  private createRateLimitResponse(
+    requestId: string,
+    clientId: string,
+    request: DoDeepResearchRequest,
+    rateLimit: RateLimitResult,
+    estimatedCost: number,
+    estimatedTokens: number
+  ): MCPToolResponse {
+    const retryAfterSeconds = rateLimit.retryAfter;
+    const error = this.createRateLimitError(request, rateLimit, estimatedCost, estimatedTokens);
+
+    this.logger.warn('Research request rejected by rate limiter', {
+      request_id: requestId,
+      client_id: clientId,
+      reason: rateLimit.reason,
+      budget: rateLimit.budget,
+      retry_after_seconds: retryAfterSeconds,
+      estimated_cost_usd: estimatedCost
+    });
+
+    return this.createErrorResponse(requestId, error.message, error.type, {
+      reason: rateLimit.reason,
+      exhausted_budget: rateLimit.budget,
+      suggestion: error.suggestion,
+      retry_after_seconds: error.retryAfter,
+      retry_at: retryAfterSeconds ? new Date(Date.now() + retryAfterSeconds * 1000).toISOString() : undefined,
+      rate_limit_remaining: rateLimit.remaining ?? 0,
+      daily_requests_remaining: rateLimit.dailyRemaining,
+      tokens_remaining: rateLimit.tokensRemaining,
+      cost_remaining_usd: rateLimit.costRemaining,
+      estimated_tokens: estimatedTokens,
+      estimated_cost_usd: estimatedCost,
+      cost_savings_tip: error.costSavingsTip
+    });
+  }
+
+  /**
+   * Describe why the rate limiter rejected a request
+   */
+  private createRateLimitError(
+    request: DoDeepResearchRequest,
+    rateLimit: RateLimitResult,
+    estimatedCost: number,
+    estimatedTokens: number
+  ): ResearchError {
+    const retryAfterSeconds = rateLimit.retryAfter;
+    const isCostLimit = rateLimit.reason === 'cost_limit';
+
+    const error: ResearchError = {
+      type: isCostLimit ? 'cost_limit' : 'rate_limit',
+      message: isCostLimit && rateLimit.budget
+        ? `${this.describeBudget(rateLimit.budget)} is exhausted: this request is estimated at $${estimatedCost.toFixed(2)} and $${(rateLimit.costRemaining ?? 0).toFixed(2)} of the $${rateLimit.budget.limit_usd.toFixed(2)} budget remains`
+        : this.describeRateLimit(rateLimit, request, estimatedTokens),
+      suggestion: retryAfterSeconds
+        ? `Retry after ${retryAfterSeconds} seconds, when the limit resets`
+        : 'Retry later, when the limit resets'
+    };
+    if (retryAfterSeconds) {
+      error.retryAfter = retryAfterSeconds;
+    }
+    if (isCostLimit && request.accuracy_level === 'high') {
+      error.costSavingsTip = MEDIUM_ACCURACY_TIP;
+    }
+
+    return error;
+  }
+
+  /**
+   * Name a cost budget, e.g. "Monthly budget of project 'marketing'"
+   */
+  private describeBudget(budget: ExhaustedBudget): string {
+    const period = budget.period === 'daily' ? 'Daily' : 'Monthly';
+    return budget.scope === 'global'
+      ? `${period} global budget (all clients)`
+      : `${period} budget of ${budget.scope} '${budget.id}'`;
+  }
+
+  /**
+   * Explain which request or token limit rejected a request
+   */
+  private describeRateLimit(rateLimit: RateLimitResult, request: DoDeepResearchRequest, estimatedTokens: number): string {
+    switch (rateLimit.reason) {
+      case 'hourly_limit':
+        return `Hourly request limit reached for ${request.accuracy_level} accuracy research`;
+      case 'daily_request_limit':
+        return 'Daily request limit reached for all research requests';
+      case 'token_limit':
+        return `Daily token limit reached: this request is estimated at ${estimatedTokens} tokens and ${rateLimit.tokensRemaining ?? 0} tokens of today's budget remain`;
+      case 'limits_unavailable':
+        return 'Usage limits could not be checked, so the request was not run';
+      default:
+        return `Daily request limit reached for ${request.accuracy_level} accuracy research`;
+    }
+  }
+
+  /**
+   * Wrap a JSON payload as a text tool response
+   */
+  private createTextResponse(payload: Record<string, unknown>, meta: Record<string, unknown>): MCPToolResponse {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(payload, null, 2)
+        }
+      ],
+      _meta: meta
+    };
+  }
+
+  /**
+   * Project a request's spend is charged to: its cost center, else the server's OpenAI project
+   */
+  private getProjectId(request: DoDeepResearchRequest): string | undefined {
+    return request.cost_center || getConfig().openai.projectId;
+  }
+
+  /**
+   * Client ID of connections that are not authenticated (stdio, and HTTP without authentication)
+   */
+  getClientId(): string {
     return process.env.DEFAULT_CLIENT_ID || 'default_client';
   }
 
@@ -314,7 +1272,15 @@ export class OpenAIDeepResearchMCPServer {
   async cleanup(): Promise<void> {
     try {
       this.logger.info('Cleaning up server resources');
-      // Rate limiter cleanup removed
+      if (this.rateLimiter) {
+        await this.rateLimiter.cleanup();
+      }
+      if (this.jobManager) {
+        await this.jobManager.stop();
+      }
+      if (this.ledger) {
+        await this.ledger.close();
+      }
       this.logger.info('Server cleanup completed');
     } catch (error) {
       this.logger.error('Error during cleanup', { error });
@@ -5,14 +5,33 @@
 
 import OpenAI from 'openai';
 import dotenv from 'dotenv';
+import type { Response as OpenAIResponse, ResponseOutputItem, ResponseUsage, Tool } from 'openai/resources/responses/responses';
 import type {
   DoDeepResearchRequest,
   DoDeepResearchResponse,
   OpenAIClientConfig,
   ResearchError,
+  CostEstimate,
   CostInfo,
-  Logger
+  Logger,
+  ModelConfiguration,
+  PricingTable
 } from '@/types';
+import { MODEL_CONFIGS } from '../types/index.js';
+import { extractCitations } from './citations.js';
+import { extractResearchTrace, extractReasoningSummary } from './research-trace.js';
+import { buildResearchScope } from './research-scope.js';
+import type { ResearchScope } from './research-scope.js';
+import { getFormatInstructions, renderResearchOutput, relocateCitations } from './response-format.js';
+import type { PromptTemplateRegistry } from './prompt-templates.js';
+import {
+  DEFAULT_PRICING_TABLE,
+  RUN_USAGE_RANGE,
+  calculateCostInfo,
+  countWebSearchCalls,
+  estimateResearchCost,
+  getModelPricing
+} from './pricing.js';
 
 // Load environment variables
 dotenv.config();
@@ -20,9 +39,18 @@ dotenv.config();
 export class OpenAIDeepResearchClient {
   private openai: OpenAI;
   private logger: Logger;
-
-  constructor(config: OpenAIClientConfig, logger: Logger) {
+  private templates: PromptTemplateRegistry | undefined;
+  private pricing: PricingTable;
+
+  constructor(
+    config: OpenAIClientConfig,
+    logger: Logger,
+    templates?: PromptTemplateRegistry,
+    pricing: PricingTable = DEFAULT_PRICING_TABLE
+  ) {
     this.logger = logger;
+    this.templates = templates;
+    this.pricing = pricing;
 
     this.openai = new OpenAI({
       apiKey: config.apiKey,
@@ -53,14 +81,15 @@ export class OpenAIDeepResearchClient {
   /**
    * Get the appropriate OpenAI model based on accuracy level
    */
-  private getModelForAccuracy(accuracyLevel: 'high' | 'medium'): string {
+  getModelForAccuracy(accuracyLevel: 'high' | 'medium'): "o3-deep-research" | "o4-mini-deep-research" {
     return accuracyLevel === 'high' ? 'o3-deep-research' : 'o4-mini-deep-research';
   }
 
   /**
    * Perform deep research using OpenAI's specialized models
+   * Aborting the signal aborts the underlying HTTP request
    */
-  async performDeepResearch(request: DoDeepResearchRequest): Promise<DoDeepResearchResponse> {
+  async performDeepResearch(request: DoDeepResearchRequest, signal?: AbortSignal): Promise<DoDeepResearchResponse> {
     this.logger.info('=== OpenAI Client: Starting performDeepResearch ===', {
       accuracy_level: request.accuracy_level,
       query_length: request.research_query.length,
@@ -69,35 +98,8 @@ export class OpenAIDeepResearchClient {
     });
 
     try {
-      // Step 1: Determine model to use
-      this.logger.info('Step 1: Determining model for accuracy level', { accuracy_level: request.accuracy_level });
-      const modelName = this.getModelForAccuracy(request.accuracy_level);
-      this.logger.info('✅ Model determined', { modelName });
-
-      // Step 2: Generate response using Responses API
-      this.logger.info('Step 2: Calling OpenAI Responses API');
-      this.logger.debug('Request details:', {
-        model: modelName,
-        temperature: request.temperature || 0.3,
-        max_tokens: request.max_tokens || 4000,
-        response_format: request.response_format || 'comprehensive'
-      });
-
-      const response = await this.openai.responses.create({
-        model: modelName,
-        input: request.research_query,
-        // max_output_tokens: request.max_tokens || 4000,
-        // Enable web search for deep research capability
-        tools: [{
-          type: "web_search_preview"
-        }]
-      });
-
-      this.logger.info('✅ OpenAI API call successful', {
-        response_id: response.id,
-        status: response.status,
-        usage: response.usage
-      });
+      // Steps 1-2: Determine model and call the Responses API
+      const response = await this.submitResearch(request, false, signal);
 
       // Step 3: Process response
       this.logger.info('Step 3: Processing OpenAI response');
@@ -128,215 +130,362 @@ export class OpenAIDeepResearchClient {
         throw new Error(`OpenAI Deep Research response incomplete. The model is still processing your request. Please try again in a few moments. Status: ${response.status}, Reasoning tokens used: ${response.usage?.output_tokens_details?.reasoning_tokens || 0}`);
       }
 
-      // Log the COMPLETE raw response for debugging
-      this.logger.debug('=== COMPLETE RAW RESPONSE DEBUG ===');
-      this.logger.debug('Full response object:', { raw_response: JSON.stringify(response, null, 2) });
-      this.logger.debug('Response keys:', Object.keys(response));
-      this.logger.debug('=== END RAW RESPONSE DEBUG ===');
+      return this.buildResearchResponse(request, response);
 
-      // Extract content based on actual OpenAI Responses API structure
-      // Based on provided example: output[0].content[0].text contains the final result
-      let content = '';
-      
-      this.logger.debug('Starting content extraction with actual API structure');
-      this.logger.debug('Detailed output_text investigation:', {
-        'response.output_text': response.output_text,
-        'typeof response.output_text': typeof response.output_text,
-        'response.output_text === null': response.output_text === null,
-        'response.output_text === undefined': response.output_text === undefined,
-        'response.output_text === ""': response.output_text === "",
-        'Boolean(response.output_text)': Boolean(response.output_text),
-        'output_text in response': 'output_text' in response,
-        'hasOwnProperty output_text': response.hasOwnProperty('output_text')
+    } catch (error) {
+      this.logger.error('❌ OpenAI Client: performDeepResearch failed', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        errorType: error instanceof Error ? error.constructor.name : typeof error,
+        accuracy_level: request.accuracy_level,
+        query_length: request.research_query.length
+      });
+
+      throw new Error(`OpenAI Deep Research failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Submit a research request to the Responses API
+   * With background = true the call returns immediately with a queued response that can be polled
+   */
+  async submitResearch(
+    request: DoDeepResearchRequest,
+    background = false,
+    signal?: AbortSignal
+  ): Promise<OpenAIResponse> {
+    // Step 1: Determine model to use
+    this.logger.info('Step 1: Determining model for accuracy level', { accuracy_level: request.accuracy_level });
+    const modelName = this.getModelForAccuracy(request.accuracy_level);
+    this.logger.info('✅ Model determined', { modelName });
+
+    // Step 2: Generate response using Responses API
+    this.logger.info('Step 2: Calling OpenAI Responses API', { background });
+    this.logger.debug('Request details:', {
+      model: modelName,
+      temperature: request.temperature || 0.3,
+      max_tokens: request.max_tokens || 4000,
+      response_format: request.response_format || 'comprehensive'
+    });
+
+    const prompt = this.renderPrompt(request);
+    if (prompt.scope.applied) {
+      this.logger.info('Applying research scope', { scope_applied: prompt.scope.applied });
+    }
+
+    const response = await this.openai.responses.create({
+      model: modelName,
+      input: prompt.input,
+      background,
+      instructions: prompt.instructions,
+      // max_output_tokens: request.max_tokens || 4000,
+      // Enable web search for deep research capability (the SDK does not type the domain-filtered tool yet)
+      tools: [prompt.scope.webSearchTool as Tool],
+      // Ask for reasoning summaries only when the caller wants them
+      ...(request.include_reasoning_summary ? { reasoning: { summary: 'auto' as const } } : {})
+    }, signal ? { signal } : undefined);
+
+    this.logger.info('✅ OpenAI API call successful', {
+      response_id: response.id,
+      status: response.status,
+      usage: response.usage
+    });
+
+    return response;
+  }
+
+  /**
+   * Render the instructions and input that would be sent to the model for a request
+   * Time range, domain focus and location shape the instructions and the web search tool
+   */
+  renderPrompt(request: DoDeepResearchRequest): { instructions: string; input: string; scope: ResearchScope } {
+    const scope = buildResearchScope(request);
+    return {
+      instructions: this.buildInstructions(request, scope),
+      input: request.research_query,
+      scope
+    };
+  }
+
+  /**
+   * Combine the system instructions, prompt template, response format and research scope
+   * into the instructions for the model
+   */
+  private buildInstructions(request: DoDeepResearchRequest, scope: ResearchScope): string {
+    const sections = [
+      this.templates?.getSystemInstructions() || this.getSystemPrompt(request.accuracy_level)
+    ];
+
+    if (request.template) {
+      if (!this.templates) {
+        throw new Error(`Prompt template '${request.template}' requested but no templates are loaded`);
+      }
+      sections.push(this.templates.render(request.template, request.template_variables));
+    }
+
+    sections.push([getFormatInstructions(request.response_format), ...scope.instructions].join('\n'));
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Retrieve the current state of a background research response
+   */
+  async retrieveResearch(responseId: string): Promise<OpenAIResponse> {
+    const response = await this.openai.responses.retrieve(responseId);
+    this.logger.debug('Retrieved OpenAI response', {
+      response_id: response.id,
+      status: response.status
+    });
+    return response;
+  }
+
+  /**
+   * Cancel a background research response
+   */
+  async cancelResearch(responseId: string): Promise<void> {
+    await this.openai.responses.cancel(responseId);
+    this.logger.info('OpenAI response cancelled', { response_id: responseId });
+  }
+
+  /**
+   * Convert a completed Responses API response into our standard research response
+   */
+  buildResearchResponse(request: DoDeepResearchRequest, response: OpenAIResponse): DoDeepResearchResponse {
+    const modelName = this.getModelForAccuracy(request.accuracy_level);
+
+    // Log the COMPLETE raw response for debugging
+    this.logger.debug('=== COMPLETE RAW RESPONSE DEBUG ===');
+    this.logger.debug('Full response object:', { raw_response: JSON.stringify(response, null, 2) });
+    this.logger.debug('Response keys:', Object.keys(response));
+    this.logger.debug('=== END RAW RESPONSE DEBUG ===');
+
+    // Extract content based on actual OpenAI Responses API structure
+    // Based on provided example: output[0].content[0].text contains the final result
+    let content = '';
+    
+    this.logger.debug('Starting content extraction with actual API structure');
+    this.logger.debug('Detailed output_text investigation:', {
+      'response.output_text': response.output_text,
+      'typeof response.output_text': typeof response.output_text,
+      'response.output_text === null': response.output_text === null,
+      'response.output_text === undefined': response.output_text === undefined,
+      'response.output_text === ""': response.output_text === "",
+      'Boolean(response.output_text)': Boolean(response.output_text),
+      'output_text in response': 'output_text' in response,
+      'hasOwnProperty output_text': response.hasOwnProperty('output_text')
+    });
+    
+    // Method 1: Direct output_text field (SDK convenience property)
+    if (response.output_text) {
+      this.logger.debug('Checking output_text field', {
+        exists: !!response.output_text,
+        type: typeof response.output_text,
+        length: typeof response.output_text === 'string' ? response.output_text.length : 'not string',
+        nullOrUndefined: response.output_text === null || response.output_text === undefined
       });
       
-      // Method 1: Direct output_text field (SDK convenience property)
-      if (response.output_text) {
-        this.logger.debug('Checking output_text field', {
-          exists: !!response.output_text,
-          type: typeof response.output_text,
-          length: typeof response.output_text === 'string' ? response.output_text.length : 'not string',
-          nullOrUndefined: response.output_text === null || response.output_text === undefined
-        });
-        
-        if (typeof response.output_text === 'string' && response.output_text.trim().length > 0) {
-          content = response.output_text.trim();
-          this.logger.debug('✅ Content extracted from response.output_text (SDK convenience field)');
-        }
-      } else {
-        this.logger.debug('❌ response.output_text is falsy or empty');
+      if (typeof response.output_text === 'string' && response.output_text.trim().length > 0) {
+        content = response.output_text.trim();
+        this.logger.debug('✅ Content extracted from response.output_text (SDK convenience field)');
       }
+    } else {
+      this.logger.debug('❌ response.output_text is falsy or empty');
+    }
+    
+    // Method 2: Extract from output[].content[].text (correct format based on example)
+    if (!content && Array.isArray(response.output) && response.output.length > 0) {
+      this.logger.debug('Processing output array', {
+        output_length: response.output.length,
+        first_item_keys: response.output[0] ? Object.keys(response.output[0]) : 'no first item'
+      });
       
-      // Method 2: Extract from output[].content[].text (correct format based on example)
-      if (!content && Array.isArray(response.output) && response.output.length > 0) {
-        this.logger.debug('Processing output array', {
-          output_length: response.output.length,
-          first_item_keys: response.output[0] ? Object.keys(response.output[0]) : 'no first item'
+      for (let i = 0; i < response.output.length; i++) {
+        const outputItem = response.output[i] as any;
+        
+        this.logger.debug(`Processing output item ${i}:`, {
+          type: outputItem.type,
+          id: outputItem.id,
+          status: outputItem.status,
+          role: outputItem.role,
+          has_content: !!outputItem.content,
+          content_type: Array.isArray(outputItem.content) ? 'array' : typeof outputItem.content,
+          content_length: Array.isArray(outputItem.content) ? outputItem.content.length : 'not array'
         });
         
-        for (let i = 0; i < response.output.length; i++) {
-          const outputItem = response.output[i] as any;
-          
-          this.logger.debug(`Processing output item ${i}:`, {
-            type: outputItem.type,
-            id: outputItem.id,
-            status: outputItem.status,
-            role: outputItem.role,
-            has_content: !!outputItem.content,
-            content_type: Array.isArray(outputItem.content) ? 'array' : typeof outputItem.content,
-            content_length: Array.isArray(outputItem.content) ? outputItem.content.length : 'not array'
-          });
+        // Look for message type with content array
+        if (outputItem.type === 'message' && Array.isArray(outputItem.content)) {
+          this.logger.debug(`Found message with content array (${outputItem.content.length} items)`);
           
-          // Look for message type with content array
-          if (outputItem.type === 'message' && Array.isArray(outputItem.content)) {
-            this.logger.debug(`Found message with content array (${outputItem.content.length} items)`);
+          for (let j = 0; j < outputItem.content.length; j++) {
+            const contentItem = outputItem.content[j];
             
-            for (let j = 0; j < outputItem.content.length; j++) {
-              const contentItem = outputItem.content[j];
-              
-              this.logger.debug(`Processing content item ${j}:`, {
-                type: contentItem.type,
-                has_text: !!contentItem.text,
-                text_length: contentItem.text ? contentItem.text.length : 0,
-                text_preview: contentItem.text ? contentItem.text.substring(0, 100) + '...' : 'no text'
-              });
-              
-              // Look for output_text type with text field (based on example structure)
-              if (contentItem.type === 'output_text' && contentItem.text && typeof contentItem.text === 'string') {
-                content = contentItem.text;
-                this.logger.debug('✅ Content extracted from output[].content[].text (output_text type)');
-                break;
-              }
-              // Also check for regular text type
-              else if (contentItem.type === 'text' && contentItem.text && typeof contentItem.text === 'string') {
-                content = contentItem.text;
-                this.logger.debug('✅ Content extracted from output[].content[].text (text type)');
-                break;
-              }
-            }
+            this.logger.debug(`Processing content item ${j}:`, {
+              type: contentItem.type,
+              has_text: !!contentItem.text,
+              text_length: contentItem.text ? contentItem.text.length : 0,
+              text_preview: contentItem.text ? contentItem.text.substring(0, 100) + '...' : 'no text'
+            });
             
-            if (content) break; // Found content, exit outer loop
+            // Look for output_text type with text field (based on example structure)
+            if (contentItem.type === 'output_text' && contentItem.text && typeof contentItem.text === 'string') {
+              content = contentItem.text;
+              this.logger.debug('✅ Content extracted from output[].content[].text (output_text type)');
+              break;
+            }
+            // Also check for regular text type
+            else if (contentItem.type === 'text' && contentItem.text && typeof contentItem.text === 'string') {
+              content = contentItem.text;
+              this.logger.debug('✅ Content extracted from output[].content[].text (text type)');
+              break;
+            }
           }
+          
+          if (content) break; // Found content, exit outer loop
         }
-      } else {
-        this.logger.debug('⚠️ No output array or empty output array', {
-          has_output: !!response.output,
-          output_type: typeof response.output,
-          is_array: Array.isArray(response.output)
-        });
       }
+    } else {
+      this.logger.debug('⚠️ No output array or empty output array', {
+        has_output: !!response.output,
+        output_type: typeof response.output,
+        is_array: Array.isArray(response.output)
+      });
+    }
+    
+    // Method 3: Additional fallbacks for other potential text locations
+    if (!content) {
+      const responseObj = response as any;
       
-      // Method 3: Additional fallbacks for other potential text locations
-      if (!content) {
-        const responseObj = response as any;
-        
-        // Check text field
-        if (responseObj.text && typeof responseObj.text === 'string' && responseObj.text.length > 0) {
-          content = responseObj.text;
-          this.logger.debug('Content extracted from top-level text field');
-        }
-        // Check content field
-        else if (responseObj.content && typeof responseObj.content === 'string' && responseObj.content.length > 0) {
-          content = responseObj.content;
-          this.logger.debug('Content extracted from top-level content field');
-        }
+      // Check text field
+      if (responseObj.text && typeof responseObj.text === 'string' && responseObj.text.length > 0) {
+        content = responseObj.text;
+        this.logger.debug('Content extracted from top-level text field');
+      }
+      // Check content field
+      else if (responseObj.content && typeof responseObj.content === 'string' && responseObj.content.length > 0) {
+        content = responseObj.content;
+        this.logger.debug('Content extracted from top-level content field');
       }
+    }
 
-      // Final fallback - if we still have no content but have tokens, there's a parsing issue
-      if (!content || content.trim().length === 0) {
-        const tokenCount = response.usage?.output_tokens || 0;
-        if (tokenCount > 0) {
-          content = `[Content parsing error: OpenAI generated ${tokenCount} tokens but content extraction failed. Response structure: ${JSON.stringify(Object.keys(response), null, 2)}]`;
-          this.logger.error('Content extraction failed despite token usage', {
-            output_tokens: tokenCount,
-            response_keys: Object.keys(response),
-            status: response.status
-          });
-        } else {
-          content = 'No content returned from OpenAI';
-        }
+    // Final fallback - if we still have no content but have tokens, there's a parsing issue
+    if (!content || content.trim().length === 0) {
+      const tokenCount = response.usage?.output_tokens || 0;
+      if (tokenCount > 0) {
+        content = `[Content parsing error: OpenAI generated ${tokenCount} tokens but content extraction failed. Response structure: ${JSON.stringify(Object.keys(response), null, 2)}]`;
+        this.logger.error('Content extraction failed despite token usage', {
+          output_tokens: tokenCount,
+          response_keys: Object.keys(response),
+          status: response.status
+        });
+      } else {
+        content = 'No content returned from OpenAI';
       }
+    }
 
-      this.logger.info('Content extraction completed', {
-        content_length: content.length,
-        extraction_successful: content.length > 0 && !content.includes('[Content parsing error')
-      });
+    const extractionSuccessful = content.length > 0 && !content.includes('[Content parsing error');
+    this.logger.info('Content extraction completed', {
+      content_length: content.length,
+      extraction_successful: extractionSuccessful
+    });
 
-      // Step 4: Calculate costs
-      this.logger.info('Step 4: Calculating costs');
-      this.logger.debug('About to call calculateCosts with:', {
-        accuracy_level: request.accuracy_level,
-        usage: response.usage
-      });
+    // Enforce the requested response format on the report
+    const report = extractionSuccessful && content !== 'No content returned from OpenAI'
+      ? renderResearchOutput(content, request.response_format)
+      : content;
+    this.logger.debug('Report rendered', {
+      response_format: request.response_format || 'comprehensive',
+      original_length: content.length,
+      rendered_length: report.length
+    });
 
-      const costInfo = this.calculateCosts(request.accuracy_level, response.usage);
-      this.logger.info('✅ Cost calculation successful', { costInfo });
+    // Step 4: Calculate costs
+    this.logger.info('Step 4: Calculating costs');
+    this.logger.debug('About to call calculateCosts with:', {
+      accuracy_level: request.accuracy_level,
+      usage: response.usage
+    });
 
-      // Step 5: Generate additional metadata
-      this.logger.info('Step 5: Generating metadata');
-      const sourcesFound = this.extractSourceCount(content);
-      const confidence = this.calculateConfidence(request.accuracy_level, sourcesFound);
-      
-      this.logger.debug('Metadata generated', {
-        sourcesFound,
-        confidence,
-        coverage_completeness: 0.85,
-        recency_score: 0.9
-      });
+    const costInfo = this.calculateCosts(request.accuracy_level, response.usage, response.output);
+    this.logger.info('✅ Cost calculation successful', { costInfo });
+
+    // Step 5: Generate additional metadata
+    this.logger.info('Step 5: Generating metadata');
+    const citations = relocateCitations(extractCitations(response.output), report);
+    const sourceUrls = citations.map(citation => citation.url);
+    const sourcesFound = citations.length;
+    const confidence = this.calculateConfidence(request.accuracy_level, sourcesFound);
+    
+    this.logger.debug('Metadata generated', {
+      sourcesFound,
+      cited_domains: Array.from(new Set(citations.map(citation => citation.domain))),
+      confidence,
+      coverage_completeness: 0.85,
+      recency_score: 0.9
+    });
 
-      // Step 6: Build final response
-      this.logger.info('Step 6: Building final response object');
-      const finalResponse: DoDeepResearchResponse = {
-        research_results: content,
-        executive_summary: this.generateExecutiveSummary(content),
-        model_used: modelName as "o3-deep-research" | "o4-mini-deep-research",
-        execution_time_seconds: 0, // Will be calculated by the caller
-        
-        // Required properties
-        accuracy_level: request.accuracy_level,
-        source_quality_score: 85,
-        rate_limit_remaining: 100,
-        
-        sources_found: sourcesFound,
-        research_confidence: confidence,
-        coverage_completeness: 0.85,
-        recency_score: 0.9,
-        related_topics: this.extractRelatedTopics(content),
-        limitations: this.generateLimitations(request.accuracy_level),
-        token_usage: response.usage ? {
-          input_tokens: response.usage.input_tokens || 0,
-          output_tokens: response.usage.output_tokens || 0,
-          total_tokens: response.usage.total_tokens || 0
-        } : { input_tokens: 0, output_tokens: 0, total_tokens: 0 },
-        cost_info: costInfo,
-        request_id: `openai_${Date.now()}`,
-        timestamp: new Date().toISOString(),
-        
-        // Include raw output array for citations, web search results, and intermediate steps
-        raw_openai_output: response.output || []
-      };
+    // Step 6: Build final response
+    this.logger.info('Step 6: Building final response object');
+    const finalResponse: DoDeepResearchResponse = {
+      research_results: report,
+      executive_summary: this.generateExecutiveSummary(content),
+      model_used: modelName,
+      execution_time_seconds: 0, // Will be calculated by the caller
+      
+      // Required properties
+      accuracy_level: request.accuracy_level,
+      source_quality_score: this.assessSourceQuality(sourceUrls),
+      rate_limit_remaining: 100,
+      
+      sources_found: sourcesFound,
+      research_confidence: confidence,
+      coverage_completeness: 0.85,
+      recency_score: 0.9,
+      related_topics: this.extractRelatedTopics(content),
+      limitations: this.generateLimitations(request.accuracy_level),
+      token_usage: response.usage ? {
+        input_tokens: response.usage.input_tokens || 0,
+        output_tokens: response.usage.output_tokens || 0,
+        total_tokens: response.usage.total_tokens || 0
+      } : { input_tokens: 0, output_tokens: 0, total_tokens: 0 },
+      cost_info: costInfo,
+      request_id: `openai_${Date.now()}`,
+      timestamp: new Date().toISOString(),
+      
+      // Include raw output array for citations, web search results, and intermediate steps
+      raw_openai_output: response.output || []
+    };
 
-      this.logger.info('=== OpenAI Client: performDeepResearch completed successfully ===', {
-        model_used: finalResponse.model_used,
-        token_usage: finalResponse.token_usage,
-        cost_info: finalResponse.cost_info,
-        sources_found: finalResponse.sources_found,
-        confidence: finalResponse.research_confidence
-      });
+    // Add citations and source URLs if requested
+    if (request.include_sources) {
+      finalResponse.citations = citations;
+      finalResponse.source_urls = sourceUrls;
+    }
 
-      return finalResponse;
+    // Echo the research scope that shaped the request
+    const scopeApplied = buildResearchScope(request).applied;
+    if (scopeApplied) {
+      finalResponse.scope_applied = scopeApplied;
+    }
 
-    } catch (error) {
-      this.logger.error('❌ OpenAI Client: performDeepResearch failed', {
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined,
-        errorType: error instanceof Error ? error.constructor.name : typeof error,
-        accuracy_level: request.accuracy_level,
-        query_length: request.research_query.length
-      });
+    // Add the web search trace if requested
+    if (request.include_research_trace) {
+      finalResponse.research_trace = extractResearchTrace(response.output);
+    }
 
-      throw new Error(`OpenAI Deep Research failed: ${error instanceof Error ? error.message : String(error)}`);
+    // Add reasoning summaries if requested
+    if (request.include_reasoning_summary) {
+      finalResponse.reasoning_summary = extractReasoningSummary(response.output);
     }
+
+    this.logger.info('=== OpenAI Client: performDeepResearch completed successfully ===', {
+      model_used: finalResponse.model_used,
+      token_usage: finalResponse.token_usage,
+      cost_info: finalResponse.cost_info,
+      sources_found: finalResponse.sources_found,
+      confidence: finalResponse.research_confidence
+    });
+
+    return finalResponse;
   }
 
   /**
@@ -356,24 +505,23 @@ export class OpenAIDeepResearchClient {
 
   /**
    * Get system prompt based on accuracy level
+   * Used unless system instructions are configured with SYSTEM_INSTRUCTIONS_PATH
    */
-  /*
   private getSystemPrompt(accuracyLevel: "high" | "medium"): string {
     const prompts = {
-      high: `You are an expert research analyst with access to comprehensive web search capabilities. 
-             Conduct thorough, multi-source research with the highest accuracy standards. 
-             Verify information across multiple credible sources, provide detailed analysis, 
-             and include comprehensive source citations. Take your time to ensure accuracy and completeness.`,
-      
-      medium: `You are a skilled research analyst with web search access. 
-              Provide focused, efficient research with good accuracy. 
-              Cover key points with reliable sources and clear analysis. 
-              Balance thoroughness with efficiency for practical results.`
+      high: 'You are an expert research analyst with access to comprehensive web search capabilities. ' +
+            'Conduct thorough, multi-source research with the highest accuracy standards. ' +
+            'Verify information across multiple credible sources, provide detailed analysis, ' +
+            'and include comprehensive source citations. Take your time to ensure accuracy and completeness.',
+
+      medium: 'You are a skilled research analyst with web search access. ' +
+              'Provide focused, efficient research with good accuracy. ' +
+              'Cover key points with reliable sources and clear analysis. ' +
+              'Balance thoroughness with efficiency for practical results.'
     };
-    
+
     return prompts[accuracyLevel];
   }
-  */
 
   /**
    * Format the OpenAI response into our standard format
@@ -394,8 +542,9 @@ export class OpenAIDeepResearchClient {
       total_tokens: 0 
     };
 
-    // Extract sources from content (basic implementation)
-    const sourceUrls = this.extractSourceUrls(content);
+    // Extract sources from url_citation annotations
+    const citations = extractCitations(response.output);
+    const sourceUrls = citations.map(citation => citation.url);
     
     // Calculate costs based on usage
     const costInfo = this.calculateCosts(request.accuracy_level, usage);
@@ -424,32 +573,15 @@ export class OpenAIDeepResearchClient {
       rate_limit_remaining: 0 // Will be updated by rate limiter
     };
 
-    // Add source URLs if requested
+    // Add citations and source URLs if requested
     if (request.include_sources) {
+      result.citations = citations;
       result.source_urls = sourceUrls;
     }
 
     return result;
   }
 
-  /**
-   * Extract URLs from research content
-   */
-  private extractSourceUrls(content: string): string[] {
-    // Simple URL extraction - can be enhanced
-    const urlRegex = /https?:\/\/[^\s\)]+/g;
-    return content.match(urlRegex) || [];
-  }
-
-  /**
-   * Extract count of sources from research content
-   */
-  private extractSourceCount(content: string): number {
-    // Count citation patterns like [1], [2], etc.
-    const citationMatches = content.match(/\[\d+\]/g);
-    return citationMatches ? citationMatches.length : 0;
-  }
-
   /**
    * Calculate confidence based on accuracy level and sources found
    */
@@ -536,68 +668,41 @@ export class OpenAIDeepResearchClient {
   }
 
   /**
-   * Calculate costs based on model and token usage
+   * Calculate the cost of a run from its token usage and web search calls, using the pricing table
    */
-  private calculateCosts(accuracyLevel: "high" | "medium", usage: any): CostInfo {
-    this.logger.info('=== Starting calculateCosts method ===', {
-      accuracyLevel,
-      usage,
-      usageType: typeof usage,
-      usageKeys: usage ? Object.keys(usage) : 'null'
-    });
-
+  calculateCosts(
+    accuracyLevel: "high" | "medium",
+    usage: ResponseUsage | undefined,
+    output?: ResponseOutputItem[]
+  ): CostInfo {
     try {
-      this.logger.info('Step 1: Setting up cost per token rates');
-      
-      // Estimate costs for Deep Research models (these are approximations)
-      const costPerToken = {
-        high: 0.02,    // o3-deep-research estimated cost per 1K tokens
-        medium: 0.006  // o4-mini-deep-research estimated cost per 1K tokens
-      };
-
-      this.logger.info('✅ Cost rates defined', { costPerToken });
-
-      this.logger.info('Step 2: Extracting token usage');
-      const totalTokens = usage?.total_tokens || 0;
-      this.logger.info('✅ Token count extracted', { totalTokens });
-
-      this.logger.info('Step 3: Calculating estimated cost');
-      const estimatedCost = (totalTokens / 1000) * costPerToken[accuracyLevel];
-      this.logger.info('✅ Cost calculated', { estimatedCost });
-
-      this.logger.info('Step 4: Building CostInfo object');
-      const costInfo: CostInfo = {
-        estimated_cost_usd: parseFloat(estimatedCost.toFixed(4)),
-        cost_per_1k_tokens: costPerToken[accuracyLevel],
-        billing_tier: accuracyLevel === 'high' ? 'premium' : 'standard'
-      };
-
-      this.logger.info('✅ CostInfo object created', { costInfo });
-      this.logger.info('=== calculateCosts completed successfully ===');
+      const pricing = getModelPricing(this.pricing, this.getModelForAccuracy(accuracyLevel));
+      const costInfo = calculateCostInfo(pricing, accuracyLevel, usage, countWebSearchCalls(output));
 
+      this.logger.debug('Research cost calculated', { accuracyLevel, usage, costInfo });
       return costInfo;
 
     } catch (error) {
       this.logger.error('❌ calculateCosts method failed', {
         error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined,
-        errorType: error instanceof Error ? error.constructor.name : typeof error,
         accuracyLevel,
         usage
       });
 
-      // Return a default cost info to prevent complete failure
-      const fallbackCostInfo: CostInfo = {
-        estimated_cost_usd: 0.0,
-        cost_per_1k_tokens: 0.0,
-        billing_tier: 'standard'
-      };
+      // Return a zero cost info to prevent complete failure
+      const fallbackCostInfo = calculateCostInfo(
+        getModelPricing(DEFAULT_PRICING_TABLE, this.getModelForAccuracy(accuracyLevel)),
+        accuracyLevel,
+        undefined,
+        0
+      );
 
       this.logger.warn('Returning fallback cost info', { fallbackCostInfo });
       return fallbackCostInfo;
     }
   }
 
+
   /**
    * Assess research confidence based on content analysis
    */
@@ -758,24 +863,33 @@ export class OpenAIDeepResearchClient {
   }
 
   /**
-   * Estimate cost before making request
+   * Estimate the tokens, cost and duration of a request before making it
    */
-  estimateRequestCost(request: DoDeepResearchRequest): {
-    estimated_tokens: number;
-    estimated_cost_usd: number;
-    estimated_time_seconds: number;
-  } {
-    const { MODEL_CONFIGS } = require('@/types/openai-types.js');
-    const config = MODEL_CONFIGS[request.accuracy_level];
-    
-    const estimatedInputTokens = Math.ceil(request.research_query.length / 4);
-    const estimatedOutputTokens = request.max_tokens || 4000;
-    const totalTokens = estimatedInputTokens + estimatedOutputTokens;
-    
-    return {
-      estimated_tokens: totalTokens,
-      estimated_cost_usd: (totalTokens / 1000) * config.cost_per_1k_tokens,
-      estimated_time_seconds: config.typical_response_time_seconds
+  estimateRequestCost(request: DoDeepResearchRequest): CostEstimate {
+    const config = MODEL_CONFIGS[request.accuracy_level] as ModelConfiguration;
+    const typical = estimateResearchCost(this.pricing, request);
+    const light = estimateResearchCost(this.pricing, request, RUN_USAGE_RANGE.min);
+    const heavy = estimateResearchCost(this.pricing, request, RUN_USAGE_RANGE.max);
+
+    const estimate: CostEstimate = {
+      accuracy_level: request.accuracy_level,
+      model: config.model_name,
+      estimated_total_tokens: typical.estimated_total_tokens,
+      estimated_cost_usd: typical.cost_info.estimated_cost_usd,
+      estimated_time_seconds: config.typical_response_time_seconds,
+      token_range: { min: light.estimated_total_tokens, max: heavy.estimated_total_tokens },
+      cost_range_usd: { min: light.cost_info.estimated_cost_usd, max: heavy.cost_info.estimated_cost_usd },
+      time_range_seconds: {
+        min: Math.round(config.typical_response_time_seconds * RUN_USAGE_RANGE.min),
+        max: Math.round(config.typical_response_time_seconds * RUN_USAGE_RANGE.max)
+      },
+      cost_breakdown: typical.cost_info.breakdown
     };
+
+    if (request.max_tokens && request.max_tokens > config.max_tokens_limit) {
+      estimate.warning = `max_tokens ${request.max_tokens} exceeds the ${config.max_tokens_limit} token report limit of ${config.model_name}; the report may be cut short`;
+    }
+
+    return estimate;
   }
 }
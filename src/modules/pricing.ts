@@ -0,0 +1,185 @@
+/**
+ * Pricing for OpenAI Deep Research MCP Server
+ * One pricing table for billed costs and estimates, loadable from a JSON file
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import type { ResponseOutputItem, ResponseUsage } from 'openai/resources/responses/responses';
+import type {
+  CostBreakdown,
+  CostInfo,
+  DoDeepResearchRequest,
+  Logger,
+  ModelPricing,
+  PricingTable
+} from '@/types';
+import { MODEL_CONFIGS } from '../types/index.js';
+
+/**
+ * OpenAI list prices in USD (reasoning tokens are billed at the output rate)
+ */
+export const DEFAULT_PRICING_TABLE: PricingTable = {
+  'o3-deep-research': {
+    input_per_1m_tokens: 10.0,
+    cached_input_per_1m_tokens: 2.5,
+    output_per_1m_tokens: 40.0,
+    reasoning_per_1m_tokens: 40.0,
+    web_search_per_call: 0.01
+  },
+  'o4-mini-deep-research': {
+    input_per_1m_tokens: 2.0,
+    cached_input_per_1m_tokens: 0.5,
+    output_per_1m_tokens: 8.0,
+    reasoning_per_1m_tokens: 8.0,
+    web_search_per_call: 0.01
+  }
+};
+
+/**
+ * Usage of a typical run beyond the prompt and the report: pages read into the
+ * context, reasoning and searches. Used to estimate a request before it runs.
+ */
+const TYPICAL_RUN_USAGE: Record<"high" | "medium", { input_tokens: number; reasoning_tokens: number; web_search_calls: number }> = {
+  high: { input_tokens: 100000, reasoning_tokens: 20000, web_search_calls: 30 },
+  medium: { input_tokens: 60000, reasoning_tokens: 10000, web_search_calls: 20 }
+};
+
+const ModelPricingSchema = z.object({
+  input_per_1m_tokens: z.number().nonnegative(),
+  cached_input_per_1m_tokens: z.number().nonnegative(),
+  output_per_1m_tokens: z.number().nonnegative(),
+  reasoning_per_1m_tokens: z.number().nonnegative(),
+  web_search_per_call: z.number().nonnegative()
+}).strict();
+
+/**
+ * Pricing file: prices by model name; models in the built-in table may give only the prices that differ
+ */
+const PricingFileSchema = z.record(ModelPricingSchema.partial());
+
+/**
+ * Load a pricing file and merge it over the built-in table
+ */
+export async function loadPricingTable(filePath: string, logger: Logger): Promise<PricingTable> {
+  const source = await fs.promises.readFile(filePath, 'utf8');
+  const parsed = PricingFileSchema.safeParse(JSON.parse(source));
+  if (!parsed.success) {
+    throw new Error(`Invalid pricing table ${filePath}: ${parsed.error.errors.map(error => `${error.path.join('.')}: ${error.message}`).join('; ')}`);
+  }
+
+  const table: PricingTable = { ...DEFAULT_PRICING_TABLE };
+  for (const [model, prices] of Object.entries(parsed.data)) {
+    const merged = ModelPricingSchema.safeParse({ ...DEFAULT_PRICING_TABLE[model], ...prices });
+    if (!merged.success) {
+      throw new Error(`Invalid pricing table ${filePath}: model '${model}' must define every price (${Object.keys(ModelPricingSchema.shape).join(', ')})`);
+    }
+    table[model] = merged.data;
+  }
+
+  logger.info('Pricing table loaded', { file: filePath, models: Object.keys(table) });
+  return table;
+}
+
+/**
+ * Get the prices of a model
+ */
+export function getModelPricing(table: PricingTable, model: string): ModelPricing {
+  const pricing = table[model];
+  if (!pricing) {
+    throw new Error(`No pricing configured for model '${model}'`);
+  }
+  return pricing;
+}
+
+/**
+ * Count the web search tool calls of a response (every web_search_call item is billed)
+ */
+export function countWebSearchCalls(output: ResponseOutputItem[] | undefined): number {
+  return (output || []).filter(item => item.type === 'web_search_call').length;
+}
+
+/**
+ * Price the usage of a run
+ */
+export function calculateCostInfo(
+  pricing: ModelPricing,
+  accuracyLevel: "high" | "medium",
+  usage: ResponseUsage | undefined,
+  webSearchCalls: number
+): CostInfo {
+  const totalInput = usage?.input_tokens || 0;
+  const cachedInput = Math.min(totalInput, usage?.input_tokens_details?.cached_tokens || 0);
+  const totalOutput = usage?.output_tokens || 0;
+  const reasoning = Math.min(totalOutput, usage?.output_tokens_details?.reasoning_tokens || 0);
+
+  const breakdown: CostBreakdown = {
+    input_tokens: totalInput - cachedInput,
+    cached_input_tokens: cachedInput,
+    output_tokens: totalOutput - reasoning,
+    reasoning_tokens: reasoning,
+    web_search_calls: webSearchCalls,
+    input_usd: roundUsd(((totalInput - cachedInput) / 1_000_000) * pricing.input_per_1m_tokens),
+    cached_input_usd: roundUsd((cachedInput / 1_000_000) * pricing.cached_input_per_1m_tokens),
+    output_usd: roundUsd(((totalOutput - reasoning) / 1_000_000) * pricing.output_per_1m_tokens),
+    reasoning_usd: roundUsd((reasoning / 1_000_000) * pricing.reasoning_per_1m_tokens),
+    web_search_usd: roundUsd(webSearchCalls * pricing.web_search_per_call)
+  };
+
+  const total = roundUsd(
+    breakdown.input_usd + breakdown.cached_input_usd + breakdown.output_usd +
+    breakdown.reasoning_usd + breakdown.web_search_usd
+  );
+  const totalTokens = usage?.total_tokens || totalInput + totalOutput;
+
+  return {
+    estimated_cost_usd: total,
+    cost_per_1k_tokens: totalTokens > 0 ? roundUsd((total / totalTokens) * 1000) : 0,
+    billing_tier: accuracyLevel === 'high' ? 'premium' : 'standard',
+    breakdown
+  };
+}
+
+/**
+ * How much lighter and heavier than a typical run a run commonly is, for estimate ranges
+ */
+export const RUN_USAGE_RANGE = { min: 0.5, max: 2 };
+
+/**
+ * Estimate the tokens and cost of a request before it runs, from the prompt,
+ * max_tokens and the usage of a typical run scaled by `runScale`
+ */
+export function estimateResearchCost(
+  table: PricingTable,
+  request: DoDeepResearchRequest,
+  runScale = 1
+): { estimated_total_tokens: number; cost_info: CostInfo } {
+  const typical = TYPICAL_RUN_USAGE[request.accuracy_level];
+  const modelName = MODEL_CONFIGS[request.accuracy_level]?.model_name as string;
+  const promptTokens = Math.ceil(request.research_query.length / 4);
+  const reasoningTokens = Math.round(typical.reasoning_tokens * runScale);
+  const outputTokens = (request.max_tokens || 4000) + reasoningTokens;
+  const inputTokens = promptTokens + Math.round(typical.input_tokens * runScale);
+
+  const usage = {
+    input_tokens: inputTokens,
+    input_tokens_details: { cached_tokens: 0 },
+    output_tokens: outputTokens,
+    output_tokens_details: { reasoning_tokens: reasoningTokens },
+    total_tokens: inputTokens + outputTokens
+  };
+
+  return {
+    estimated_total_tokens: usage.total_tokens,
+    cost_info: calculateCostInfo(
+      getModelPricing(table, modelName),
+      request.accuracy_level,
+      usage,
+      Math.round(typical.web_search_calls * runScale)
+    )
+  };
+}
+
+function roundUsd(value: number): number {
+  return parseFloat(value.toFixed(6));
+}
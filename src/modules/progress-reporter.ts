@@ -0,0 +1,132 @@
+/**
+ * Progress reporting for OpenAI Deep Research MCP Server
+ * Translates the state of a running research response into MCP progress notifications
+ */
+
+import type { Response as OpenAIResponse } from 'openai/resources/responses/responses';
+import type { ProgressToken, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from '@/types';
+import { MODEL_CONFIGS } from '../types/index.js';
+
+/**
+ * Phases a research run goes through
+ */
+export type ResearchPhase =
+  | 'queued'
+  | 'submitted'
+  | 'searching'
+  | 'reasoning'
+  | 'finalizing'
+  | 'completed';
+
+/**
+ * A single progress observation
+ */
+export interface ResearchProgressUpdate {
+  phase: ResearchPhase;
+  message: string;
+  web_searches?: number;
+}
+
+/**
+ * Callback receiving progress observations
+ */
+export type ResearchProgressListener = (update: ResearchProgressUpdate) => void;
+
+/**
+ * Work out the current phase of a research response from its status and output items
+ */
+export function describeResponseProgress(response: OpenAIResponse): ResearchProgressUpdate {
+  const output = Array.isArray(response.output) ? response.output : [];
+  const webSearches = output.filter(item => item.type === 'web_search_call').length;
+  const hasMessage = output.some(item => item.type === 'message');
+  const lastItem = output[output.length - 1];
+
+  if (response.status === 'queued') {
+    return { phase: 'queued', message: 'Waiting for OpenAI to start the research run', web_searches: 0 };
+  }
+
+  if (response.status === 'completed' || hasMessage) {
+    return { phase: 'finalizing', message: `Writing the report after ${webSearches} web searches`, web_searches: webSearches };
+  }
+
+  if (lastItem?.type === 'reasoning') {
+    return { phase: 'reasoning', message: `Reasoning over findings (${webSearches} web searches so far)`, web_searches: webSearches };
+  }
+
+  if (webSearches > 0) {
+    return { phase: 'searching', message: `${webSearches} web searches performed`, web_searches: webSearches };
+  }
+
+  return { phase: 'reasoning', message: 'Planning the research', web_searches: 0 };
+}
+
+/**
+ * Sends notifications/progress for one tool call
+ * Progress is measured in elapsed seconds against the model's typical response time
+ */
+export class ResearchProgressReporter {
+  private progressToken: ProgressToken;
+  private sendNotification: (notification: ServerNotification) => Promise<void>;
+  private logger: Logger;
+  private startTime: number;
+  private estimatedTotalSeconds: number;
+  private lastProgress = 0;
+
+  constructor(
+    progressToken: ProgressToken,
+    sendNotification: (notification: ServerNotification) => Promise<void>,
+    accuracyLevel: 'high' | 'medium',
+    logger: Logger
+  ) {
+    this.progressToken = progressToken;
+    this.sendNotification = sendNotification;
+    this.logger = logger;
+    this.startTime = Date.now();
+    this.estimatedTotalSeconds = MODEL_CONFIGS[accuracyLevel]?.typical_response_time_seconds || 120;
+  }
+
+  /**
+   * Listener to hand to code that observes the research run
+   */
+  get listener(): ResearchProgressListener {
+    return update => this.report(update);
+  }
+
+  /**
+   * Send a progress notification for the given update
+   */
+  report(update: ResearchProgressUpdate): void {
+    const elapsedSeconds = Math.round((Date.now() - this.startTime) / 100) / 10;
+    const done = update.phase === 'completed';
+
+    // Progress must strictly increase between notifications
+    const progress = Math.max(elapsedSeconds, this.lastProgress + 0.1);
+    this.lastProgress = progress;
+
+    // Runs that take longer than typical keep a total just ahead of the progress
+    const total = done ? progress : Math.max(this.estimatedTotalSeconds, Math.ceil(progress * 1.1));
+
+    this.sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken: this.progressToken,
+        progress,
+        total,
+        message: update.message
+      }
+    }).catch(error => {
+      this.logger.warn('Failed to send progress notification', {
+        phase: update.phase,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+
+    this.logger.debug('Progress notification sent', {
+      phase: update.phase,
+      progress,
+      total,
+      web_searches: update.web_searches
+    });
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Prompt templates for OpenAI Deep Research MCP Server
+ * Loads named research templates from a directory and renders them into model instructions
+ *
+ * A template is a Markdown file named after the template (e.g. literature_review.md).
+ * An optional leading HTML comment is its description, and placeholders are written as
+ * {{variable}} (required) or {{variable|default value}} (optional).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Logger, ValidationError } from '@/types';
+
+/**
+ * Variable declared by a template placeholder
+ */
+export interface PromptTemplateVariable {
+  name: string;
+  required: boolean;
+  default?: string;
+}
+
+/**
+ * Parsed prompt template
+ */
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  variables: PromptTemplateVariable[];
+  body: string;
+}
+
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const DESCRIPTION_PATTERN = /^\s*<!--([\s\S]*?)-->\s*/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Parse the source of a template file
+ */
+export function parsePromptTemplate(name: string, source: string): PromptTemplate {
+  const descriptionMatch = source.match(DESCRIPTION_PATTERN);
+  const description = descriptionMatch?.[1]?.trim().replace(/\s+/g, ' ') || '';
+  const body = (descriptionMatch ? source.slice(descriptionMatch[0].length) : source).trim();
+
+  const variables = new Map<string, PromptTemplateVariable>();
+  for (const match of body.matchAll(PLACEHOLDER_PATTERN)) {
+    const variableName = match[1] as string;
+    const defaultValue = match[2]?.trim();
+    const existing = variables.get(variableName);
+
+    // A variable is optional if any of its placeholders gives a default
+    if (defaultValue !== undefined && (!existing || existing.required)) {
+      variables.set(variableName, { name: variableName, required: false, default: defaultValue });
+    } else if (!existing) {
+      variables.set(variableName, { name: variableName, required: true });
+    }
+  }
+
+  return {
+    name,
+    description,
+    variables: Array.from(variables.values()),
+    body
+  };
+}
+
+/**
+ * Named prompt templates and the server-wide system instructions
+ */
+export class PromptTemplateRegistry {
+  private templates: Map<string, PromptTemplate> = new Map();
+  private systemInstructions: string | undefined;
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Load every *.md template in a directory, replacing templates with the same name
+   * A missing directory is not an error; the server simply has no templates
+   */
+  async loadFromDirectory(directory: string): Promise<number> {
+    let entries: string[];
+    try {
+      entries = await fs.promises.readdir(directory);
+    } catch (error) {
+      this.logger.warn('Prompt template directory not readable, no templates loaded', {
+        directory,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return 0;
+    }
+
+    let loaded = 0;
+    for (const entry of entries.sort()) {
+      if (path.extname(entry) !== '.md') {
+        continue;
+      }
+
+      const name = path.basename(entry, '.md');
+      if (!TEMPLATE_NAME_PATTERN.test(name)) {
+        this.logger.warn('Skipping prompt template with invalid name', { file: entry });
+        continue;
+      }
+
+      const source = await fs.promises.readFile(path.join(directory, entry), 'utf8');
+      this.register(parsePromptTemplate(name, source));
+      loaded++;
+    }
+
+    this.logger.info('Prompt templates loaded', {
+      directory,
+      templates: Array.from(this.templates.keys())
+    });
+
+    return loaded;
+  }
+
+  /**
+   * Load the system instructions sent with every research request
+   */
+  async loadSystemInstructions(filePath: string): Promise<void> {
+    const instructions = (await fs.promises.readFile(filePath, 'utf8')).trim();
+    this.systemInstructions = instructions || undefined;
+    this.logger.info('System instructions loaded', { file: filePath, length: instructions.length });
+  }
+
+  /**
+   * Configured system instructions, if any
+   */
+  getSystemInstructions(): string | undefined {
+    return this.systemInstructions;
+  }
+
+  register(template: PromptTemplate): void {
+    this.templates.set(template.name, template);
+  }
+
+  get(name: string): PromptTemplate | undefined {
+    return this.templates.get(name);
+  }
+
+  list(): PromptTemplate[] {
+    return Array.from(this.templates.values());
+  }
+
+  /**
+   * Check that a template exists and the given variables satisfy it
+   */
+  validate(name: string, variables: Record<string, string> = {}): ValidationError[] {
+    const template = this.templates.get(name);
+    if (!template) {
+      const available = Array.from(this.templates.keys());
+      return [{
+        field: 'template',
+        message: `Unknown template '${name}'. Available templates: ${available.length > 0 ? available.join(', ') : 'none'}`,
+        code: 'unknown_template'
+      }];
+    }
+
+    const errors: ValidationError[] = [];
+    const declared = new Set(template.variables.map(variable => variable.name));
+
+    for (const variable of template.variables) {
+      if (variable.required && !variables[variable.name]?.trim()) {
+        errors.push({
+          field: `template_variables.${variable.name}`,
+          message: `Template '${name}' requires the variable '${variable.name}'`,
+          code: 'required'
+        });
+      }
+    }
+
+    for (const variableName of Object.keys(variables)) {
+      if (!declared.has(variableName)) {
+        errors.push({
+          field: `template_variables.${variableName}`,
+          message: `Template '${name}' has no variable '${variableName}' (expected: ${Array.from(declared).join(', ') || 'none'})`,
+          code: 'unknown_variable'
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Render a template with the given variables
+   */
+  render(name: string, variables: Record<string, string> = {}): string {
+    const errors = this.validate(name, variables);
+    if (errors.length > 0) {
+      throw new Error(errors.map(error => error.message).join('; '));
+    }
+
+    const template = this.templates.get(name) as PromptTemplate;
+    return template.body.replace(PLACEHOLDER_PATTERN, (_placeholder, variableName: string, defaultValue?: string) => {
+      const value = variables[variableName]?.trim();
+      return value || defaultValue?.trim() || '';
+    });
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Rate limiting algorithms for OpenAI Deep Research MCP Server
+ * Rolling request windows (sliding log, sliding window counter, token bucket) and
+ * calendar days in a configurable timezone, all persisted through a usage store
+ */
+
+import type { RateLimitAlgorithm } from '@/types';
+import type { UsageStore } from './usage-store.js';
+
+/**
+ * Outcome of checking a rolling request window
+ */
+export interface WindowCheck {
+  allowed: boolean;
+  remaining: number;                  // Requests allowed right now, before counting a new one
+  retryAfterSeconds: number;          // 0 when allowed
+}
+
+/**
+ * Rolling request limit over a fixed duration, keyed per client
+ */
+export interface RequestWindow {
+  check(clientId: string, key: string, limit: number, now: number): Promise<WindowCheck>;
+  record(clientId: string, key: string, limit: number, now: number): Promise<void>;
+}
+
+/**
+ * Seconds from now until a timestamp, at least one second
+ */
+function secondsUntil(timestamp: number, now: number): number {
+  return Math.max(1, Math.ceil((timestamp - now) / 1000));
+}
+
+/**
+ * Sliding log: keeps the timestamp of every request in the window
+ * Exact, at the cost of one stored event per request
+ */
+export class SlidingLogWindow implements RequestWindow {
+  private store: UsageStore;
+  private windowMs: number;
+
+  constructor(store: UsageStore, windowMs: number) {
+    this.store = store;
+    this.windowMs = windowMs;
+  }
+
+  async check(clientId: string, key: string, limit: number, now: number): Promise<WindowCheck> {
+    const events = await this.store.getEvents(clientId, key, now - this.windowMs);
+
+    if (events.length < limit) {
+      return { allowed: true, remaining: limit - events.length, retryAfterSeconds: 0 };
+    }
+
+    // Enough of the oldest requests must leave the window to free one slot
+    const freeingEvent = events[events.length - limit] as number;
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: secondsUntil(freeingEvent + this.windowMs, now)
+    };
+  }
+
+  async record(clientId: string, key: string, _limit: number, now: number): Promise<void> {
+    await this.store.addEvent(clientId, key, now, Math.ceil(this.windowMs / 1000));
+  }
+}
+
+/**
+ * Sliding window counter: counts requests in fixed windows and weights the previous
+ * window by how much of it still overlaps the rolling window
+ */
+export class SlidingWindowCounter implements RequestWindow {
+  private store: UsageStore;
+  private windowMs: number;
+
+  constructor(store: UsageStore, windowMs: number) {
+    this.store = store;
+    this.windowMs = windowMs;
+  }
+
+  async check(clientId: string, key: string, limit: number, now: number): Promise<WindowCheck> {
+    const windowIndex = Math.floor(now / this.windowMs);
+    const windowStart = windowIndex * this.windowMs;
+    const currentKey = `${key}:${windowIndex}`;
+    const previousKey = `${key}:${windowIndex - 1}`;
+    const counters = await this.store.getCounters(clientId, [currentKey, previousKey]);
+
+    const current = counters[currentKey] || 0;
+    const previous = counters[previousKey] || 0;
+    const elapsed = (now - windowStart) / this.windowMs;
+    const estimate = previous * (1 - elapsed) + current;
+
+    if (estimate + 1 <= limit) {
+      return { allowed: true, remaining: Math.floor(limit - estimate), retryAfterSeconds: 0 };
+    }
+
+    // Find when the weighted estimate drops far enough to admit one more request
+    let allowedAt: number;
+    if (current + 1 <= limit) {
+      allowedAt = windowStart + (1 - (limit - 1 - current) / previous) * this.windowMs;
+    } else {
+      allowedAt = windowStart + this.windowMs + (1 - (limit - 1) / current) * this.windowMs;
+    }
+
+    return { allowed: false, remaining: 0, retryAfterSeconds: secondsUntil(allowedAt, now) };
+  }
+
+  async record(clientId: string, key: string, _limit: number, now: number): Promise<void> {
+    await this.store.increment(clientId, [{
+      key: `${key}:${Math.floor(now / this.windowMs)}`,
+      amount: 1,
+      ttlSeconds: Math.ceil((2 * this.windowMs) / 1000)
+    }]);
+  }
+}
+
+/**
+ * Token bucket: holds up to `limit` requests and refills at `limit` per window
+ * Stored as the used level and when it was written; a bucket idle for a whole window is full again
+ */
+export class TokenBucketWindow implements RequestWindow {
+  private store: UsageStore;
+  private windowMs: number;
+
+  constructor(store: UsageStore, windowMs: number) {
+    this.store = store;
+    this.windowMs = windowMs;
+  }
+
+  async check(clientId: string, key: string, limit: number, now: number): Promise<WindowCheck> {
+    const used = await this.getUsed(clientId, key, limit, now);
+
+    if (used + 1 <= limit) {
+      return { allowed: true, remaining: Math.floor(limit - used), retryAfterSeconds: 0 };
+    }
+
+    const refillPerMs = limit / this.windowMs;
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: secondsUntil(now + (used + 1 - limit) / refillPerMs, now)
+    };
+  }
+
+  async record(clientId: string, key: string, limit: number, now: number): Promise<void> {
+    const used = await this.getUsed(clientId, key, limit, now);
+    const ttlSeconds = Math.ceil(this.windowMs / 1000);
+
+    await this.store.setCounters(clientId, [
+      { key: `${key}:used`, value: used + 1, ttlSeconds },
+      { key: `${key}:at`, value: now, ttlSeconds }
+    ]);
+  }
+
+  private async getUsed(clientId: string, key: string, limit: number, now: number): Promise<number> {
+    const counters = await this.store.getCounters(clientId, [`${key}:used`, `${key}:at`]);
+    const used = counters[`${key}:used`] || 0;
+    const updatedAt = counters[`${key}:at`] || now;
+    const refilled = (Math.max(0, now - updatedAt) * limit) / this.windowMs;
+
+    return Math.max(0, used - refilled);
+  }
+}
+
+/**
+ * Create the request window for an algorithm
+ */
+export function createRequestWindow(
+  algorithm: RateLimitAlgorithm,
+  store: UsageStore,
+  windowMs: number
+): RequestWindow {
+  switch (algorithm) {
+    case 'sliding_log':
+      return new SlidingLogWindow(store, windowMs);
+    case 'token_bucket':
+      return new TokenBucketWindow(store, windowMs);
+    default:
+      return new SlidingWindowCounter(store, windowMs);
+  }
+}
+
+/**
+ * Wall-clock date and time of a timestamp in a timezone
+ */
+function getZonedParts(timestamp: number, timeZone: string): Record<string, number> {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(timestamp))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Offset of a timezone from UTC at a timestamp, in milliseconds
+ */
+function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = getZonedParts(timestamp, timeZone);
+  const wallClock = Date.UTC(
+    parts['year'] as number,
+    (parts['month'] as number) - 1,
+    parts['day'] as number,
+    parts['hour'] as number,
+    parts['minute'] as number,
+    parts['second'] as number
+  );
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of a timestamp in a timezone
+ */
+export function getLocalDate(timestamp: number, timeZone: string): string {
+  const parts = getZonedParts(timestamp, timeZone);
+  const pad = (value: number | undefined): string => String(value).padStart(2, '0');
+  return `${parts['year']}-${pad(parts['month'])}-${pad(parts['day'])}`;
+}
+
+/**
+ * Hour of the day (0-23) of a timestamp in a timezone
+ */
+export function getLocalHour(timestamp: number, timeZone: string): number {
+  return getZonedParts(timestamp, timeZone)['hour'] as number;
+}
+
+/**
+ * Timestamp of the next midnight in a timezone (handles daylight saving changes)
+ */
+export function getNextLocalMidnight(timestamp: number, timeZone: string): number {
+  const parts = getZonedParts(timestamp, timeZone);
+  const nextMidnightWallClock = Date.UTC(
+    parts['year'] as number,
+    (parts['month'] as number) - 1,
+    (parts['day'] as number) + 1
+  );
+
+  // Convert wall-clock midnight to UTC; re-check the offset in case it changes before midnight
+  let midnight = nextMidnightWallClock - getTimeZoneOffset(timestamp, timeZone);
+  midnight = nextMidnightWallClock - getTimeZoneOffset(midnight, timeZone);
+  return midnight;
+}
+
+/**
+ * Timestamp of the first midnight of the next month in a timezone
+ */
+export function getNextLocalMonthStart(timestamp: number, timeZone: string): number {
+  const month = getLocalDate(timestamp, timeZone).slice(0, 7);
+  let midnight = getNextLocalMidnight(timestamp, timeZone);
+  while (getLocalDate(midnight, timeZone).slice(0, 7) === month) {
+    midnight = getNextLocalMidnight(midnight, timeZone);
+  }
+  return midnight;
+}
@@ -1,109 +1,176 @@
 /**
  * Rate Limiter for OpenAI Deep Research MCP Server
- * Implements in-memory rate limiting with cost controls
+ * Implements per-client rate limiting with cost controls on top of a pluggable usage store.
+ * Cost budgets are hierarchical: a request must fit the daily and monthly budgets of its
+ * client, of its project and of all clients together.
  */
 
 import dotenv from 'dotenv';
-import type { RateLimitResult, RateLimitConfig, Logger } from '@/types';
+import type { BudgetCaps, ExhaustedBudget, RateLimitResult, RateLimitConfig, Logger } from '@/types';
+import { InMemoryUsageStore } from './usage-store.js';
+import type { UsageStore } from './usage-store.js';
+import { createRequestWindow, getLocalDate, getNextLocalMidnight, getNextLocalMonthStart } from './rate-limit-algorithms.js';
+import type { RequestWindow } from './rate-limit-algorithms.js';
 
 // Load environment variables
 dotenv.config();
 
-interface ClientUsage {
-  requestCounts: Map<string, number>; // timeWindow -> count
-  totalCost: number;
-  lastRequestTime: number;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * How long daily counters are kept (the current and previous local day)
+ */
+const DAY_COUNTER_TTL_SECONDS = 48 * 60 * 60;
+
+/**
+ * How long monthly spend counters are kept (the current and previous local month)
+ */
+const MONTH_COUNTER_TTL_SECONDS = 62 * 24 * 60 * 60;
+
+/**
+ * Seconds after which to retry a request rejected because the limits could not be checked
+ */
+const UNAVAILABLE_RETRY_SECONDS = 60;
+
+/**
+ * Usage store ids of the spend of all clients together and of each project
+ */
+const GLOBAL_SPEND_ID = '__global__';
+const PROJECT_SPEND_PREFIX = '__project__:';
+
+/**
+ * Lock serializing reservations while budgets shared between clients are enforced
+ */
+const SHARED_BUDGET_LOCK = '__shared_budgets__';
+
+/**
+ * Daily counters of the current local day for one client and accuracy level
+ */
+interface DailyCounters {
+  dailyRequests: number;          // Requests at this accuracy level today
+  totalDailyRequests: number;     // Requests at any accuracy level today
+  dailyTokens: number;            // Tokens used plus tokens reserved by running requests
+}
+
+/**
+ * One cost budget of a request and what has been spent (and reserved) against it
+ */
+export interface BudgetStatus {
+  scope: ExhaustedBudget['scope'];
+  id?: string;
+  period: ExhaustedBudget['period'];
+  limitUsd: number;
+  spentUsd: number;
+}
+
+/**
+ * Stored parts of a budget reservation, keyed by reservation id
+ */
+const RESERVATION_FIELDS = ['cost', 'tokens', 'at'] as const;
+
+/**
+ * What a client has left of each limit
+ */
+export interface RemainingQuota {
+  remaining: number;              // Requests left at this accuracy level (the tightest request limit)
+  dailyRemaining: number;         // Requests left under the overall daily cap
+  tokensRemaining: number;
+  costRemaining: number;          // What is left of the tightest cost budget
 }
 
 export class ResearchRateLimiter {
   private logger: Logger;
   private config: RateLimitConfig;
-  private clientUsage: Map<string, ClientUsage> = new Map();
+  private store: UsageStore;
+  private hourlyWindow: RequestWindow;
+  private timezone: string;
+  private clientLocks: Map<string, Promise<unknown>> = new Map();
   private cleanupInterval: NodeJS.Timeout;
 
-  constructor(config: RateLimitConfig, logger: Logger) {
+  constructor(config: RateLimitConfig, logger: Logger, store: UsageStore = new InMemoryUsageStore()) {
     this.config = config;
     this.logger = logger;
+    this.store = store;
+    this.hourlyWindow = createRequestWindow(config.algorithm || 'sliding_window', store, HOUR_MS);
+    this.timezone = config.reset_timezone || 'UTC';
     
     // Setup periodic cleanup of old entries
     this.cleanupInterval = setInterval(() => {
       this.cleanupOldEntries();
     }, 60000); // Cleanup every minute
+    this.cleanupInterval.unref();
     
-    this.logger.info('Rate limiter initialized with in-memory storage', {
+    this.logger.info('Rate limiter initialized', {
+      store: store.constructor.name,
+      algorithm: config.algorithm || 'sliding_window',
+      resetTimezone: this.timezone,
       requestsPerHour: config.requests_per_hour,
-      dailyCostLimit: config.daily_cost_limit_usd
+      dailyCostLimit: config.daily_cost_limit_usd,
+      monthlyCostLimit: config.monthly_cost_limit_usd,
+      globalBudget: config.global_budget,
+      projectBudgets: Object.keys(config.project_budgets || {}).length
     });
   }
 
   /**
    * Check if a client can make a request based on rate limits
+   * The estimated cost and tokens are checked against what is left of the client's,
+   * the project's and the global budgets
    */
   async checkRateLimit(
     clientId: string,
     accuracyLevel: "high" | "medium",
-    estimatedCost?: number
+    estimatedCost?: number,
+    estimatedTokens?: number,
+    projectId?: string
   ): Promise<RateLimitResult> {
     try {
       const now = Date.now();
-      const currentHour = Math.floor(now / (60 * 60 * 1000));
-      const currentDay = Math.floor(now / (24 * 60 * 60 * 1000));
-
-      // Get or create client usage
-      let usage = this.clientUsage.get(clientId);
-      if (!usage) {
-        usage = {
-          requestCounts: new Map(),
-          totalCost: 0,
-          lastRequestTime: now
-        };
-        this.clientUsage.set(clientId, usage);
-      }
-
-      // Check hourly rate limits
-      const hourKey = `hour:${currentHour}`;
-      const hourlyRequests = usage.requestCounts.get(hourKey) || 0;
-      
+      const today = getLocalDate(now, this.timezone);
       const hourlyLimit = this.getHourlyLimit(accuracyLevel);
-      if (hourlyRequests >= hourlyLimit) {
+      const hourly = await this.hourlyWindow.check(clientId, `hourly:${accuracyLevel}`, hourlyLimit, now);
+      const counters = await this.getDailyCounters(clientId, accuracyLevel, today);
+      const budgets = await this.getBudgets(clientId, projectId, today);
+      const remaining = this.getRemaining(accuracyLevel, hourly.remaining, counters, budgets);
+      const secondsUntilReset = this.getSecondsUntilDailyReset(now);
+
+      // Check the rolling hourly rate limit
+      if (!hourly.allowed) {
         this.logger.warn('Hourly rate limit exceeded', {
           clientId,
           accuracyLevel,
-          currentRequests: hourlyRequests,
-          limit: hourlyLimit
+          limit: hourlyLimit,
+          retryAfterSeconds: hourly.retryAfterSeconds
         });
 
         return {
           allowed: false,
           reason: 'hourly_limit',
-          retryAfter: (currentHour + 1) * 60 * 60 * 1000,
-          remaining: 0,
-          costRemaining: this.config.daily_cost_limit_usd - usage.totalCost
+          retryAfter: hourly.retryAfterSeconds,
+          ...remaining,
+          remaining: 0
         };
       }
 
-      // Check daily cost limits
-      const dailyCost = this.getDailyCost(usage, currentDay);
-      
-      if (estimatedCost && (dailyCost + estimatedCost) > this.config.daily_cost_limit_usd) {
-        this.logger.warn('Daily cost limit would be exceeded', {
+      // Check the overall daily request cap (all accuracy levels together)
+      if (counters.totalDailyRequests >= this.config.requests_per_day) {
+        this.logger.warn('Daily request cap exceeded', {
           clientId,
-          currentCost: dailyCost,
-          estimatedCost,
-          limit: this.config.daily_cost_limit_usd
+          currentRequests: counters.totalDailyRequests,
+          limit: this.config.requests_per_day
         });
 
         return {
           allowed: false,
-          reason: 'cost_limit',
-          retryAfter: (currentDay + 1) * 24 * 60 * 60 * 1000,
-          remaining: hourlyLimit - hourlyRequests,
-          costRemaining: Math.max(0, this.config.daily_cost_limit_usd - dailyCost)
+          reason: 'daily_request_limit',
+          retryAfter: secondsUntilReset,
+          ...remaining,
+          remaining: 0
         };
       }
 
       // Check daily request limits for accuracy level
-      const dailyRequests = this.getDailyRequests(usage, currentDay, accuracyLevel);
+      const dailyRequests = counters.dailyRequests;
       const dailyLimit = this.getDailyLimit(accuracyLevel);
       
       if (dailyRequests >= dailyLimit) {
@@ -117,86 +184,244 @@ export class ResearchRateLimiter {
         return {
           allowed: false,
           reason: 'daily_limit',
-          retryAfter: (currentDay + 1) * 24 * 60 * 60 * 1000,
-          remaining: 0,
-          costRemaining: Math.max(0, this.config.daily_cost_limit_usd - dailyCost)
+          retryAfter: secondsUntilReset,
+          ...remaining,
+          remaining: 0
         };
       }
 
-      // Allow the request
+      // Check the daily token budget
+      const dailyTokens = counters.dailyTokens;
+
+      if (dailyTokens + (estimatedTokens || 0) > this.config.tokens_per_day) {
+        this.logger.warn('Daily token limit would be exceeded', {
+          clientId,
+          currentTokens: dailyTokens,
+          estimatedTokens,
+          limit: this.config.tokens_per_day
+        });
+
+        return {
+          allowed: false,
+          reason: 'token_limit',
+          retryAfter: secondsUntilReset,
+          ...remaining
+        };
+      }
+
+      // Check every cost budget, from the client's own up to the global one
+      const exhausted = budgets.find(budget => estimatedCost && budget.spentUsd + estimatedCost > budget.limitUsd);
+
+      if (exhausted) {
+        const budget: ExhaustedBudget = {
+          scope: exhausted.scope,
+          period: exhausted.period,
+          limit_usd: exhausted.limitUsd,
+          spent_usd: parseFloat(exhausted.spentUsd.toFixed(6))
+        };
+        if (exhausted.id !== undefined) {
+          budget.id = exhausted.id;
+        }
+
+        this.logger.warn('Cost budget would be exceeded', {
+          clientId,
+          projectId,
+          ...budget,
+          estimatedCost
+        });
+
+        return {
+          allowed: false,
+          reason: 'cost_limit',
+          budget,
+          retryAfter: exhausted.period === 'daily'
+            ? secondsUntilReset
+            : Math.max(1, Math.ceil((getNextLocalMonthStart(now, this.timezone) - now) / 1000)),
+          ...remaining,
+          costRemaining: Math.max(0, exhausted.limitUsd - exhausted.spentUsd)
+        };
+      }
+
+      // Allow the request (the remaining counts include this request)
       return {
         allowed: true,
-        remaining: Math.min(
-          hourlyLimit - hourlyRequests - 1,
-          dailyLimit - dailyRequests - 1
-        ),
-        retryAfter: (currentHour + 1) * 60 * 60 * 1000,
-        costRemaining: Math.max(0, this.config.daily_cost_limit_usd - dailyCost)
+        remaining: remaining.remaining - 1,
+        dailyRemaining: remaining.dailyRemaining - 1,
+        costRemaining: remaining.costRemaining,
+        tokensRemaining: remaining.tokensRemaining
       };
 
     } catch (error) {
+      // Limits that cannot be checked are not enforced, so reject rather than let the request through
       this.logger.error('Rate limit check failed', { error, clientId });
-      // In case of error, allow the request but log it
-      return {
-        allowed: true,
-        remaining: 0,
-        retryAfter: Date.now() + 60 * 60 * 1000, // 1 hour from now
-        costRemaining: this.config.daily_cost_limit_usd
-      };
+      return this.getUnavailableResult();
     }
   }
 
   /**
-   * Record a completed request for rate limiting
+   * Check the limits and, if the request is allowed, reserve its estimated cost and tokens
+   * The request is counted right away and the reservation counts against the daily budgets
+   * until it is settled or released, so concurrent requests cannot overspend the same budget.
+   * Checks for one client are serialized across every process sharing the usage store (checks
+   * for all clients while project or global budgets are configured).
    */
-  async recordRequest(
+  async reserveBudget(
     clientId: string,
     accuracyLevel: "high" | "medium",
-    actualCost: number,
-    tokensUsed: number
-  ): Promise<void> {
+    estimatedCost: number,
+    estimatedTokens: number,
+    reservationId: string,
+    projectId?: string
+  ): Promise<RateLimitResult> {
     try {
-      const now = Date.now();
-      const currentHour = Math.floor(now / (60 * 60 * 1000));
-      const currentDay = Math.floor(now / (24 * 60 * 60 * 1000));
-
-      // Get or create client usage
-      let usage = this.clientUsage.get(clientId);
-      if (!usage) {
-        usage = {
-          requestCounts: new Map(),
-          totalCost: 0,
-          lastRequestTime: now
+      return await this.withReservationLock(clientId, async () => {
+        const result = await this.checkRateLimit(clientId, accuracyLevel, estimatedCost, estimatedTokens, projectId);
+        if (!result.allowed) {
+          return result;
+        }
+
+        try {
+          const now = Date.now();
+          const today = getLocalDate(now, this.timezone);
+
+          await this.hourlyWindow.record(clientId, `hourly:${accuracyLevel}`, this.getHourlyLimit(accuracyLevel), now);
+          await this.store.increment(clientId, [
+            { key: `day:${today}:${accuracyLevel}`, amount: 1, ttlSeconds: DAY_COUNTER_TTL_SECONDS },
+            { key: `requests:${today}`, amount: 1, ttlSeconds: DAY_COUNTER_TTL_SECONDS },
+            { key: `reserved_tokens:${today}`, amount: estimatedTokens, ttlSeconds: DAY_COUNTER_TTL_SECONDS }
+          ]);
+          await this.addSpend(clientId, projectId, 'reserved_cost', today, estimatedCost);
+          await this.store.setCounters(clientId, [
+            { key: `reservation:${reservationId}:cost`, value: estimatedCost, ttlSeconds: DAY_COUNTER_TTL_SECONDS },
+            { key: `reservation:${reservationId}:tokens`, value: estimatedTokens, ttlSeconds: DAY_COUNTER_TTL_SECONDS },
+            { key: `reservation:${reservationId}:at`, value: now, ttlSeconds: DAY_COUNTER_TTL_SECONDS }
+          ]);
+
+          this.logger.debug('Budget reserved', {
+            clientId,
+            reservationId,
+            accuracyLevel,
+            estimatedCost,
+            estimatedTokens
+          });
+        } catch (error) {
+          // A request whose reservation was not recorded would not count against the budgets
+          this.logger.error('Failed to reserve budget, rejecting the request', { error, clientId, reservationId });
+          return this.getUnavailableResult();
+        }
+
+        return {
+          ...result,
+          tokensRemaining: Math.max(0, (result.tokensRemaining ?? this.config.tokens_per_day) - estimatedTokens),
+          costRemaining: Math.max(0, (result.costRemaining ?? this.config.daily_cost_limit_usd) - estimatedCost)
         };
-        this.clientUsage.set(clientId, usage);
+      });
+    } catch (error) {
+      this.logger.error('Failed to lock the budgets, rejecting the request', { error, clientId, reservationId });
+      return this.getUnavailableResult();
+    }
+  }
+
+  /**
+   * Replace a reservation with the actual cost and tokens of the finished request
+   * Requests without a reservation (e.g. started before a restart with the in-memory store)
+   * are recorded as new requests instead. Returns the local day the cost was charged to,
+   * or undefined when nothing was charged
+   */
+  async settleReservation(
+    clientId: string,
+    accuracyLevel: "high" | "medium",
+    reservationId: string,
+    actualCost: number,
+    tokensUsed: number,
+    projectId?: string
+  ): Promise<string | undefined> {
+    return this.withReservationLock(clientId, async () => {
+      try {
+        const reservation = await this.takeReservation(clientId, reservationId);
+        if (reservation === 'closed') {
+          return undefined;
+        }
+        if (!reservation) {
+          const today = getLocalDate(Date.now(), this.timezone);
+          await this.recordRequest(clientId, accuracyLevel, actualCost, tokensUsed, projectId);
+          return today;
+        }
+
+        // Spend is charged to the day the budget was reserved on
+        await this.store.increment(clientId, [
+          { key: `reserved_tokens:${reservation.day}`, amount: -reservation.tokens, ttlSeconds: DAY_COUNTER_TTL_SECONDS },
+          { key: `tokens:${reservation.day}`, amount: tokensUsed, ttlSeconds: DAY_COUNTER_TTL_SECONDS }
+        ]);
+        await this.addSpend(clientId, projectId, 'reserved_cost', reservation.day, -reservation.cost);
+        await this.addSpend(clientId, projectId, 'cost', reservation.day, actualCost);
+
+        this.logger.debug('Budget reservation settled', {
+          clientId,
+          reservationId,
+          reservedCost: reservation.cost,
+          actualCost,
+          reservedTokens: reservation.tokens,
+          tokensUsed
+        });
+        return reservation.day;
+      } catch (error) {
+        this.logger.error('Failed to settle budget reservation', { error, clientId, reservationId });
+        return undefined;
       }
+    });
+  }
+
+  /**
+   * Give back a reservation for a request that never ran (the request itself stays counted)
+   */
+  async releaseReservation(clientId: string, reservationId: string, projectId?: string): Promise<void> {
+    await this.withReservationLock(clientId, async () => {
+      try {
+        const reservation = await this.takeReservation(clientId, reservationId);
+        if (!reservation || reservation === 'closed') {
+          return;
+        }
 
-      // Record hourly request
-      const hourKey = `hour:${currentHour}`;
-      const hourlyRequests = usage.requestCounts.get(hourKey) || 0;
-      usage.requestCounts.set(hourKey, hourlyRequests + 1);
+        await this.store.increment(clientId, [
+          { key: `reserved_tokens:${reservation.day}`, amount: -reservation.tokens, ttlSeconds: DAY_COUNTER_TTL_SECONDS }
+        ]);
+        await this.addSpend(clientId, projectId, 'reserved_cost', reservation.day, -reservation.cost);
 
-      // Record daily request for accuracy level
-      const dailyKey = `day:${currentDay}:${accuracyLevel}`;
-      const dailyRequests = usage.requestCounts.get(dailyKey) || 0;
-      usage.requestCounts.set(dailyKey, dailyRequests + 1);
+        this.logger.debug('Budget reservation released', { clientId, reservationId, reservedCost: reservation.cost });
+      } catch (error) {
+        this.logger.error('Failed to release budget reservation', { error, clientId, reservationId });
+      }
+    });
+  }
 
-      // Record cost
-      const costKey = `cost:${currentDay}`;
-      const dailyCost = usage.requestCounts.get(costKey) || 0;
-      usage.requestCounts.set(costKey, dailyCost + actualCost);
+  /**
+   * Record a completed request for rate limiting
+   */
+  async recordRequest(
+    clientId: string,
+    accuracyLevel: "high" | "medium",
+    actualCost: number,
+    tokensUsed: number,
+    projectId?: string
+  ): Promise<void> {
+    try {
+      const now = Date.now();
+      const today = getLocalDate(now, this.timezone);
 
-      // Update usage
-      usage.totalCost += actualCost;
-      usage.lastRequestTime = now;
+      await this.hourlyWindow.record(clientId, `hourly:${accuracyLevel}`, this.getHourlyLimit(accuracyLevel), now);
+      await this.store.increment(clientId, [
+        { key: `day:${today}:${accuracyLevel}`, amount: 1, ttlSeconds: DAY_COUNTER_TTL_SECONDS },
+        { key: `requests:${today}`, amount: 1, ttlSeconds: DAY_COUNTER_TTL_SECONDS },
+        { key: `tokens:${today}`, amount: tokensUsed, ttlSeconds: DAY_COUNTER_TTL_SECONDS }
+      ]);
+      await this.addSpend(clientId, projectId, 'cost', today, actualCost);
 
       this.logger.debug('Request recorded for rate limiting', {
         clientId,
         accuracyLevel,
         actualCost,
-        tokensUsed,
-        hourlyRequests: hourlyRequests + 1,
-        dailyRequests: dailyRequests + 1
+        tokensUsed
       });
 
     } catch (error) {
@@ -208,83 +433,313 @@ export class ResearchRateLimiter {
     }
   }
 
+  /**
+   * Get the requests, tokens and cost a client has left in the current windows,
+   * without counting a new request
+   */
+  async getRemainingQuota(
+    clientId: string,
+    accuracyLevel: "high" | "medium",
+    projectId?: string
+  ): Promise<RemainingQuota> {
+    const now = Date.now();
+    const today = getLocalDate(now, this.timezone);
+    const hourly = await this.hourlyWindow.check(
+      clientId,
+      `hourly:${accuracyLevel}`,
+      this.getHourlyLimit(accuracyLevel),
+      now
+    );
+    const counters = await this.getDailyCounters(clientId, accuracyLevel, today);
+    const budgets = await this.getBudgets(clientId, projectId, today);
+
+    return this.getRemaining(accuracyLevel, hourly.remaining, counters, budgets);
+  }
+
+  /**
+   * Get the actual spend, without outstanding reservations, against each configured cost
+   * budget of a request in the periods containing a local day
+   */
+  async getBudgetSpend(clientId: string, projectId: string | undefined, day: string): Promise<BudgetStatus[]> {
+    return this.getBudgets(clientId, projectId, day, false);
+  }
+
   /**
    * Get current usage statistics for a client
    */
   async getUsageStats(clientId: string): Promise<{
-    hourlyRequests: number;
+    dailyRequests: number;
+    dailyTokens: number;
     dailyCost: number;
+    reservedCost: number;
     highAccuracyRequests: number;
     mediumAccuracyRequests: number;
   }> {
-    const usage = this.clientUsage.get(clientId);
-    if (!usage) {
-      return {
-        hourlyRequests: 0,
-        dailyCost: 0,
-        highAccuracyRequests: 0,
-        mediumAccuracyRequests: 0
-      };
-    }
+    const today = getLocalDate(Date.now(), this.timezone);
+
+    const requestsKey = `requests:${today}`;
+    const tokensKey = `tokens:${today}`;
+    const costKey = `cost:${today}`;
+    const reservedCostKey = `reserved_cost:${today}`;
+    const highKey = `day:${today}:high`;
+    const mediumKey = `day:${today}:medium`;
+    const counters = await this.store.getCounters(
+      clientId,
+      [requestsKey, tokensKey, costKey, reservedCostKey, highKey, mediumKey]
+    );
 
-    const now = Date.now();
-    const currentHour = Math.floor(now / (60 * 60 * 1000));
-    const currentDay = Math.floor(now / (24 * 60 * 60 * 1000));
+    return {
+      dailyRequests: counters[requestsKey] || 0,
+      dailyTokens: counters[tokensKey] || 0,
+      dailyCost: counters[costKey] || 0,
+      reservedCost: Math.max(0, counters[reservedCostKey] || 0),
+      highAccuracyRequests: counters[highKey] || 0,
+      mediumAccuracyRequests: counters[mediumKey] || 0
+    };
+  }
 
-    const hourKey = `hour:${currentHour}`;
-    const costKey = `cost:${currentDay}`;
-    const highKey = `day:${currentDay}:high`;
-    const mediumKey = `day:${currentDay}:medium`;
+  /**
+   * Read the counters of a local day
+   */
+  private async getDailyCounters(
+    clientId: string,
+    accuracyLevel: "high" | "medium",
+    day: string
+  ): Promise<DailyCounters> {
+    const dailyKey = `day:${day}:${accuracyLevel}`;
+    const requestsKey = `requests:${day}`;
+    const tokensKey = `tokens:${day}`;
+    const reservedTokensKey = `reserved_tokens:${day}`;
+    const counters = await this.store.getCounters(
+      clientId,
+      [dailyKey, requestsKey, tokensKey, reservedTokensKey]
+    );
 
     return {
-      hourlyRequests: usage.requestCounts.get(hourKey) || 0,
-      dailyCost: usage.requestCounts.get(costKey) || 0,
-      highAccuracyRequests: usage.requestCounts.get(highKey) || 0,
-      mediumAccuracyRequests: usage.requestCounts.get(mediumKey) || 0
+      dailyRequests: counters[dailyKey] || 0,
+      totalDailyRequests: counters[requestsKey] || 0,
+      dailyTokens: (counters[tokensKey] || 0) + Math.max(0, counters[reservedTokensKey] || 0)
     };
   }
 
   /**
-   * Clean up old entries to prevent memory leaks
+   * Read the configured cost budgets of a request (client, then project, then global)
+   * with what has been spent, and unless told otherwise reserved, against each of them
    */
-  private cleanupOldEntries(): void {
-    const now = Date.now();
-    const cutoffTime = now - (48 * 60 * 60 * 1000); // Keep 48 hours of data
+  private async getBudgets(
+    clientId: string,
+    projectId: string | undefined,
+    day: string,
+    includeReserved = true
+  ): Promise<BudgetStatus[]> {
+    const clientCaps: BudgetCaps = { daily_usd: this.config.daily_cost_limit_usd };
+    if (this.config.monthly_cost_limit_usd) {
+      clientCaps.monthly_usd = this.config.monthly_cost_limit_usd;
+    }
 
-    for (const [clientId, usage] of this.clientUsage.entries()) {
-      if (usage.lastRequestTime < cutoffTime) {
-        // Remove very old client data
-        this.clientUsage.delete(clientId);
-        continue;
-      }
+    const levels: Array<{ scope: BudgetStatus['scope']; id?: string; storeId: string; caps: BudgetCaps | undefined }> = [
+      { scope: 'client', id: clientId, storeId: clientId, caps: clientCaps }
+    ];
+    if (projectId) {
+      levels.push({
+        scope: 'project',
+        id: projectId,
+        storeId: `${PROJECT_SPEND_PREFIX}${projectId}`,
+        caps: this.config.project_budgets?.[projectId] || this.config.project_budget
+      });
+    }
+    levels.push({ scope: 'global', storeId: GLOBAL_SPEND_ID, caps: this.config.global_budget });
+
+    const budgets: BudgetStatus[] = [];
+    for (const level of levels) {
+      for (const period of ['daily', 'monthly'] as const) {
+        const limitUsd = period === 'daily' ? level.caps?.daily_usd : level.caps?.monthly_usd;
+        if (!limitUsd) {
+          continue;
+        }
 
-      // Clean up old time windows within each client's data
-      const currentHour = Math.floor(now / (60 * 60 * 1000));
-      const currentDay = Math.floor(now / (24 * 60 * 60 * 1000));
-      
-      for (const [key] of usage.requestCounts.entries()) {
-        if (key.startsWith('hour:')) {
-          const hourStr = key.split(':')[1];
-          if (hourStr) {
-            const hour = parseInt(hourStr);
-            if (hour < currentHour - 1) { // Keep only current and previous hour
-              usage.requestCounts.delete(key);
-            }
-          }
-        } else if (key.startsWith('day:') || key.startsWith('cost:')) {
-          const dayStr = key.split(':')[1];
-          if (dayStr) {
-            const day = parseInt(dayStr);
-            if (day < currentDay - 1) { // Keep only current and previous day
-              usage.requestCounts.delete(key);
-            }
-          }
+        const [spentKey, reservedKey] = this.getSpendKeys(period, day);
+        const counters = await this.store.getCounters(level.storeId, [spentKey, reservedKey]);
+        const budget: BudgetStatus = {
+          scope: level.scope,
+          period,
+          limitUsd,
+          spentUsd: (counters[spentKey] || 0) + (includeReserved ? Math.max(0, counters[reservedKey] || 0) : 0)
+        };
+        if (level.id !== undefined) {
+          budget.id = level.id;
         }
+        budgets.push(budget);
       }
     }
 
-    this.logger.debug('Cleaned up old rate limiting entries', {
-      activeClients: this.clientUsage.size
+    return budgets;
+  }
+
+  /**
+   * Add spent or reserved cost to the daily and monthly counters of the client, its project
+   * and all clients together (spend is tracked even where no budget is configured)
+   */
+  private async addSpend(
+    clientId: string,
+    projectId: string | undefined,
+    kind: 'cost' | 'reserved_cost',
+    day: string,
+    amount: number
+  ): Promise<void> {
+    const storeIds = [clientId, GLOBAL_SPEND_ID];
+    if (projectId) {
+      storeIds.push(`${PROJECT_SPEND_PREFIX}${projectId}`);
+    }
+
+    for (const storeId of storeIds) {
+      await this.store.increment(storeId, [
+        { key: `${kind}:${day}`, amount, ttlSeconds: DAY_COUNTER_TTL_SECONDS },
+        { key: `${kind}_month:${day.slice(0, 7)}`, amount, ttlSeconds: MONTH_COUNTER_TTL_SECONDS }
+      ]);
+    }
+  }
+
+  /**
+   * Spent and reserved cost counter keys of the period containing a local day
+   */
+  private getSpendKeys(period: BudgetStatus['period'], day: string): [string, string] {
+    return period === 'daily'
+      ? [`cost:${day}`, `reserved_cost:${day}`]
+      : [`cost_month:${day.slice(0, 7)}`, `reserved_cost_month:${day.slice(0, 7)}`];
+  }
+
+  /**
+   * Result for a request rejected because the usage store could not be read or written
+   */
+  private getUnavailableResult(): RateLimitResult {
+    return {
+      allowed: false,
+      reason: 'limits_unavailable',
+      retryAfter: UNAVAILABLE_RETRY_SECONDS,
+      remaining: 0
+    };
+  }
+
+  /**
+   * Whether any budget is shared between clients
+   */
+  private hasSharedBudgets(): boolean {
+    const hasCaps = (caps?: BudgetCaps): boolean => !!(caps?.daily_usd || caps?.monthly_usd);
+    return hasCaps(this.config.global_budget)
+      || hasCaps(this.config.project_budget)
+      || Object.values(this.config.project_budgets || {}).some(hasCaps);
+  }
+
+  /**
+   * Lock that reserving, settling and releasing budget for the client run under
+   * Shared budgets are read and updated for every client, so all clients share one lock
+   * while they are configured
+   */
+  private getReservationLockId(clientId: string): string {
+    return this.hasSharedBudgets() ? SHARED_BUDGET_LOCK : clientId;
+  }
+
+  /**
+   * Run a check-and-update of the client's budgets under its reservation lock, held both
+   * in this process and in the usage store, so no other process sharing the store can
+   * check the same budgets until the update is written
+   */
+  private async withReservationLock<T>(clientId: string, task: () => Promise<T>): Promise<T> {
+    const lockId = this.getReservationLockId(clientId);
+    return this.withClientLock(lockId, () => this.store.withLock(`reservation:${lockId}`, task));
+  }
+
+  /**
+   * Read a reservation and mark it as used, so it is settled or released only once
+   * Returns 'closed' for a reservation that was already settled or released
+   */
+  private async takeReservation(
+    clientId: string,
+    reservationId: string
+  ): Promise<{ cost: number; tokens: number; day: string } | 'closed' | undefined> {
+    const keys = RESERVATION_FIELDS.map(field => `reservation:${reservationId}:${field}`);
+    const counters = await this.store.getCounters(clientId, keys);
+    const reservedAt = counters[`reservation:${reservationId}:at`] || 0;
+    if (reservedAt < 0) {
+      return 'closed';
+    }
+    if (!reservedAt) {
+      return undefined;
+    }
+
+    // A negative timestamp marks the reservation as closed
+    await this.store.setCounters(clientId, keys.map(key => ({
+      key,
+      value: key.endsWith(':at') ? -1 : 0,
+      ttlSeconds: DAY_COUNTER_TTL_SECONDS
+    })));
+
+    return {
+      cost: counters[`reservation:${reservationId}:cost`] || 0,
+      tokens: counters[`reservation:${reservationId}:tokens`] || 0,
+      day: getLocalDate(reservedAt, this.timezone)
+    };
+  }
+
+  /**
+   * Run checks and updates for one client one at a time
+   */
+  private async withClientLock<T>(clientId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.clientLocks.get(clientId) || Promise.resolve();
+    const run = previous.then(task, task);
+    const tail = run.catch(() => undefined);
+    this.clientLocks.set(clientId, tail);
+
+    try {
+      return await run;
+    } finally {
+      if (this.clientLocks.get(clientId) === tail) {
+        this.clientLocks.delete(clientId);
+      }
+    }
+  }
+
+  /**
+   * Work out what is left of each limit from the hourly window, the daily counters and the cost budgets
+   */
+  private getRemaining(
+    accuracyLevel: "high" | "medium",
+    hourlyRemaining: number,
+    counters: DailyCounters,
+    budgets: BudgetStatus[]
+  ): RemainingQuota {
+    const dailyRemaining = Math.max(0, this.config.requests_per_day - counters.totalDailyRequests);
+
+    return {
+      remaining: Math.max(0, Math.min(
+        hourlyRemaining,
+        this.getDailyLimit(accuracyLevel) - counters.dailyRequests,
+        dailyRemaining
+      )),
+      dailyRemaining,
+      tokensRemaining: Math.max(0, this.config.tokens_per_day - counters.dailyTokens),
+      costRemaining: Math.max(0, Math.min(...budgets.map(budget => budget.limitUsd - budget.spentUsd)))
+    };
+  }
+
+  /**
+   * Seconds until the daily limits reset at the next local midnight
+   */
+  private getSecondsUntilDailyReset(now: number): number {
+    return Math.max(1, Math.ceil((getNextLocalMidnight(now, this.timezone) - now) / 1000));
+  }
+
+  /**
+   * Clean up old entries to prevent unbounded growth of the store
+   */
+  private cleanupOldEntries(): void {
+    this.store.purgeExpired().then(() => {
+      this.logger.debug('Cleaned up old rate limiting entries');
+    }).catch(error => {
+      this.logger.warn('Failed to clean up old rate limiting entries', {
+        error: error instanceof Error ? error.message : String(error)
+      });
     });
   }
 
@@ -307,30 +762,14 @@ export class ResearchRateLimiter {
       : this.config.medium_accuracy_daily_limit;
   }
 
-  /**
-   * Get daily cost for a client
-   */
-  private getDailyCost(usage: ClientUsage, currentDay: number): number {
-    const costKey = `cost:${currentDay}`;
-    return usage.requestCounts.get(costKey) || 0;
-  }
-
-  /**
-   * Get daily requests for a specific accuracy level
-   */
-  private getDailyRequests(usage: ClientUsage, currentDay: number, accuracyLevel: "high" | "medium"): number {
-    const dailyKey = `day:${currentDay}:${accuracyLevel}`;
-    return usage.requestCounts.get(dailyKey) || 0;
-  }
-
   /**
    * Clean up resources when shutting down
    */
-  cleanup(): void {
+  async cleanup(): Promise<void> {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
     }
-    this.clientUsage.clear();
+    await this.store.close();
     this.logger.info('Rate limiter cleaned up');
   }
 }
@@ -342,7 +781,7 @@ export function createDefaultRateLimitConfig(): RateLimitConfig {
   return {
     requests_per_hour: parseInt(process.env.MAX_REQUESTS_PER_HOUR || '10'),
     requests_per_day: parseInt(process.env.MAX_REQUESTS_PER_DAY || '20'),
-    tokens_per_day: parseInt(process.env.MAX_TOKENS_PER_DAY || '100000'),
+    tokens_per_day: parseInt(process.env.MAX_TOKENS_PER_DAY || '1000000'),
     daily_cost_limit_usd: parseFloat(process.env.MAX_DAILY_COST_USD || '25.00'),
     high_accuracy_daily_limit: parseInt(process.env.HIGH_ACCURACY_DAILY_LIMIT || '8'),
     medium_accuracy_daily_limit: parseInt(process.env.MEDIUM_ACCURACY_DAILY_LIMIT || '15')
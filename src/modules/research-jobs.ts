@@ -0,0 +1,433 @@
+/**
+ * Background research jobs for OpenAI Deep Research MCP Server
+ * Submits research as background Responses API calls and tracks them until completion
+ */
+
+import type { Response as OpenAIResponse, ResponseUsage } from 'openai/resources/responses/responses';
+import type {
+  AccuracyDowngrade,
+  CostInfo,
+  DoDeepResearchRequest,
+  ResearchJob,
+  ResearchJobStatus,
+  Logger
+} from '@/types';
+import type { OpenAIDeepResearchClient } from './openai-client.js';
+import type { ResearchJobStore } from './job-store.js';
+import type { ResearchProgressListener } from './progress-reporter.js';
+import { describeResponseProgress } from './progress-reporter.js';
+
+/**
+ * Statuses after which a job will no longer change
+ */
+const TERMINAL_STATUSES: ResearchJobStatus[] = ['completed', 'failed', 'cancelled', 'incomplete'];
+
+/**
+ * Statuses of jobs still running on OpenAI's side
+ */
+const ACTIVE_STATUSES: ResearchJobStatus[] = ['queued', 'in_progress'];
+
+/**
+ * How often waitForCompletion polls OpenAI
+ */
+const WAIT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Options for waiting on a job
+ */
+export interface WaitForCompletionOptions {
+  timeoutMs: number;
+  onProgress?: ResearchProgressListener;
+  signal?: AbortSignal;              // Aborting cancels the job on OpenAI
+}
+
+/**
+ * Callback invoked once when a job reaches a terminal status
+ * usage and costInfo are the token usage and priced cost of the run, when a final response was retrieved
+ */
+export type ResearchJobFinishedListener = (
+  job: ResearchJob,
+  usage?: ResponseUsage,
+  costInfo?: CostInfo
+) => void | Promise<void>;
+
+/**
+ * Check whether a job status is final
+ */
+export function isTerminalStatus(status: ResearchJobStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+/**
+ * Generate a job id (callers can create one up front to reference the job before it starts)
+ */
+export function createJobId(): string {
+  return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Tracks background research jobs and their OpenAI responses
+ */
+export class ResearchJobManager {
+  private openaiClient: OpenAIDeepResearchClient;
+  private store: ResearchJobStore;
+  private logger: Logger;
+  private monitorInterval: NodeJS.Timeout | undefined;
+  private finishedListeners: ResearchJobFinishedListener[] = [];
+
+  constructor(openaiClient: OpenAIDeepResearchClient, store: ResearchJobStore, logger: Logger) {
+    this.openaiClient = openaiClient;
+    this.store = store;
+    this.logger = logger;
+  }
+
+  /**
+   * Register a listener for jobs reaching a terminal status (used for usage accounting)
+   */
+  onJobFinished(listener: ResearchJobFinishedListener): void {
+    this.finishedListeners.push(listener);
+  }
+
+  /**
+   * Submit a research request in background mode and register it as a job
+   * (with the accuracy downgrade that changed the request, if any)
+   */
+  async startJob(
+    request: DoDeepResearchRequest,
+    clientId: string,
+    signal?: AbortSignal,
+    jobId: string = createJobId(),
+    accuracyDowngrade?: AccuracyDowngrade
+  ): Promise<ResearchJob> {
+    this.logger.info('Starting background research job', {
+      job_id: jobId,
+      client_id: clientId,
+      accuracy_level: request.accuracy_level
+    });
+
+    const response = await this.openaiClient.submitResearch(request, true, signal);
+    const now = new Date().toISOString();
+
+    const job: ResearchJob = {
+      job_id: jobId,
+      client_id: clientId,
+      request,
+      model_used: this.openaiClient.getModelForAccuracy(request.accuracy_level),
+      status: 'queued',
+      openai_response_id: response.id,
+      created_at: now,
+      updated_at: now
+    };
+    if (accuracyDowngrade) {
+      job.accuracy_downgrade = accuracyDowngrade;
+    }
+
+    // Background responses can occasionally finish before the first poll
+    try {
+      await this.applyResponse(job, response);
+    } catch (error) {
+      // Nothing would track or bill a run whose job could not be stored, so stop it
+      this.logger.error('Failed to store research job, cancelling its OpenAI response', {
+        job_id: jobId,
+        response_id: response.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      try {
+        await this.openaiClient.cancelResearch(response.id);
+      } catch (cancelError) {
+        this.logger.error('Failed to cancel untracked research response', {
+          job_id: jobId,
+          response_id: response.id,
+          error: cancelError instanceof Error ? cancelError.message : String(cancelError)
+        });
+      }
+      throw error;
+    }
+
+    this.logger.info('✅ Background research job submitted', {
+      job_id: jobId,
+      response_id: response.id,
+      status: job.status
+    });
+
+    return job;
+  }
+
+  /**
+   * Get a job owned by the given client without contacting OpenAI
+   */
+  async getJob(jobId: string, clientId: string): Promise<ResearchJob | undefined> {
+    const job = await this.store.getJob(jobId);
+    if (!job || job.client_id !== clientId) {
+      return undefined;
+    }
+    return job;
+  }
+
+  /**
+   * Get a job and, if it is still running, refresh its state from OpenAI
+   */
+  async refreshJob(jobId: string, clientId: string): Promise<ResearchJob | undefined> {
+    const job = await this.getJob(jobId, clientId);
+    if (!job) {
+      return undefined;
+    }
+    return this.pollJob(job);
+  }
+
+  /**
+   * Poll a job until it reaches a terminal status or the timeout elapses
+   * Returns the job in whatever state it is in when waiting stops
+   */
+  async waitForCompletion(
+    jobId: string,
+    clientId: string,
+    options: WaitForCompletionOptions
+  ): Promise<ResearchJob | undefined> {
+    const { timeoutMs, onProgress, signal } = options;
+    const deadline = Date.now() + timeoutMs;
+
+    let job = await this.getJob(jobId, clientId);
+    while (job && !isTerminalStatus(job.status)) {
+      if (signal?.aborted) {
+        this.logger.info('Research wait aborted by client, cancelling job', { job_id: jobId });
+        return this.cancelJob(jobId, clientId);
+      }
+
+      job = await this.pollJob(job, onProgress);
+      if (isTerminalStatus(job.status) || Date.now() >= deadline) {
+        break;
+      }
+
+      await this.sleep(Math.min(WAIT_POLL_INTERVAL_MS, deadline - Date.now()), signal);
+    }
+
+    return job;
+  }
+
+  /**
+   * Cancel a running job
+   * If OpenAI refuses the cancellation (e.g. the run just finished), the job is refreshed
+   * and returned in whatever state the run is in
+   */
+  async cancelJob(jobId: string, clientId: string): Promise<ResearchJob | undefined> {
+    let job = await this.getJob(jobId, clientId);
+    if (!job || isTerminalStatus(job.status)) {
+      return job;
+    }
+
+    let cancelRefused = false;
+    if (job.openai_response_id) {
+      try {
+        await this.openaiClient.cancelResearch(job.openai_response_id);
+      } catch (error) {
+        cancelRefused = true;
+        this.logger.warn('OpenAI did not cancel the research response', {
+          job_id: jobId,
+          response_id: job.openai_response_id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      // Pick up the usage billed so far (or the result, if the run finished first)
+      try {
+        const response = await this.openaiClient.retrieveResearch(job.openai_response_id);
+        job = await this.applyResponse(job, response);
+      } catch (error) {
+        this.logger.warn('Failed to retrieve cancelled research response', {
+          job_id: jobId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    if (!isTerminalStatus(job.status) && !cancelRefused) {
+      const now = new Date().toISOString();
+      job.status = 'cancelled';
+      job.updated_at = now;
+      job.completed_at = now;
+      if (await this.store.saveJob(job)) {
+        await this.notifyJobFinished(job);
+      } else {
+        job = (await this.store.getJob(jobId)) ?? job;
+      }
+    }
+
+    this.logger.info('Background research job cancelled', {
+      job_id: jobId,
+      response_id: job.openai_response_id,
+      status: job.status,
+      cost_usd: job.cost_usd
+    });
+
+    return job;
+  }
+
+  /**
+   * Re-attach to jobs that were still running when the server last stopped
+   * and keep polling them in the background so results are stored even if no client asks
+   */
+  async resumeActiveJobs(pollIntervalSeconds: number): Promise<number> {
+    const activeJobs = await this.store.listJobsByStatus(ACTIVE_STATUSES);
+
+    this.logger.info('Re-attaching to active research jobs', {
+      active_jobs: activeJobs.length
+    });
+
+    await this.pollActiveJobs();
+
+    if (!this.monitorInterval) {
+      this.monitorInterval = setInterval(() => {
+        void this.pollActiveJobs();
+      }, pollIntervalSeconds * 1000);
+      this.monitorInterval.unref();
+    }
+
+    return activeJobs.length;
+  }
+
+  /**
+   * Stop background polling and close the job store
+   */
+  async stop(): Promise<void> {
+    if (this.monitorInterval) {
+      clearInterval(this.monitorInterval);
+      this.monitorInterval = undefined;
+    }
+    await this.store.close();
+  }
+
+  /**
+   * Wait for the given time, returning early if the signal is aborted
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, Math.max(0, ms));
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Refresh every active job from OpenAI
+   */
+  private async pollActiveJobs(): Promise<void> {
+    try {
+      const activeJobs = await this.store.listJobsByStatus(ACTIVE_STATUSES);
+      for (const job of activeJobs) {
+        try {
+          await this.pollJob(job);
+        } catch (error) {
+          this.logger.warn('Failed to refresh research job', {
+            job_id: job.job_id,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to poll active research jobs', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Retrieve the latest OpenAI state of a running job
+   */
+  private async pollJob(job: ResearchJob, onProgress?: ResearchProgressListener): Promise<ResearchJob> {
+    if (isTerminalStatus(job.status) || !job.openai_response_id) {
+      return job;
+    }
+
+    const response = await this.openaiClient.retrieveResearch(job.openai_response_id);
+    onProgress?.(describeResponseProgress(response));
+    return this.applyResponse(job, response);
+  }
+
+  /**
+   * Update and persist a job from the latest state of its OpenAI response
+   * Several callers can poll the same job at once; only the one whose update finishes the job
+   * in the store notifies the listeners, the others get the stored job back
+   */
+  private async applyResponse(job: ResearchJob, response: OpenAIResponse): Promise<ResearchJob> {
+    const now = new Date().toISOString();
+    let costInfo: CostInfo | undefined;
+    job.status = response.status || job.status;
+    job.updated_at = now;
+
+    if (isTerminalStatus(job.status)) {
+      job.completed_at = now;
+
+      if (job.status === 'completed') {
+        try {
+          const result = this.openaiClient.buildResearchResponse(job.request, response);
+          result.request_id = job.job_id;
+          result.execution_time_seconds =
+            (new Date(now).getTime() - new Date(job.created_at).getTime()) / 1000;
+          job.result = result;
+          costInfo = result.cost_info;
+          job.cost_usd = costInfo.estimated_cost_usd;
+        } catch (error) {
+          job.status = 'failed';
+          job.error = `Failed to process research result: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      } else {
+        // Failed, incomplete and cancelled runs are still billed for the tokens used so far
+        costInfo = this.openaiClient.calculateCosts(job.request.accuracy_level, response.usage, response.output);
+        job.cost_usd = costInfo.estimated_cost_usd;
+
+        if (job.status === 'failed') {
+          job.error = response.error?.message || 'OpenAI Deep Research failed';
+        } else if (job.status === 'incomplete') {
+          job.error = `OpenAI Deep Research response incomplete: ${response.incomplete_details?.reason || 'unknown reason'}`;
+        } else if (job.status === 'cancelled') {
+          job.error = 'Research was cancelled';
+        }
+      }
+    }
+
+    if (!await this.store.saveJob(job)) {
+      return (await this.store.getJob(job.job_id)) ?? job;
+    }
+
+    if (isTerminalStatus(job.status)) {
+      this.logger.info('Background research job finished', {
+        job_id: job.job_id,
+        status: job.status,
+        cost_usd: job.cost_usd,
+        error: job.error
+      });
+      await this.notifyJobFinished(job, response.usage, costInfo);
+    }
+
+    return job;
+  }
+
+  /**
+   * Tell the finished-job listeners about a job that reached a terminal status
+   */
+  private async notifyJobFinished(job: ResearchJob, usage?: ResponseUsage, costInfo?: CostInfo): Promise<void> {
+    for (const listener of this.finishedListeners) {
+      try {
+        await listener(job, usage, costInfo);
+      } catch (error) {
+        this.logger.error('Research job finished listener failed', {
+          job_id: job.job_id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+}
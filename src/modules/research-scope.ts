@@ -0,0 +1,156 @@
+/**
+ * Research scope for OpenAI Deep Research MCP Server
+ * Turns time_range, domain_focus, excluded_domains and user_location into
+ * research instructions and web search tool configuration
+ */
+
+import type { WebSearchTool } from 'openai/resources/responses/responses';
+import type { DoDeepResearchRequest, ResearchScopeApplied } from '@/types';
+
+/**
+ * Source categories accepted in domain_focus, with the guidance given to the model
+ */
+export const DOMAIN_CATEGORIES: Record<string, string> = {
+  academic: 'peer-reviewed journals, university publications and preprint servers',
+  news: 'established news organizations and wire services',
+  technical: 'official documentation, standards bodies and engineering blogs',
+  government: 'government agencies, regulators and official statistics',
+  industry: 'company filings, trade publications and analyst reports'
+};
+
+/**
+ * Host name made of at least two dot-separated labels (e.g. nature.com, docs.python.org)
+ */
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * Web search tool with domain filters; filters are only available on the `web_search`
+ * tool type, which the installed SDK does not type yet
+ */
+export interface DomainFilteredWebSearchTool extends Omit<WebSearchTool, 'type'> {
+  type: 'web_search';
+  filters: {
+    allowed_domains: string[];
+  };
+}
+
+/**
+ * Everything the scope contributes to a Responses API call
+ */
+export interface ResearchScope {
+  instructions: string[];             // Instruction lines for the model
+  webSearchTool: WebSearchTool | DomainFilteredWebSearchTool;
+  applied?: ResearchScopeApplied;     // Undefined when the request has no scope controls
+}
+
+/**
+ * Check whether a domain_focus entry names a source category
+ */
+export function isDomainCategory(value: string): boolean {
+  return Object.prototype.hasOwnProperty.call(DOMAIN_CATEGORIES, value.trim().toLowerCase());
+}
+
+/**
+ * Reduce a domain or URL to its bare host name ("https://www.Nature.com/x" -> "nature.com")
+ */
+export function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/^www\./, '');
+}
+
+/**
+ * Check whether a value is a domain name (a scheme or path is tolerated and stripped)
+ */
+export function isValidDomain(value: string): boolean {
+  return DOMAIN_PATTERN.test(normalizeDomain(value));
+}
+
+/**
+ * Format an ISO datetime as a calendar date for the instructions
+ */
+function formatDate(value: string): string {
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+/**
+ * Build the instructions, web search tool and applied-scope summary for a request
+ */
+export function buildResearchScope(request: DoDeepResearchRequest): ResearchScope {
+  const instructions: string[] = [];
+  const applied: ResearchScopeApplied = {};
+  let webSearchTool: WebSearchTool | DomainFilteredWebSearchTool = { type: 'web_search_preview' };
+
+  // Time range
+  const startDate = request.time_range?.start_date;
+  const endDate = request.time_range?.end_date;
+  if (startDate || endDate) {
+    applied.time_range = {};
+    if (startDate) applied.time_range.start_date = startDate;
+    if (endDate) applied.time_range.end_date = endDate;
+
+    if (startDate && endDate) {
+      instructions.push(`Only use sources published between ${formatDate(startDate)} and ${formatDate(endDate)}, and say when a key fact comes from outside that window.`);
+    } else if (startDate) {
+      instructions.push(`Only use sources published on or after ${formatDate(startDate)}, and say when a key fact comes from an older source.`);
+    } else if (endDate) {
+      instructions.push(`Only use sources published on or before ${formatDate(endDate)}; ignore later developments.`);
+    }
+  }
+
+  // Domain focus: entries are either source categories or domain names
+  const categories: string[] = [];
+  const allowedDomains: string[] = [];
+  for (const entry of request.domain_focus || []) {
+    if (isDomainCategory(entry)) {
+      const category = entry.trim().toLowerCase();
+      if (!categories.includes(category)) categories.push(category);
+    } else {
+      const domain = normalizeDomain(entry);
+      if (!allowedDomains.includes(domain)) allowedDomains.push(domain);
+    }
+  }
+
+  if (categories.length > 0) {
+    applied.domain_categories = categories;
+    const descriptions = categories.map(category => `${category} (${DOMAIN_CATEGORIES[category]})`);
+    instructions.push(`Prioritize these kinds of sources: ${descriptions.join('; ')}.`);
+  }
+
+  if (allowedDomains.length > 0) {
+    applied.allowed_domains = allowedDomains;
+    webSearchTool = { type: 'web_search', filters: { allowed_domains: allowedDomains } };
+    instructions.push(`Only search and cite these domains: ${allowedDomains.join(', ')}.`);
+  }
+
+  // Excluded domains: the web search tool only supports allow lists, so these are only asked of the
+  // model in the instructions (best effort)
+  const blockedDomains = Array.from(new Set((request.excluded_domains || []).map(normalizeDomain)));
+  if (blockedDomains.length > 0) {
+    applied.blocked_domains = blockedDomains;
+    instructions.push(`Do not search, open or cite these domains: ${blockedDomains.join(', ')}.`);
+  }
+
+  // User location
+  const location = request.user_location;
+  if (location && (location.country || location.region || location.city || location.timezone)) {
+    webSearchTool.user_location = { type: 'approximate' };
+    applied.user_location = {};
+    if (location.country) webSearchTool.user_location.country = applied.user_location.country = location.country;
+    if (location.region) webSearchTool.user_location.region = applied.user_location.region = location.region;
+    if (location.city) webSearchTool.user_location.city = applied.user_location.city = location.city;
+    if (location.timezone) webSearchTool.user_location.timezone = applied.user_location.timezone = location.timezone;
+  }
+
+  const scope: ResearchScope = {
+    instructions,
+    webSearchTool
+  };
+  if (Object.keys(applied).length > 0) {
+    scope.applied = applied;
+  }
+  return scope;
+}
@@ -0,0 +1,90 @@
+/**
+ * Research trace extraction for OpenAI Deep Research MCP Server
+ * Lists the web search actions the research model took and the reasoning summaries it produced
+ */
+
+import type { ResponseOutputItem } from 'openai/resources/responses/responses';
+import type { ResearchTraceEntry } from '@/types';
+
+/**
+ * Action payload of a web_search_call item
+ * (returned by the API for deep research models but not yet typed by the SDK)
+ */
+interface WebSearchAction {
+  type?: string;
+  query?: string;
+  url?: string;
+  pattern?: string;
+}
+
+/**
+ * Read the action of a web_search_call item, if it has one
+ */
+function getWebSearchAction(item: ResponseOutputItem): WebSearchAction | undefined {
+  const action = (item as { action?: unknown }).action;
+  return action && typeof action === 'object' ? (action as WebSearchAction) : undefined;
+}
+
+/**
+ * Build the ordered list of search queries, page opens and find-in-page actions
+ */
+export function extractResearchTrace(output: ResponseOutputItem[] | undefined): ResearchTraceEntry[] {
+  const trace: ResearchTraceEntry[] = [];
+
+  for (const item of output || []) {
+    if (item.type !== 'web_search_call') {
+      continue;
+    }
+
+    const action = getWebSearchAction(item);
+    const entry: ResearchTraceEntry = {
+      step: trace.length + 1,
+      id: item.id,
+      action: 'unknown',
+      status: item.status
+    };
+
+    switch (action?.type) {
+      case 'search':
+        entry.action = 'search';
+        if (action.query) entry.query = action.query;
+        break;
+      case 'open_page':
+        entry.action = 'open_page';
+        if (action.url) entry.url = action.url;
+        break;
+      case 'find_in_page':
+      case 'find':
+        entry.action = 'find_in_page';
+        if (action.url) entry.url = action.url;
+        if (action.pattern) entry.pattern = action.pattern;
+        break;
+    }
+
+    trace.push(entry);
+  }
+
+  return trace;
+}
+
+/**
+ * Collect the reasoning summary texts, in order, from reasoning output items
+ */
+export function extractReasoningSummary(output: ResponseOutputItem[] | undefined): string[] {
+  const summaries: string[] = [];
+
+  for (const item of output || []) {
+    if (item.type !== 'reasoning' || !Array.isArray(item.summary)) {
+      continue;
+    }
+
+    for (const part of item.summary) {
+      const text = part.text?.trim();
+      if (text) {
+        summaries.push(text);
+      }
+    }
+  }
+
+  return summaries;
+}
@@ -0,0 +1,211 @@
+/**
+ * Response format rendering for OpenAI Deep Research MCP Server
+ * Tells the model which shape to write in and enforces that shape on the returned report
+ */
+
+import type { Citation, DoDeepResearchRequest } from '@/types';
+
+export type ResponseFormat = DoDeepResearchRequest['response_format'];
+
+/**
+ * Word budget for the 'summary' format
+ */
+export const SUMMARY_MAX_WORDS = 250;
+
+/**
+ * Maximum number of bullets for the 'bullet_points' format
+ */
+export const MAX_BULLET_POINTS = 20;
+
+/**
+ * Instructions sent to the model for each format
+ */
+const FORMAT_INSTRUCTIONS: Record<ResponseFormat, string> = {
+  comprehensive: 'Write a comprehensive research report in Markdown. Start with a short overview paragraph, organize the findings under "## " section headings, and end with a "## Conclusion" section.',
+  summary: `Write a concise summary of the findings as plain prose of at most ${SUMMARY_MAX_WORDS} words. Do not use headings, tables or lists.`,
+  bullet_points: `Present the findings as a Markdown bullet list of at most ${MAX_BULLET_POINTS} items, one finding per line starting with "- ". Do not add headings or paragraphs outside the list.`
+};
+
+const HEADING_PATTERN = /^\s*#{1,6}\s+/;
+const SECTION_HEADING_PATTERN = /^\s*#{2,6}\s+\S/m;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+•]|\d+[.)])\s+/;
+const TABLE_LINE_PATTERN = /^\s*\|/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+/**
+ * Get the model instructions for a response format
+ */
+export function getFormatInstructions(format: ResponseFormat | undefined): string {
+  return FORMAT_INSTRUCTIONS[format || 'comprehensive'];
+}
+
+/**
+ * Enforce the requested shape on the report returned by the model
+ */
+export function renderResearchOutput(content: string, format: ResponseFormat | undefined): string {
+  switch (format || 'comprehensive') {
+    case 'summary':
+      return renderSummary(content);
+    case 'bullet_points':
+      return renderBulletPoints(content);
+    default:
+      return renderComprehensive(content);
+  }
+}
+
+/**
+ * Point citation offsets at the rendered report
+ * Citations whose span did not survive rendering keep the source but get offsets of -1
+ */
+export function relocateCitations(citations: Citation[], renderedText: string): Citation[] {
+  let searchFrom = 0;
+
+  return citations.map(citation => {
+    let start = renderedText.indexOf(citation.quoted_text, searchFrom);
+    if (start === -1) {
+      start = renderedText.indexOf(citation.quoted_text);
+    }
+    if (start === -1 || !citation.quoted_text) {
+      return { ...citation, start_index: -1, end_index: -1 };
+    }
+
+    searchFrom = start + citation.quoted_text.length;
+    return { ...citation, start_index: start, end_index: start + citation.quoted_text.length };
+  });
+}
+
+/**
+ * Comprehensive: a report with section headings, added when the model wrote none
+ */
+function renderComprehensive(content: string): string {
+  const text = content.trim();
+  if (SECTION_HEADING_PATTERN.test(text)) {
+    return text;
+  }
+
+  const paragraphs = text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  const title = paragraphs[0] && /^#\s+/.test(paragraphs[0]) ? paragraphs.shift() : undefined;
+  const [overview, ...findings] = paragraphs;
+
+  const sections: string[] = [];
+  if (title) sections.push(title);
+  if (overview) sections.push(`## Overview\n\n${overview}`);
+  if (findings.length > 0) sections.push(`## Findings\n\n${findings.join('\n\n')}`);
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Summary: heading-free prose paragraphs within the word budget
+ */
+function renderSummary(content: string): string {
+  const paragraphs = toProseParagraphs(content);
+  const kept: string[] = [];
+  let wordCount = 0;
+
+  for (const paragraph of paragraphs) {
+    const sentences: string[] = [];
+
+    for (const sentence of splitSentences(paragraph)) {
+      const words = countWords(sentence);
+      if (wordCount + words > SUMMARY_MAX_WORDS) {
+        // Always return something, even if the first sentence alone is over budget
+        if (wordCount === 0) {
+          sentences.push(`${sentence.split(/\s+/).slice(0, SUMMARY_MAX_WORDS).join(' ')}…`);
+        }
+        if (sentences.length > 0) kept.push(sentences.join(' '));
+        return kept.join('\n\n');
+      }
+      sentences.push(sentence);
+      wordCount += words;
+    }
+
+    if (sentences.length > 0) kept.push(sentences.join(' '));
+  }
+
+  return kept.join('\n\n');
+}
+
+/**
+ * Bullet points: one finding per "- " line; list items are kept and prose is split into sentences
+ */
+function renderBulletPoints(content: string): string {
+  const bullets: string[] = [];
+  let prose: string[] = [];
+
+  const flushProse = (): void => {
+    if (prose.length > 0) {
+      bullets.push(...splitSentences(prose.join(' ')));
+      prose = [];
+    }
+  };
+
+  for (const line of content.split('\n')) {
+    if (!line.trim() || HEADING_PATTERN.test(line) || TABLE_LINE_PATTERN.test(line) || RULE_PATTERN.test(line)) {
+      flushProse();
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      flushProse();
+      bullets.push(line.replace(LIST_ITEM_PATTERN, '').trim());
+    } else if (/^\s+/.test(line) && bullets.length > 0 && prose.length === 0) {
+      // Indented continuation of the previous list item
+      bullets[bullets.length - 1] += ` ${line.trim()}`;
+    } else {
+      prose.push(line.trim());
+    }
+  }
+  flushProse();
+
+  return bullets
+    .filter(Boolean)
+    .slice(0, MAX_BULLET_POINTS)
+    .map(bullet => `- ${bullet}`)
+    .join('\n');
+}
+
+/**
+ * Turn markdown into prose paragraphs: headings, tables and rules are dropped, list items become sentences
+ */
+function toProseParagraphs(content: string): string[] {
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+
+  const flush = (): void => {
+    if (current.length > 0) {
+      paragraphs.push(current.join(' '));
+      current = [];
+    }
+  };
+
+  for (const line of content.split('\n')) {
+    if (!line.trim() || HEADING_PATTERN.test(line) || TABLE_LINE_PATTERN.test(line) || RULE_PATTERN.test(line)) {
+      flush();
+      continue;
+    }
+
+    let text = line.replace(LIST_ITEM_PATTERN, '').trim();
+    if (LIST_ITEM_PATTERN.test(line) && !/[.!?:;]$/.test(text)) {
+      text += '.';
+    }
+    current.push(text);
+  }
+  flush();
+
+  return paragraphs;
+}
+
+/**
+ * Split prose into sentences without breaking inside markdown links
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"“(\[])/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
@@ -0,0 +1,297 @@
+/**
+ * Spend ledger for OpenAI Deep Research MCP Server
+ * Records every finished research run with its tokens, cost breakdown and duration
+ */
+
+import fs from 'fs';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import type { ResponseUsage } from 'openai/resources/responses/responses';
+import type { CostInfo, LedgerEntry, Logger, ResearchJob, TokenUsage } from '@/types';
+
+/**
+ * Filter for reading the ledger (timestamps are ISO 8601, compared with finished_at)
+ */
+export interface LedgerFilter {
+  clientId?: string;
+  from?: string;                      // Inclusive
+  to?: string;                        // Exclusive
+}
+
+/**
+ * Storage backend for the spend ledger
+ */
+export interface SpendLedger {
+  initialize(): Promise<void>;
+  record(entry: LedgerEntry): Promise<void>;
+  list(filter?: LedgerFilter): Promise<LedgerEntry[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Row layout of the spend_ledger table
+ */
+interface LedgerRow {
+  job_id: string;
+  client_id: string;
+  model_used: string;
+  accuracy_level: LedgerEntry['accuracy_level'];
+  template: string | null;
+  status: LedgerEntry['status'];
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  cost_breakdown_json: string | null;
+  duration_seconds: number;
+  research_confidence: number | null;
+  started_at: string;
+  finished_at: string;
+}
+
+/**
+ * Check whether an entry matches a filter
+ */
+function matchesFilter(entry: LedgerEntry, filter: LedgerFilter): boolean {
+  return (!filter.clientId || entry.client_id === filter.clientId)
+    && (!filter.from || entry.finished_at >= filter.from)
+    && (!filter.to || entry.finished_at < filter.to);
+}
+
+/**
+ * In-memory ledger (entries are lost on restart)
+ */
+export class InMemorySpendLedger implements SpendLedger {
+  private entries: Map<string, LedgerEntry> = new Map();
+
+  async initialize(): Promise<void> {
+    // Nothing to initialize
+  }
+
+  async record(entry: LedgerEntry): Promise<void> {
+    this.entries.set(entry.job_id, { ...entry });
+  }
+
+  async list(filter: LedgerFilter = {}): Promise<LedgerEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => matchesFilter(entry, filter))
+      .sort((a, b) => a.finished_at.localeCompare(b.finished_at))
+      .map(entry => ({ ...entry }));
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * SQLite-backed ledger
+ */
+export class SQLiteSpendLedger implements SpendLedger {
+  private db: sqlite3.Database | undefined;
+  private filename: string;
+  private logger: Logger;
+
+  constructor(filename: string, logger: Logger) {
+    this.filename = filename;
+    this.logger = logger;
+  }
+
+  /**
+   * Open the database and create the schema if needed
+   */
+  async initialize(): Promise<void> {
+    if (this.filename !== ':memory:') {
+      const dir = path.dirname(path.resolve(this.filename));
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+    }
+
+    this.db = await new Promise<sqlite3.Database>((resolve, reject) => {
+      const db = new sqlite3.Database(this.filename, error => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(db);
+        }
+      });
+    });
+
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS spend_ledger (
+        job_id TEXT PRIMARY KEY,
+        client_id TEXT NOT NULL,
+        model_used TEXT NOT NULL,
+        accuracy_level TEXT NOT NULL,
+        template TEXT,
+        status TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        total_tokens INTEGER NOT NULL,
+        cost_usd REAL NOT NULL,
+        cost_breakdown_json TEXT,
+        duration_seconds REAL NOT NULL,
+        research_confidence REAL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT NOT NULL
+      )
+    `);
+    await this.run('CREATE INDEX IF NOT EXISTS idx_spend_ledger_finished_at ON spend_ledger (finished_at)');
+
+    this.logger.info('SQLite spend ledger initialized', { filename: this.filename });
+  }
+
+  async record(entry: LedgerEntry): Promise<void> {
+    await this.run(
+      `INSERT OR REPLACE INTO spend_ledger (
+        job_id, client_id, model_used, accuracy_level, template, status,
+        input_tokens, output_tokens, total_tokens, cost_usd, cost_breakdown_json,
+        duration_seconds, research_confidence, started_at, finished_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.job_id,
+        entry.client_id,
+        entry.model_used,
+        entry.accuracy_level,
+        entry.template ?? null,
+        entry.status,
+        entry.token_usage.input_tokens,
+        entry.token_usage.output_tokens,
+        entry.token_usage.total_tokens,
+        entry.cost_usd,
+        entry.cost_breakdown ? JSON.stringify(entry.cost_breakdown) : null,
+        entry.duration_seconds,
+        entry.research_confidence ?? null,
+        entry.started_at,
+        entry.finished_at
+      ]
+    );
+  }
+
+  async list(filter: LedgerFilter = {}): Promise<LedgerEntry[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.clientId) {
+      conditions.push('client_id = ?');
+      params.push(filter.clientId);
+    }
+    if (filter.from) {
+      conditions.push('finished_at >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push('finished_at < ?');
+      params.push(filter.to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await this.all<LedgerRow>(`SELECT * FROM spend_ledger ${where} ORDER BY finished_at`, params);
+    return rows.map(row => this.rowToEntry(row));
+  }
+
+  async close(): Promise<void> {
+    const db = this.db;
+    if (!db) {
+      return;
+    }
+
+    this.db = undefined;
+    await new Promise<void>((resolve, reject) => {
+      db.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Convert a database row back into a ledger entry
+   */
+  private rowToEntry(row: LedgerRow): LedgerEntry {
+    const entry: LedgerEntry = {
+      job_id: row.job_id,
+      client_id: row.client_id,
+      model_used: row.model_used,
+      accuracy_level: row.accuracy_level,
+      status: row.status,
+      token_usage: {
+        input_tokens: row.input_tokens,
+        output_tokens: row.output_tokens,
+        total_tokens: row.total_tokens
+      },
+      cost_usd: row.cost_usd,
+      duration_seconds: row.duration_seconds,
+      started_at: row.started_at,
+      finished_at: row.finished_at
+    };
+
+    if (row.template) entry.template = row.template;
+    if (row.cost_breakdown_json) entry.cost_breakdown = JSON.parse(row.cost_breakdown_json);
+    if (row.research_confidence !== null) entry.research_confidence = row.research_confidence;
+
+    return entry;
+  }
+
+  private getDatabase(): sqlite3.Database {
+    if (!this.db) {
+      throw new Error('SQLite spend ledger is not initialized');
+    }
+    return this.db;
+  }
+
+  private run(sql: string, params: unknown[] = []): Promise<void> {
+    const db = this.getDatabase();
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    const db = this.getDatabase();
+    return new Promise((resolve, reject) => {
+      db.all(sql, params, (error, rows) => (error ? reject(error) : resolve(rows as T[])));
+    });
+  }
+}
+
+/**
+ * Create the ledger for the configured path ('memory' keeps entries in process only)
+ */
+export function createSpendLedger(storePath: string, logger: Logger): SpendLedger {
+  if (!storePath || storePath === 'memory') {
+    return new InMemorySpendLedger();
+  }
+  return new SQLiteSpendLedger(storePath, logger);
+}
+
+/**
+ * Build the ledger entry of a finished job
+ * usage and costInfo come from the final OpenAI response, when one was retrieved
+ */
+export function createLedgerEntry(job: ResearchJob, usage?: ResponseUsage, costInfo?: CostInfo): LedgerEntry {
+  const finishedAt = job.completed_at || job.updated_at;
+  const tokenUsage: TokenUsage = job.result?.token_usage || {
+    input_tokens: usage?.input_tokens || 0,
+    output_tokens: usage?.output_tokens || 0,
+    total_tokens: usage?.total_tokens || 0
+  };
+
+  const entry: LedgerEntry = {
+    job_id: job.job_id,
+    client_id: job.client_id,
+    model_used: job.model_used,
+    accuracy_level: job.request.accuracy_level,
+    status: job.status,
+    token_usage: tokenUsage,
+    cost_usd: job.cost_usd ?? 0,
+    duration_seconds: Math.max(0, (new Date(finishedAt).getTime() - new Date(job.created_at).getTime()) / 1000),
+    started_at: job.created_at,
+    finished_at: finishedAt
+  };
+
+  const breakdown = costInfo?.breakdown || job.result?.cost_info.breakdown;
+  if (job.request.template) entry.template = job.request.template;
+  if (breakdown) entry.cost_breakdown = breakdown;
+  if (job.result) entry.research_confidence = job.result.research_confidence;
+
+  return entry;
+}
@@ -0,0 +1,204 @@
+/**
+ * Usage reporting for OpenAI Deep Research MCP Server
+ * Aggregates the spend ledger by day, client, model and template
+ */
+
+import { parseArgs } from 'util';
+import type { LedgerEntry, Logger, UsageBreakdown, UsageReport, UsageReportRequest } from '@/types';
+import { UsageReportSchema } from '../types/index.js';
+import type { SpendLedger } from './spend-ledger.js';
+import { createSpendLedger } from './spend-ledger.js';
+import { getLocalDate, getLocalHour } from './rate-limit-algorithms.js';
+import { getConfig } from './config.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days covered by a report when no start day is given (including today)
+ */
+const DEFAULT_REPORT_DAYS = 30;
+
+/**
+ * Number of busiest hours listed in peak_hours
+ */
+const PEAK_HOUR_COUNT = 3;
+
+/**
+ * Runs that count as errors in error_rate (cancelled runs were stopped on purpose)
+ */
+const ERROR_STATUSES: LedgerEntry['status'][] = ['failed', 'incomplete'];
+
+/**
+ * Days (YYYY-MM-DD in the report timezone) covered by a report
+ */
+export interface ReportPeriod {
+  since: string;
+  until: string;
+}
+
+/**
+ * Resolve the days of a report request, defaulting to the 30 days up to today
+ */
+export function resolveReportPeriod(request: UsageReportRequest, timeZone: string, now: number = Date.now()): ReportPeriod {
+  const until = request.until || getLocalDate(now, timeZone);
+  const since = request.since
+    || new Date(Date.parse(`${until}T00:00:00Z`) - (DEFAULT_REPORT_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+
+  if (since > until) {
+    throw new Error(`Report start day ${since} is after its end day ${until}`);
+  }
+  return { since, until };
+}
+
+/**
+ * Aggregate ledger entries finished within a period into a usage report
+ */
+export function buildUsageReport(
+  entries: LedgerEntry[],
+  period: ReportPeriod,
+  timeZone: string,
+  clientId?: string
+): UsageReport {
+  const report: UsageReport = {
+    period: `${period.since}..${period.until}`,
+    total_requests: 0,
+    total_cost: 0,
+    total_tokens: 0,
+    average_confidence: 0,
+    model_usage: {},
+    peak_hours: [],
+    cost_by_day: {},
+    error_rate: 0,
+    status_counts: {},
+    by_day: {},
+    by_client: {},
+    by_model: {},
+    by_template: {}
+  };
+  if (clientId) {
+    report.client_id = clientId;
+  }
+
+  const requestsByHour: number[] = new Array(24).fill(0);
+  const confidences: number[] = [];
+  let errors = 0;
+
+  for (const entry of entries) {
+    const finishedAt = new Date(entry.finished_at).getTime();
+    const day = getLocalDate(finishedAt, timeZone);
+    if (day < period.since || day > period.until || (clientId && entry.client_id !== clientId)) {
+      continue;
+    }
+
+    const isError = ERROR_STATUSES.includes(entry.status);
+    report.total_requests++;
+    report.total_cost += entry.cost_usd;
+    report.total_tokens += entry.token_usage.total_tokens;
+    report.model_usage[entry.model_used] = (report.model_usage[entry.model_used] || 0) + 1;
+    report.status_counts[entry.status] = (report.status_counts[entry.status] || 0) + 1;
+    const hour = getLocalHour(finishedAt, timeZone);
+    requestsByHour[hour] = (requestsByHour[hour] || 0) + 1;
+    if (isError) errors++;
+    if (entry.research_confidence !== undefined) confidences.push(entry.research_confidence);
+
+    addToBreakdown(report.by_day, day, entry, isError);
+    addToBreakdown(report.by_client, entry.client_id, entry, isError);
+    addToBreakdown(report.by_model, entry.model_used, entry, isError);
+    addToBreakdown(report.by_template, entry.template || 'none', entry, isError);
+  }
+
+  for (const [day, breakdown] of Object.entries(report.by_day)) {
+    report.cost_by_day[day] = breakdown.cost_usd;
+  }
+
+  report.total_cost = roundUsd(report.total_cost);
+  report.average_confidence = confidences.length > 0
+    ? Math.round((confidences.reduce((sum, value) => sum + value, 0) / confidences.length) * 100) / 100
+    : 0;
+  report.error_rate = report.total_requests > 0 ? Math.round((errors / report.total_requests) * 10000) / 10000 : 0;
+  report.peak_hours = requestsByHour
+    .map((requests, hour) => ({ hour, requests }))
+    .filter(({ requests }) => requests > 0)
+    .sort((a, b) => b.requests - a.requests || a.hour - b.hour)
+    .slice(0, PEAK_HOUR_COUNT)
+    .map(({ hour }) => hour);
+
+  return report;
+}
+
+/**
+ * Read the ledger entries of a report request and aggregate them
+ */
+export async function generateUsageReport(
+  ledger: SpendLedger,
+  request: UsageReportRequest,
+  timeZone: string,
+  now: number = Date.now()
+): Promise<UsageReport> {
+  const period = resolveReportPeriod(request, timeZone, now);
+
+  // Read a day either side of the period (UTC); entries are matched to local days when aggregating
+  const filter: { clientId?: string; from: string; to: string } = {
+    from: new Date(Date.parse(`${period.since}T00:00:00Z`) - DAY_MS).toISOString(),
+    to: new Date(Date.parse(`${period.until}T00:00:00Z`) + 2 * DAY_MS).toISOString()
+  };
+  if (request.client_id) {
+    filter.clientId = request.client_id;
+  }
+
+  const entries = await ledger.list(filter);
+  return buildUsageReport(entries, period, timeZone, request.client_id);
+}
+
+/**
+ * `usage-report [--since YYYY-MM-DD] [--until YYYY-MM-DD] [--client ID]` command:
+ * build a usage report from the configured ledger
+ */
+export async function runUsageReportCommand(args: string[], logger: Logger): Promise<UsageReport> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      since: { type: 'string' },
+      until: { type: 'string' },
+      client: { type: 'string' }
+    },
+    strict: true
+  });
+
+  const parsed = UsageReportSchema.safeParse({
+    since: values.since,
+    until: values.until,
+    client_id: values.client
+  });
+  if (!parsed.success) {
+    throw new Error(parsed.error.errors.map(error => `${error.path.join('.')}: ${error.message}`).join('; '));
+  }
+
+  const config = getConfig();
+  const ledger = createSpendLedger(config.ledger.storePath, logger);
+  await ledger.initialize();
+
+  try {
+    return await generateUsageReport(ledger, parsed.data, config.rateLimits.reset_timezone || 'UTC');
+  } finally {
+    await ledger.close();
+  }
+}
+
+function addToBreakdown(
+  breakdowns: Record<string, UsageBreakdown>,
+  key: string,
+  entry: LedgerEntry,
+  isError: boolean
+): void {
+  const breakdown = breakdowns[key] || { requests: 0, errors: 0, total_tokens: 0, cost_usd: 0 };
+  breakdown.requests++;
+  breakdown.errors += isError ? 1 : 0;
+  breakdown.total_tokens += entry.token_usage.total_tokens;
+  breakdown.cost_usd = roundUsd(breakdown.cost_usd + entry.cost_usd);
+  breakdowns[key] = breakdown;
+}
+
+function roundUsd(value: number): number {
+  return parseFloat(value.toFixed(6));
+}
@@ -0,0 +1,564 @@
+/**
+ * Usage persistence for OpenAI Deep Research MCP Server
+ * Stores the rate-limit and spend counters so limits survive restarts
+ * and are shared by every server process using the same store
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { createClient } from 'redis';
+import type { Logger, ServerConfig } from '@/types';
+
+/**
+ * Longest a lock is held; a lock left behind by a crashed process expires after this
+ */
+const LOCK_TTL_MS = 30 * 1000;
+
+/**
+ * How long to wait for a lock held by another process before giving up
+ */
+const LOCK_WAIT_MS = 10 * 1000;
+
+const LOCK_RETRY_MS = 20;
+
+/**
+ * Amount to add to one counter of a client
+ * Counter keys name their time window (e.g. 'hour:483912', 'cost:20163'), so old
+ * counters simply expire
+ */
+export interface UsageIncrement {
+  key: string;
+  amount: number;
+  ttlSeconds: number;
+}
+
+/**
+ * Value to store in one counter of a client, replacing the current value
+ */
+export interface UsageValue {
+  key: string;
+  value: number;
+  ttlSeconds: number;
+}
+
+/**
+ * Storage backend for per-client usage counters and request logs
+ * Counters back the fixed windows and token buckets; event logs (timestamps) back sliding logs
+ */
+export interface UsageStore {
+  initialize(): Promise<void>;
+  increment(clientId: string, increments: UsageIncrement[]): Promise<void>;
+  setCounters(clientId: string, values: UsageValue[]): Promise<void>;
+  getCounters(clientId: string, keys: string[]): Promise<Record<string, number>>;
+  addEvent(clientId: string, key: string, timestamp: number, ttlSeconds: number): Promise<void>;
+  getEvents(clientId: string, key: string, since: number): Promise<number[]>;   // Ascending timestamps after `since`
+  /**
+   * Run a task while holding a lock shared by every process using the store
+   * (throws if the lock cannot be taken within LOCK_WAIT_MS)
+   */
+  withLock<T>(lockId: string, task: () => Promise<T>): Promise<T>;
+  purgeExpired(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Take a lock with `tryAcquire`, run the task and release the lock, retrying while another holder has it
+ */
+async function runLocked<T>(
+  lockId: string,
+  tryAcquire: (owner: string, expiresAt: number) => Promise<boolean>,
+  release: (owner: string) => Promise<void>,
+  task: () => Promise<T>
+): Promise<T> {
+  const owner = `${process.pid}:${randomUUID()}`;
+  const deadline = Date.now() + LOCK_WAIT_MS;
+  while (!await tryAcquire(owner, Date.now() + LOCK_TTL_MS)) {
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for usage store lock ${lockId}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return await task();
+  } finally {
+    await release(owner);
+  }
+}
+
+/**
+ * Subset of the node-redis client used by the Redis store
+ * (lets tests substitute a local stand-in for a Redis server)
+ */
+export interface RedisUsageClient {
+  isOpen: boolean;
+  connect(): Promise<unknown>;
+  quit(): Promise<unknown>;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  incrByFloat(key: string, increment: number): Promise<unknown>;
+  set(key: string, value: string, options: { EX: number } | { PX: number; NX: true }): Promise<unknown>;
+  eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown>;
+  expire(key: string, seconds: number): Promise<unknown>;
+  mGet(keys: string[]): Promise<Array<string | null>>;
+  zAdd(key: string, member: { score: number; value: string }): Promise<unknown>;
+  zRangeByScore(key: string, min: number | string, max: number | string): Promise<string[]>;
+  zRemRangeByScore(key: string, min: number | string, max: number | string): Promise<unknown>;
+}
+
+/**
+ * In-memory usage store (counters are lost on restart)
+ */
+export class InMemoryUsageStore implements UsageStore {
+  private counters: Map<string, Map<string, { value: number; expiresAt: number }>> = new Map();
+  private events: Map<string, Array<{ timestamp: number; expiresAt: number }>> = new Map();
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  async initialize(): Promise<void> {
+    // Nothing to initialize
+  }
+
+  async increment(clientId: string, increments: UsageIncrement[]): Promise<void> {
+    let clientCounters = this.counters.get(clientId);
+    if (!clientCounters) {
+      clientCounters = new Map();
+      this.counters.set(clientId, clientCounters);
+    }
+
+    const now = Date.now();
+    for (const { key, amount, ttlSeconds } of increments) {
+      const existing = clientCounters.get(key);
+      const current = existing && existing.expiresAt > now ? existing.value : 0;
+      clientCounters.set(key, { value: current + amount, expiresAt: now + ttlSeconds * 1000 });
+    }
+  }
+
+  async setCounters(clientId: string, values: UsageValue[]): Promise<void> {
+    let clientCounters = this.counters.get(clientId);
+    if (!clientCounters) {
+      clientCounters = new Map();
+      this.counters.set(clientId, clientCounters);
+    }
+
+    const now = Date.now();
+    for (const { key, value, ttlSeconds } of values) {
+      clientCounters.set(key, { value, expiresAt: now + ttlSeconds * 1000 });
+    }
+  }
+
+  async getCounters(clientId: string, keys: string[]): Promise<Record<string, number>> {
+    const clientCounters = this.counters.get(clientId);
+    const now = Date.now();
+    const result: Record<string, number> = {};
+
+    for (const key of keys) {
+      const counter = clientCounters?.get(key);
+      result[key] = counter && counter.expiresAt > now ? counter.value : 0;
+    }
+    return result;
+  }
+
+  async addEvent(clientId: string, key: string, timestamp: number, ttlSeconds: number): Promise<void> {
+    const eventKey = `${clientId}\u0000${key}`;
+    const log = this.events.get(eventKey) || [];
+    log.push({ timestamp, expiresAt: Date.now() + ttlSeconds * 1000 });
+    log.sort((a, b) => a.timestamp - b.timestamp);
+    this.events.set(eventKey, log);
+  }
+
+  async getEvents(clientId: string, key: string, since: number): Promise<number[]> {
+    const now = Date.now();
+    return (this.events.get(`${clientId}\u0000${key}`) || [])
+      .filter(event => event.timestamp > since && event.expiresAt > now)
+      .map(event => event.timestamp);
+  }
+
+  /**
+   * Counters live in this process only, so tasks holding the same lock are simply chained
+   */
+  async withLock<T>(lockId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(lockId) || Promise.resolve();
+    const run = previous.then(task, task);
+    const tail = run.catch(() => undefined);
+    this.locks.set(lockId, tail);
+
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(lockId) === tail) {
+        this.locks.delete(lockId);
+      }
+    }
+  }
+
+  async purgeExpired(): Promise<void> {
+    const now = Date.now();
+    for (const [eventKey, log] of this.events.entries()) {
+      const live = log.filter(event => event.expiresAt > now);
+      if (live.length > 0) {
+        this.events.set(eventKey, live);
+      } else {
+        this.events.delete(eventKey);
+      }
+    }
+
+    for (const [clientId, clientCounters] of this.counters.entries()) {
+      for (const [key, counter] of clientCounters.entries()) {
+        if (counter.expiresAt <= now) {
+          clientCounters.delete(key);
+        }
+      }
+      if (clientCounters.size === 0) {
+        this.counters.delete(clientId);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    this.counters.clear();
+    this.events.clear();
+  }
+}
+
+/**
+ * SQLite-backed usage store
+ * Several processes can share the file; increments are single UPSERT statements
+ */
+export class SQLiteUsageStore implements UsageStore {
+  private db: sqlite3.Database | undefined;
+  private filename: string;
+  private logger: Logger;
+
+  constructor(filename: string, logger: Logger) {
+    this.filename = filename;
+    this.logger = logger;
+  }
+
+  /**
+   * Open the database and create the schema if needed
+   */
+  async initialize(): Promise<void> {
+    if (this.filename !== ':memory:') {
+      const dir = path.dirname(path.resolve(this.filename));
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+    }
+
+    this.db = await new Promise<sqlite3.Database>((resolve, reject) => {
+      const db = new sqlite3.Database(this.filename, error => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(db);
+        }
+      });
+    });
+
+    // Wait for locks held by other server processes instead of failing immediately
+    this.db.configure('busyTimeout', 5000);
+
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS usage_counters (
+        client_id TEXT NOT NULL,
+        counter_key TEXT NOT NULL,
+        value REAL NOT NULL,
+        expires_at INTEGER NOT NULL,
+        PRIMARY KEY (client_id, counter_key)
+      )
+    `);
+
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS usage_events (
+        client_id TEXT NOT NULL,
+        event_key TEXT NOT NULL,
+        occurred_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_usage_events_lookup ON usage_events (client_id, event_key, occurred_at)'
+    );
+
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS usage_locks (
+        lock_id TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+
+    this.logger.info('SQLite usage store initialized', { filename: this.filename });
+  }
+
+  async increment(clientId: string, increments: UsageIncrement[]): Promise<void> {
+    const now = Date.now();
+
+    for (const { key, amount, ttlSeconds } of increments) {
+      await this.run(
+        `INSERT INTO usage_counters (client_id, counter_key, value, expires_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(client_id, counter_key) DO UPDATE SET
+          value = CASE WHEN usage_counters.expires_at > ? THEN usage_counters.value + excluded.value ELSE excluded.value END,
+          expires_at = excluded.expires_at`,
+        [clientId, key, amount, now + ttlSeconds * 1000, now]
+      );
+    }
+  }
+
+  async setCounters(clientId: string, values: UsageValue[]): Promise<void> {
+    const now = Date.now();
+
+    for (const { key, value, ttlSeconds } of values) {
+      await this.run(
+        `INSERT INTO usage_counters (client_id, counter_key, value, expires_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(client_id, counter_key) DO UPDATE SET
+          value = excluded.value,
+          expires_at = excluded.expires_at`,
+        [clientId, key, value, now + ttlSeconds * 1000]
+      );
+    }
+  }
+
+  async getCounters(clientId: string, keys: string[]): Promise<Record<string, number>> {
+    const result: Record<string, number> = {};
+    for (const key of keys) {
+      result[key] = 0;
+    }
+    if (keys.length === 0) {
+      return result;
+    }
+
+    const placeholders = keys.map(() => '?').join(', ');
+    const rows = await this.all<{ counter_key: string; value: number }>(
+      `SELECT counter_key, value FROM usage_counters
+      WHERE client_id = ? AND expires_at > ? AND counter_key IN (${placeholders})`,
+      [clientId, Date.now(), ...keys]
+    );
+
+    for (const row of rows) {
+      result[row.counter_key] = row.value;
+    }
+    return result;
+  }
+
+  async addEvent(clientId: string, key: string, timestamp: number, ttlSeconds: number): Promise<void> {
+    await this.run(
+      'INSERT INTO usage_events (client_id, event_key, occurred_at, expires_at) VALUES (?, ?, ?, ?)',
+      [clientId, key, timestamp, Date.now() + ttlSeconds * 1000]
+    );
+  }
+
+  async getEvents(clientId: string, key: string, since: number): Promise<number[]> {
+    const rows = await this.all<{ occurred_at: number }>(
+      `SELECT occurred_at FROM usage_events
+      WHERE client_id = ? AND event_key = ? AND occurred_at > ? AND expires_at > ?
+      ORDER BY occurred_at ASC`,
+      [clientId, key, since, Date.now()]
+    );
+    return rows.map(row => row.occurred_at);
+  }
+
+  /**
+   * A lock is a row of usage_locks, taken by a single statement that only succeeds
+   * when the row is missing or expired
+   */
+  async withLock<T>(lockId: string, task: () => Promise<T>): Promise<T> {
+    return runLocked(
+      lockId,
+      async (owner, expiresAt) => {
+        const changes = await this.run(
+          `INSERT INTO usage_locks (lock_id, owner, expires_at) VALUES (?, ?, ?)
+          ON CONFLICT(lock_id) DO UPDATE SET
+            owner = excluded.owner,
+            expires_at = excluded.expires_at
+          WHERE usage_locks.expires_at <= ?`,
+          [lockId, owner, expiresAt, Date.now()]
+        );
+        return changes > 0;
+      },
+      async owner => {
+        await this.run('DELETE FROM usage_locks WHERE lock_id = ? AND owner = ?', [lockId, owner]);
+      },
+      task
+    );
+  }
+
+  async purgeExpired(): Promise<void> {
+    const now = Date.now();
+    await this.run('DELETE FROM usage_counters WHERE expires_at <= ?', [now]);
+    await this.run('DELETE FROM usage_events WHERE expires_at <= ?', [now]);
+  }
+
+  async close(): Promise<void> {
+    const db = this.db;
+    if (!db) {
+      return;
+    }
+
+    this.db = undefined;
+    await new Promise<void>((resolve, reject) => {
+      db.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private getDatabase(): sqlite3.Database {
+    if (!this.db) {
+      throw new Error('SQLite usage store is not initialized');
+    }
+    return this.db;
+  }
+
+  /**
+   * Run a statement, resolving to the number of rows it changed
+   */
+  private run(sql: string, params: unknown[] = []): Promise<number> {
+    const db = this.getDatabase();
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, function (this: sqlite3.RunResult, error: Error | null) {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(this.changes);
+        }
+      });
+    });
+  }
+
+  private all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    const db = this.getDatabase();
+    return new Promise((resolve, reject) => {
+      db.all(sql, params, (error, rows) => (error ? reject(error) : resolve(rows as T[])));
+    });
+  }
+}
+
+/**
+ * Redis-backed usage store
+ * Counters are INCRBYFLOAT keys with an expiry, so any number of processes can share them
+ */
+export class RedisUsageStore implements UsageStore {
+  private client: RedisUsageClient;
+  private keyPrefix: string;
+  private logger: Logger;
+  private eventSequence = 0;
+
+  constructor(client: RedisUsageClient, logger: Logger, keyPrefix = 'deep-research:usage') {
+    this.client = client;
+    this.logger = logger;
+    this.keyPrefix = keyPrefix;
+  }
+
+  async initialize(): Promise<void> {
+    this.client.on('error', error => {
+      this.logger.error('Redis usage store error', { error: error.message });
+    });
+
+    if (!this.client.isOpen) {
+      await this.client.connect();
+    }
+
+    this.logger.info('Redis usage store initialized', { key_prefix: this.keyPrefix });
+  }
+
+  async increment(clientId: string, increments: UsageIncrement[]): Promise<void> {
+    for (const { key, amount, ttlSeconds } of increments) {
+      const redisKey = this.redisKey(clientId, key);
+      await this.client.incrByFloat(redisKey, amount);
+      await this.client.expire(redisKey, ttlSeconds);
+    }
+  }
+
+  async setCounters(clientId: string, values: UsageValue[]): Promise<void> {
+    for (const { key, value, ttlSeconds } of values) {
+      await this.client.set(this.redisKey(clientId, key), String(value), { EX: Math.max(1, ttlSeconds) });
+    }
+  }
+
+  async getCounters(clientId: string, keys: string[]): Promise<Record<string, number>> {
+    const result: Record<string, number> = {};
+    if (keys.length === 0) {
+      return result;
+    }
+
+    const values = await this.client.mGet(keys.map(key => this.redisKey(clientId, key)));
+    keys.forEach((key, index) => {
+      const value = values[index];
+      result[key] = value ? parseFloat(value) : 0;
+    });
+    return result;
+  }
+
+  /**
+   * Events are members of a sorted set scored by timestamp; the whole set expires with its newest event
+   */
+  async addEvent(clientId: string, key: string, timestamp: number, ttlSeconds: number): Promise<void> {
+    const redisKey = this.redisKey(clientId, key);
+    this.eventSequence = (this.eventSequence + 1) % 1_000_000;
+
+    await this.client.zAdd(redisKey, {
+      score: timestamp,
+      value: `${timestamp}:${process.pid}:${this.eventSequence}`
+    });
+    await this.client.zRemRangeByScore(redisKey, '-inf', timestamp - ttlSeconds * 1000);
+    await this.client.expire(redisKey, ttlSeconds);
+  }
+
+  async getEvents(clientId: string, key: string, since: number): Promise<number[]> {
+    const members = await this.client.zRangeByScore(this.redisKey(clientId, key), `(${since}`, '+inf');
+    return members.map(member => parseInt(member.split(':')[0] as string, 10));
+  }
+
+  /**
+   * A lock is a key set with NX; it is deleted only by the holder that set it
+   */
+  async withLock<T>(lockId: string, task: () => Promise<T>): Promise<T> {
+    const redisKey = `${this.keyPrefix}:lock:${lockId}`;
+    return runLocked(
+      lockId,
+      async owner => (await this.client.set(redisKey, owner, { PX: LOCK_TTL_MS, NX: true })) === 'OK',
+      async owner => {
+        await this.client.eval(
+          "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+          { keys: [redisKey], arguments: [owner] }
+        );
+      },
+      task
+    );
+  }
+
+  async purgeExpired(): Promise<void> {
+    // Redis expires keys itself
+  }
+
+  async close(): Promise<void> {
+    if (this.client.isOpen) {
+      await this.client.quit();
+    }
+  }
+
+  private redisKey(clientId: string, key: string): string {
+    return `${this.keyPrefix}:${clientId}:${key}`;
+  }
+}
+
+/**
+ * Create the usage store selected in the configuration
+ */
+export function createUsageStore(config: ServerConfig, logger: Logger): UsageStore {
+  switch (config.usage.store) {
+    case 'memory':
+      return new InMemoryUsageStore();
+    case 'redis': {
+      const options: Parameters<typeof createClient>[0] = { url: config.redis.url };
+      if (config.redis.password) options.password = config.redis.password;
+      if (config.redis.db !== undefined) options.database = config.redis.db;
+      return new RedisUsageStore(createClient(options), logger);
+    }
+    default:
+      return new SQLiteUsageStore(config.usage.sqlitePath, logger);
+  }
+}
@@ -10,6 +10,8 @@ import type {
   ValidationResult,
   Logger 
 } from '@/types';
+import { DOMAIN_CATEGORIES, isDomainCategory, isValidDomain, normalizeDomain } from './research-scope.js';
+import type { PromptTemplateRegistry } from './prompt-templates.js';
 
 /**
  * Zod schema for research query validation
@@ -62,6 +64,108 @@ export const TemperatureSchema = z.number()
   .max(1, "Temperature cannot exceed 1")
   .default(0.3);
 
+/**
+ * Zod schema for time range validation
+ */
+export const TimeRangeSchema = z.object({
+  start_date: z.string()
+    .datetime({ offset: true, message: "start_date must be an ISO 8601 datetime (e.g. 2024-01-01T00:00:00Z)" })
+    .optional(),
+  end_date: z.string()
+    .datetime({ offset: true, message: "end_date must be an ISO 8601 datetime (e.g. 2024-12-31T23:59:59Z)" })
+    .optional()
+})
+  .refine(
+    (range) => range.start_date !== undefined || range.end_date !== undefined,
+    "Time range must include start_date, end_date or both"
+  )
+  .refine(
+    (range) => !range.start_date || Date.parse(range.start_date) <= Date.now(),
+    { message: "start_date cannot be in the future", path: ['start_date'] }
+  )
+  .refine(
+    (range) => !range.start_date || !range.end_date || Date.parse(range.start_date) <= Date.parse(range.end_date),
+    { message: "start_date must be before end_date", path: ['end_date'] }
+  );
+
+/**
+ * Zod schema for domain focus validation (source categories or domain names)
+ */
+export const DomainFocusSchema = z.array(
+  z.string()
+    .trim()
+    .min(1, "Domain focus entries cannot be empty")
+    .refine(
+      (entry) => isDomainCategory(entry) || isValidDomain(entry),
+      (entry) => ({
+        message: `'${entry}' is neither a known category (${Object.keys(DOMAIN_CATEGORIES).join(', ')}) nor a valid domain name`
+      })
+    )
+).max(5, "Domain focus cannot contain more than 5 entries");
+
+/**
+ * Zod schema for excluded domains validation
+ */
+export const ExcludedDomainsSchema = z.array(
+  z.string()
+    .trim()
+    .refine(isValidDomain, (entry) => ({ message: `'${entry}' is not a valid domain name` }))
+).max(20, "Excluded domains cannot contain more than 20 entries");
+
+/**
+ * Zod schema for user location validation
+ */
+export const UserLocationSchema = z.object({
+  country: z.string()
+    .regex(/^[A-Za-z]{2}$/, "Country must be a two-letter ISO country code (e.g. 'US')")
+    .transform((country) => country.toUpperCase())
+    .optional(),
+  region: z.string().trim().min(1).max(100, "Region cannot exceed 100 characters").optional(),
+  city: z.string().trim().min(1).max(100, "City cannot exceed 100 characters").optional(),
+  timezone: z.string()
+    .refine(isValidTimezone, (timezone) => ({ message: `'${timezone}' is not a valid IANA timezone (e.g. 'America/Los_Angeles')` }))
+    .optional()
+}).refine(
+  (location) => Object.values(location).some((value) => value !== undefined),
+  "User location must include at least one of country, region, city or timezone"
+);
+
+/**
+ * Check whether a timezone name is known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Zod schema for template name validation
+ */
+export const TemplateNameSchema = z.string()
+  .regex(/^[a-z0-9][a-z0-9_-]*$/, "Template name can only contain lowercase letters, digits, underscores and hyphens")
+  .max(64, "Template name cannot exceed 64 characters");
+
+/**
+ * Zod schema for template variables validation
+ */
+export const TemplateVariablesSchema = z.record(
+  z.string().max(1000, "Template variable values cannot exceed 1000 characters")
+).refine(
+  (variables) => Object.keys(variables).length <= 20,
+  "Template variables cannot contain more than 20 entries"
+);
+
+/**
+ * Zod schema for cost center (project) validation
+ */
+export const CostCenterSchema = z.string()
+  .regex(/^[A-Za-z0-9][\w.:-]*$/, "Cost center can only contain letters, digits, underscores, hyphens, dots and colons")
+  .max(64, "Cost center cannot exceed 64 characters");
+
 /**
  * Complete schema for do_deep_research request validation
  */
@@ -71,7 +175,18 @@ export const DoDeepResearchSchema = z.object({
   max_tokens: MaxTokensSchema.optional(),
   temperature: TemperatureSchema.optional(),
   include_sources: z.boolean().default(true),
-  response_format: ResponseFormatSchema
+  response_format: ResponseFormatSchema,
+  time_range: TimeRangeSchema.optional(),
+  domain_focus: DomainFocusSchema.optional(),
+  excluded_domains: ExcludedDomainsSchema.optional(),
+  user_location: UserLocationSchema.optional(),
+  template: TemplateNameSchema.optional(),
+  template_variables: TemplateVariablesSchema.optional(),
+  include_research_trace: z.boolean().default(false).optional(),
+  include_reasoning_summary: z.boolean().default(false).optional(),
+  background: z.boolean().default(false).optional(),
+  dry_run: z.boolean().default(false).optional(),
+  cost_center: CostCenterSchema.optional()
 });
 
 /**
@@ -79,9 +194,11 @@ export const DoDeepResearchSchema = z.object({
  */
 export class ResearchRequestValidator {
   private logger: Logger;
+  private templates: PromptTemplateRegistry | undefined;
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, templates?: PromptTemplateRegistry) {
     this.logger = logger;
+    this.templates = templates;
   }
 
   /**
@@ -174,6 +291,42 @@ export class ResearchRequestValidator {
       }
     }
 
+    // A domain cannot be both the focus of the research and excluded from it
+    if (request.domain_focus && request.excluded_domains) {
+      const excluded = new Set(request.excluded_domains.map(normalizeDomain));
+      const conflicts = request.domain_focus
+        .filter(entry => !isDomainCategory(entry))
+        .map(normalizeDomain)
+        .filter(domain => excluded.has(domain));
+
+      if (conflicts.length > 0) {
+        errors.push({
+          field: 'excluded_domains',
+          message: `Domains cannot be both focused on and excluded: ${conflicts.join(', ')}`,
+          code: 'business_rule'
+        });
+      }
+    }
+
+    // The template must exist and receive the variables it declares
+    if (request.template) {
+      if (this.templates) {
+        errors.push(...this.templates.validate(request.template, request.template_variables));
+      } else {
+        errors.push({
+          field: 'template',
+          message: 'Prompt templates are not available on this server',
+          code: 'unknown_template'
+        });
+      }
+    } else if (request.template_variables && Object.keys(request.template_variables).length > 0) {
+      errors.push({
+        field: 'template_variables',
+        message: 'Template variables were given without a template',
+        code: 'business_rule'
+      });
+    }
+
     // Validate query complexity for accuracy level
     const queryComplexity = this.assessQueryComplexity(request.research_query);
     if (request.accuracy_level === 'medium' && queryComplexity === 'high') {
@@ -376,6 +529,6 @@ export class ResearchRequestValidator {
 /**
  * Create a default validator instance
  */
-export function createValidator(logger: Logger): ResearchRequestValidator {
-  return new ResearchRequestValidator(logger);
+export function createValidator(logger: Logger, templates?: PromptTemplateRegistry): ResearchRequestValidator {
+  return new ResearchRequestValidator(logger, templates);
 }
@@ -3,10 +3,15 @@
  * Starts the MCP server and handles graceful shutdown
  */
 
+import { parseArgs } from 'util';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import dotenv from 'dotenv';
-import { createContextLogger } from './modules/logger.js';
+import { createContextLogger, setLogLevel } from './modules/logger.js';
 import { OpenAIDeepResearchMCPServer } from './modules/mcp-server.js';
+import { McpHttpServer } from './modules/http-transport.js';
+import { createHttpAuthenticator, getAuthInfo } from './modules/http-auth.js';
+import { getConfig, loadConfig } from './modules/config.js';
+import { runUsageReportCommand } from './modules/usage-report.js';
 
 // Load environment variables
 dotenv.config();
@@ -14,13 +19,40 @@ dotenv.config();
 // Set MCP server mode to enable file-only logging
 process.env.MCP_SERVER_MODE = 'true';
 
+type TransportMode = 'stdio' | 'http';
+
+/**
+ * Stops the running server before the process exits
+ */
+let stopServer: (() => Promise<void>) | undefined;
+
+/**
+ * Read --transport (or MCP_TRANSPORT); stdio unless http is asked for
+ */
+function parseTransport(args: string[]): TransportMode {
+  const { values } = parseArgs({
+    args,
+    options: {
+      transport: { type: 'string' }
+    },
+    strict: true
+  });
+
+  const transport = values.transport || process.env.MCP_TRANSPORT || 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport '${transport}', expected stdio or http`);
+  }
+  return transport;
+}
+
 /**
  * Initialize and start the OpenAI Deep Research MCP Server
  */
-async function main(): Promise<void> {
+async function main(args: string[]): Promise<void> {
   const logger = createContextLogger({ component: 'MainServer' });
   
   try {
+    const transport = parseTransport(args);
     logger.info('=== STARTING OPENAI DEEP RESEARCH MCP SERVER ===');
 
     // Validate required environment variables
@@ -38,6 +70,10 @@ async function main(): Promise<void> {
       }
     }
 
+    // Refuse to start with settings that would leave limits, budgets or authentication unenforced
+    loadConfig();
+    logger.info('✅ Configuration is valid');
+
     // Create and initialize the MCP server
     logger.info('Step 2: Creating MCP server instance');
     const mcpServer = new OpenAIDeepResearchMCPServer();
@@ -46,21 +82,46 @@ async function main(): Promise<void> {
     await mcpServer.initialize();
     logger.info('✅ MCP server initialized successfully');
 
-    // Create transport for stdio communication
-    logger.info('Step 4: Creating STDIO transport');
-    const transport = new StdioServerTransport();
-    logger.info('✅ STDIO transport created');
+    if (transport === 'http') {
+      // Serve Streamable HTTP (and the legacy HTTP+SSE transport), one MCP server per client session
+      logger.info('Step 4: Starting Streamable HTTP transport');
+      const config = getConfig();
+      const authenticator = await createHttpAuthenticator(config, createContextLogger({ component: 'HttpAuth' }));
+      if (!authenticator) {
+        logger.warn('HTTP requests are not authenticated; every session runs as the default client');
+      }
 
-    // Connect server to transport
-    logger.info('Step 5: Connecting server to transport');
-    await mcpServer.getServer().connect(transport);
-    logger.info('✅ Server connected to transport');
+      // Sessions run as the authenticated principal
+      const httpServer = new McpHttpServer(
+        config.http,
+        clientId => mcpServer.createSessionServer(clientId),
+        req => getAuthInfo(req)?.clientId ?? mcpServer.getClientId(),
+        createContextLogger({ component: 'HttpTransport' }),
+        authenticator
+      );
+      await httpServer.start();
+      stopServer = async () => {
+        await httpServer.close();
+        await mcpServer.cleanup();
+      };
+      logger.info('✅ Streamable HTTP transport started');
+    } else {
+      // Create transport for stdio communication
+      logger.info('Step 4: Creating STDIO transport');
+      const stdioTransport = new StdioServerTransport();
+      logger.info('✅ STDIO transport created');
+
+      // Connect server to transport
+      logger.info('Step 5: Connecting server to transport');
+      await mcpServer.getServer().connect(stdioTransport);
+      stopServer = () => mcpServer.cleanup();
+      logger.info('✅ Server connected to transport');
+    }
     
     logger.info('=== OPENAI DEEP RESEARCH MCP SERVER STARTED SUCCESSFULLY ===');
     logger.info('Server configuration', {
       name: 'openai-deep-research-mcp-server',
       version: '1.0.0',
-      tools: ['do_deep_research'],
       openai_models: ['o3-deep-research', 'o4-mini-deep-research'],
       environment_variables: {
         OPENAI_API_KEY: '***SET***',
@@ -69,7 +130,7 @@ async function main(): Promise<void> {
       }
     });
 
-    logger.info('🚀 Server is ready to handle requests via STDIO');
+    logger.info(`🚀 Server is ready to handle requests via ${transport === 'http' ? 'Streamable HTTP' : 'STDIO'}`);
 
   } catch (error) {
     logger.error('❌ Failed to start server', { 
@@ -87,10 +148,17 @@ async function main(): Promise<void> {
 function setupGracefulShutdown(): void {
   const logger = createContextLogger({ component: 'Shutdown' });
   
-  const handleShutdown = (signal: string) => {
+  const handleShutdown = async (signal: string) => {
     logger.info(`Received ${signal}, shutting down gracefully`);
-    
-    // Perform cleanup operations
+
+    // Close open sessions and stores; a second signal exits at once
+    const stop = stopServer;
+    stopServer = undefined;
+    try {
+      await stop?.();
+    } catch (error) {
+      logger.error('Error during shutdown', { error: error instanceof Error ? error.message : String(error) });
+    }
     process.exit(0);
   };
 
@@ -111,11 +179,28 @@ function setupGracefulShutdown(): void {
   });
 }
 
-// Setup shutdown handlers
-setupGracefulShutdown();
+/**
+ * Print a usage report from the spend ledger instead of starting the server
+ */
+async function printUsageReport(args: string[]): Promise<void> {
+  // Keep stdout for the report
+  setLogLevel('warn');
+  const report = await runUsageReportCommand(args, createContextLogger({ component: 'UsageReport' }));
+  process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+}
 
-// Start the server
-main().catch((error) => {
-  console.error('Fatal error starting server:', error);
-  process.exit(1);
-});
+if (process.argv[2] === 'usage-report') {
+  printUsageReport(process.argv.slice(3)).catch((error) => {
+    console.error(`usage-report failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
+} else {
+  // Setup shutdown handlers
+  setupGracefulShutdown();
+
+  // Start the server
+  main(process.argv.slice(2)).catch((error) => {
+    console.error('Fatal error starting server:', error);
+    process.exit(1);
+  });
+}
@@ -38,14 +38,26 @@ const DoDeepResearchSchema = z.object({
   
   // Research Scope Controls
   time_range: z.object({
-    start_date: z.string().datetime().optional(),
-    end_date: z.string().datetime().optional()
-  }).optional().describe("Optional time range for research focus"),
+    start_date: z.string().datetime({ offset: true }).optional(),
+    end_date: z.string().datetime({ offset: true }).optional()
+  }).optional().describe("Optional time range for research focus (ISO 8601 datetimes); sources outside it are avoided"),
   
   domain_focus: z.array(z.string())
     .max(5)
     .optional()
-    .describe("Optional domains to focus research on (e.g., ['academic', 'news', 'technical'])"),
+    .describe("Optional source focus: categories ('academic', 'news', 'technical', 'government', 'industry') and/or domain names (e.g. 'nature.com'). Domain names restrict the web search to those domains."),
+
+  excluded_domains: z.array(z.string())
+    .max(20)
+    .optional()
+    .describe("Optional domain names the research must not search or cite (e.g. ['wikipedia.org']). Best effort: the model is instructed to avoid them, but the web search itself is not filtered, so they can still appear."),
+
+  user_location: z.object({
+    country: z.string().optional().describe("Two-letter ISO country code, e.g. 'US'"),
+    region: z.string().optional().describe("Free text region, e.g. 'California'"),
+    city: z.string().optional().describe("Free text city, e.g. 'San Francisco'"),
+    timezone: z.string().optional().describe("IANA timezone, e.g. 'America/Los_Angeles'")
+  }).optional().describe("Optional approximate user location used to localize web search results"),
   
   // Response Format Preferences
   include_sources: z.boolean()
@@ -54,11 +66,78 @@ const DoDeepResearchSchema = z.object({
   
   response_format: z.enum(["comprehensive", "summary", "bullet_points"])
     .default("comprehensive")
-    .describe("Preferred format for research results")
+    .describe("Preferred format for research results"),
+
+  // Prompt Template
+  template: z.string()
+    .optional()
+    .describe("Optional name of a prompt template (see list_research_templates) whose instructions are sent with the query, e.g. 'literature_review'"),
+
+  template_variables: z.record(z.string())
+    .optional()
+    .describe("Values for the template's variables, e.g. { \"field\": \"materials science\" }"),
+
+  include_research_trace: z.boolean()
+    .default(false)
+    .optional()
+    .describe("Whether to include the ordered list of web searches, page opens and find-in-page actions the model performed"),
+
+  include_reasoning_summary: z.boolean()
+    .default(false)
+    .optional()
+    .describe("Whether to request reasoning summaries from the model and return them alongside the report"),
+
+  // Execution Mode
+  background: z.boolean()
+    .default(false)
+    .optional()
+    .describe("Run the research as a background job and return a job_id immediately. Poll with get_research_status and fetch with get_research_result."),
+
+  dry_run: z.boolean()
+    .default(false)
+    .optional()
+    .describe("Validate the request and return the rendered prompt and the estimated tokens, cost and duration per accuracy level without calling OpenAI"),
+
+  // Budget Attribution
+  cost_center: z.string()
+    .regex(/^[A-Za-z0-9][\w.:-]*$/, "Cost center can only contain letters, digits, underscores, hyphens, dots and colons")
+    .max(64)
+    .optional()
+    .describe("Optional cost center (project) the run is charged to; its project budget applies. Defaults to the OpenAI project of the server (OPENAI_PROJECT_ID)")
 });
 
 export type DoDeepResearchRequest = z.infer<typeof DoDeepResearchSchema>;
 
+/**
+ * Research Job Lookup Schema (status, result and cancel tools)
+ */
+const ResearchJobLookupSchema = z.object({
+  job_id: z.string()
+    .min(1, "Job ID is required")
+    .describe("The job_id returned by start_deep_research or by do_deep_research in background mode")
+});
+
+export type ResearchJobLookupRequest = z.infer<typeof ResearchJobLookupSchema>;
+
+/**
+ * Usage Report Schema
+ */
+const UsageReportSchema = z.object({
+  since: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+    .optional()
+    .describe("First day of the report (YYYY-MM-DD, in the rate limit timezone); defaults to the 30 days ending on until"),
+  until: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+    .optional()
+    .describe("Last day of the report (YYYY-MM-DD, in the rate limit timezone); defaults to today"),
+  client_id: z.string()
+    .optional()
+    .describe("Only report the runs of this client")
+});
+
+export type UsageReportRequest = z.infer<typeof UsageReportSchema>;
+
 /**
  * Token Usage Information
  */
@@ -68,13 +147,95 @@ export interface TokenUsage {
   total_tokens: number;
 }
 
+/**
+ * Cost of a research run by billing component, with the quantities billed
+ */
+export interface CostBreakdown {
+  input_tokens: number;               // Uncached input tokens
+  cached_input_tokens: number;
+  output_tokens: number;              // Visible output tokens (excluding reasoning)
+  reasoning_tokens: number;
+  web_search_calls: number;
+  input_usd: number;
+  cached_input_usd: number;
+  output_usd: number;
+  reasoning_usd: number;
+  web_search_usd: number;
+}
+
 /**
  * Cost Information
  */
 export interface CostInfo {
   estimated_cost_usd: number;
-  cost_per_1k_tokens: number;
+  cost_per_1k_tokens: number;         // Effective blended rate of this run
   billing_tier: 'premium' | 'standard';
+  breakdown: CostBreakdown;
+}
+
+/**
+ * Prices of one model in USD
+ */
+export interface ModelPricing {
+  input_per_1m_tokens: number;
+  cached_input_per_1m_tokens: number;
+  output_per_1m_tokens: number;
+  reasoning_per_1m_tokens: number;    // Reasoning tokens are billed as output tokens
+  web_search_per_call: number;
+}
+
+/**
+ * Prices by model name (e.g. 'o3-deep-research')
+ */
+export type PricingTable = Record<string, ModelPricing>;
+
+/**
+ * Citation extracted from a url_citation annotation
+ */
+export interface Citation {
+  title: string;
+  url: string;
+  domain: string;                     // Host name without "www."
+  start_index: number;                // Offsets of the cited span in research_results (-1 if formatting removed it)
+  end_index: number;
+  quoted_text: string;                // The cited span itself
+}
+
+/**
+ * Research scope that was applied to a request, echoed back in the response
+ */
+export interface ResearchScopeApplied {
+  time_range?: {
+    start_date?: string;
+    end_date?: string;
+  };
+  domain_categories?: string[];       // Source categories given in domain_focus (guidance in the instructions)
+  allowed_domains?: string[];         // Domain names given in domain_focus (web search filter)
+  blocked_domains?: string[];         // excluded_domains (best effort: asked of the model in the instructions only)
+  user_location?: {
+    country?: string;
+    region?: string;
+    city?: string;
+    timezone?: string;
+  };
+}
+
+/**
+ * Web search action performed by the research model
+ */
+export type ResearchTraceAction = "search" | "open_page" | "find_in_page" | "unknown";
+
+/**
+ * One step of the research trace
+ */
+export interface ResearchTraceEntry {
+  step: number;                       // 1-based position in the trace
+  id: string;                         // web_search_call item id
+  action: ResearchTraceAction;
+  status: string;                     // web_search_call status (e.g. 'completed', 'failed')
+  query?: string;                     // For 'search'
+  url?: string;                       // For 'open_page' and 'find_in_page'
+  pattern?: string;                   // For 'find_in_page'
 }
 
 /**
@@ -91,7 +252,8 @@ export interface DoDeepResearchResponse {
   execution_time_seconds: number;
   
   // Source Information
-  sources_found: number;
+  sources_found: number;              // Number of distinct cited URLs
+  citations?: Citation[];             // If include_sources = true
   source_urls?: string[];             // If include_sources = true
   source_quality_score: number;       // 0-100, average source credibility
   
@@ -108,6 +270,13 @@ export interface DoDeepResearchResponse {
   related_topics: string[];          // Suggested follow-up research topics
   limitations: string[];             // Known limitations or gaps in research
   
+  // Research Scope
+  scope_applied?: ResearchScopeApplied; // Present when time_range, domain_focus, excluded_domains or user_location was given
+
+  // Research Audit Trail
+  research_trace?: ResearchTraceEntry[]; // If include_research_trace = true
+  reasoning_summary?: string[];       // If include_reasoning_summary = true, one entry per summary part
+
   // Raw OpenAI Data
   raw_openai_output?: any[];         // Raw output array from OpenAI Responses API (includes citations, web search results, intermediate steps)
   
@@ -117,6 +286,40 @@ export interface DoDeepResearchResponse {
   rate_limit_remaining: number;
 }
 
+// ============================================================================
+// Research Job Types
+// ============================================================================
+
+/**
+ * Lifecycle status of a background research job (mirrors the Responses API statuses)
+ */
+export type ResearchJobStatus =
+  | "queued"
+  | "in_progress"
+  | "completed"
+  | "failed"
+  | "cancelled"
+  | "incomplete";
+
+/**
+ * Background research job
+ */
+export interface ResearchJob {
+  job_id: string;
+  client_id: string;
+  request: DoDeepResearchRequest;
+  model_used: "o3-deep-research" | "o4-mini-deep-research";
+  status: ResearchJobStatus;
+  openai_response_id?: string;       // Responses API id used to poll or cancel
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+  cost_usd?: number;                  // Cost recorded once the job has finished
+  error?: string;
+  result?: DoDeepResearchResponse;   // Present once status is 'completed'
+  accuracy_downgrade?: AccuracyDowngrade; // Set when a high accuracy request ran at medium accuracy
+}
+
 // ============================================================================
 // Model Configuration Types
 // ============================================================================
@@ -127,7 +330,7 @@ export interface DoDeepResearchResponse {
 export interface ModelConfiguration {
   model_name: string;
   max_tokens_limit: number;
-  cost_per_1k_tokens: number;
+  cost_per_1k_tokens: number;         // Rough blended rate for display; billed costs come from the pricing table
   typical_response_time_seconds: number;
   use_cases: string[];
 }
@@ -187,7 +390,7 @@ export interface ResearchError {
   message: string;
   details?: any;
   suggestion: string;
-  retryAfter?: number;
+  retryAfter?: number;                // Seconds until the request can be retried
   costSavingsTip?: string;
 }
 
@@ -196,13 +399,39 @@ export interface ResearchError {
  */
 export interface RateLimitResult {
   allowed: boolean;
-  reason?: 'hourly_limit' | 'daily_limit' | 'cost_limit';
-  retryAfter?: number;
+  reason?: 'hourly_limit' | 'daily_limit' | 'daily_request_limit' | 'token_limit' | 'cost_limit' | 'limits_unavailable';
+  budget?: ExhaustedBudget;           // The cost budget that rejected the request (reason 'cost_limit')
+  retryAfter?: number;                // Seconds until a request would be allowed again
   remaining?: number;
-  dailyRemaining?: number;
+  dailyRemaining?: number;            // Requests left under the overall daily cap
+  tokensRemaining?: number;
   costRemaining?: number;
 }
 
+/**
+ * Cost budget that has too little left for a request
+ */
+export interface ExhaustedBudget {
+  scope: "client" | "project" | "global";
+  id?: string;                        // Client or project id
+  period: "daily" | "monthly";
+  limit_usd: number;
+  spent_usd: number;                  // Spent plus reserved by running requests
+}
+
+/**
+ * Accuracy level change made instead of rejecting a high accuracy request
+ * that did not fit the limits (auto downgrade policy)
+ */
+export interface AccuracyDowngrade {
+  requested_accuracy_level: "high";
+  accuracy_level: "medium";
+  reason: NonNullable<RateLimitResult['reason']>; // Limit the high accuracy request would have exceeded
+  exhausted_budget?: ExhaustedBudget;
+  message: string;
+  cost_savings_tip: string;
+}
+
 // ============================================================================
 // Analytics Types
 // ============================================================================
@@ -238,6 +467,64 @@ export interface AnalyticsReport {
   error_rate: number;
 }
 
+/**
+ * Alert fired the first time spend crosses a threshold of a budget in a period
+ */
+export interface BudgetAlert {
+  scope: "client" | "project" | "global";
+  client_id?: string;                 // Set for client budgets
+  project_id?: string;                // Set for project budgets
+  period: "daily" | "monthly";
+  period_start: string;               // YYYY-MM-DD or YYYY-MM in the rate limit timezone
+  threshold: number;                  // Fraction of the budget crossed, e.g. 0.8
+  spent_usd: number;
+  budget_usd: number;
+  message: string;
+  timestamp: string;
+}
+
+/**
+ * Spend ledger entry: one finished research run (completed, failed, incomplete or cancelled)
+ */
+export interface LedgerEntry {
+  job_id: string;
+  client_id: string;
+  model_used: string;
+  accuracy_level: "high" | "medium";
+  template?: string;
+  status: ResearchJobStatus;
+  token_usage: TokenUsage;
+  cost_usd: number;
+  cost_breakdown?: CostBreakdown;     // Missing when the run ended without a final response
+  duration_seconds: number;
+  research_confidence?: number;       // Completed runs only
+  started_at: string;
+  finished_at: string;
+}
+
+/**
+ * Totals of a group of ledger entries
+ */
+export interface UsageBreakdown {
+  requests: number;
+  errors: number;                     // Failed and incomplete runs
+  total_tokens: number;
+  cost_usd: number;
+}
+
+/**
+ * Usage report built from the spend ledger
+ */
+export interface UsageReport extends AnalyticsReport {
+  client_id?: string;                 // Set when the report covers one client
+  total_tokens: number;
+  status_counts: Record<string, number>;
+  by_day: Record<string, UsageBreakdown>;
+  by_client: Record<string, UsageBreakdown>;
+  by_model: Record<string, UsageBreakdown>;
+  by_template: Record<string, UsageBreakdown>;
+}
+
 // ============================================================================
 // Client Configuration Types
 // ============================================================================
@@ -254,16 +541,39 @@ export interface OpenAIClientConfig {
   baseURL?: string;
 }
 
+/**
+ * Algorithm enforcing the hourly request limits
+ * - sliding_log: exact count of the requests in the last hour
+ * - sliding_window: the current and previous clock hour, weighted by overlap with the last hour
+ * - token_bucket: bursts up to the hourly limit, refilled evenly over the hour
+ */
+export type RateLimitAlgorithm = "sliding_log" | "sliding_window" | "token_bucket";
+
+/**
+ * Daily and monthly spend caps of a budget (missing caps are not enforced)
+ */
+export interface BudgetCaps {
+  daily_usd?: number;
+  monthly_usd?: number;
+}
+
 /**
  * Rate Limiter Configuration
+ * Cost budgets are enforced per client, per project and for all clients together
  */
 export interface RateLimitConfig {
   requests_per_hour: number;
   requests_per_day: number;
   tokens_per_day: number;
-  daily_cost_limit_usd: number;
+  daily_cost_limit_usd: number;       // Per client
+  monthly_cost_limit_usd?: number;    // Per client
   high_accuracy_daily_limit: number;
   medium_accuracy_daily_limit: number;
+  project_budget?: BudgetCaps;        // Caps of each project without its own entry in project_budgets
+  project_budgets?: Record<string, BudgetCaps>; // Caps of named projects (cost centers)
+  global_budget?: BudgetCaps;         // Spend of all clients together
+  algorithm?: RateLimitAlgorithm;     // Default 'sliding_window'
+  reset_timezone?: string;            // IANA timezone whose midnight resets the daily limits (default 'UTC')
 }
 
 /**
@@ -277,6 +587,56 @@ export interface ServerConfig {
     password?: string;
     db?: number;
   };
+  jobs: {
+    storePath: string;              // SQLite file for research jobs ('memory' disables persistence)
+    pollIntervalSeconds: number;    // How often running jobs are refreshed from OpenAI
+  };
+  usage: {
+    store: "memory" | "sqlite" | "redis"; // Backend for rate-limit and spend counters
+    sqlitePath: string;             // SQLite file used when store is 'sqlite'
+  };
+  prompts: {
+    templatesDir: string;           // Directory of *.md research prompt templates
+    systemInstructionsPath?: string; // File replacing the built-in system instructions
+  };
+  pricing: {
+    tablePath?: string;             // JSON file overriding the built-in pricing table
+  };
+  ledger: {
+    storePath: string;              // SQLite file recording finished research runs ('memory' disables persistence)
+  };
+  costControls: {
+    autoDowngrade: boolean;         // Run high accuracy requests at medium accuracy instead of rejecting them
+    approvalThresholdUsd?: number;  // Runs estimated above this ask the user for approval (MCP elicitation)
+    approvalTimeoutSeconds: number; // How long to wait for the user's answer
+  };
+  http: {
+    port: number;                   // Port of the Streamable HTTP transport (--transport http)
+    host: string;                   // Interface the HTTP transport listens on
+    path: string;                   // Path of the MCP endpoint
+    sessionIdleTimeoutSeconds: number; // Sessions without requests for this long are closed
+    enableLegacySse: boolean;       // Also serve the legacy HTTP+SSE transport
+    ssePath: string;                // Event stream that opens a legacy SSE session
+    messagesPath: string;           // Endpoint legacy SSE clients POST their messages to
+    allowedHosts?: string[];        // Host headers accepted, enables DNS rebinding protection
+    enableCors: boolean;
+    corsOrigins?: string[];         // Origins allowed by CORS (any origin when unset)
+    enableHelmet: boolean;
+  };
+  auth: {
+    apiKeysPath?: string;           // JSON file of API keys stored as SHA-256 hashes
+    jwksUrl?: string;               // JWKS of the authorization server signing JWT access tokens
+    introspectionPath?: string;     // JSON file standing in for a token introspection endpoint
+    issuer?: string;                // Authorization server; tokens must carry it as iss
+    resourceUrl?: string;           // Public URL of the MCP endpoint; tokens must carry it as aud
+    requiredScopes: string[];       // Scopes every credential must have
+    jwksCacheSeconds: number;       // How long JWKS keys are cached
+  };
+  alerts: {
+    enabled: boolean;
+    thresholds: number[];           // Fractions of a budget that fire an alert, e.g. [0.5, 0.8, 1]
+    webhookUrl?: string;            // Receives each alert as a JSON POST
+  };
   server: {
     name: string;
     version: string;
@@ -313,13 +673,28 @@ export interface ValidationResult<T> {
   errors?: ValidationError[];
 }
 
+/**
+ * Low and high end of an estimate
+ */
+export interface EstimateRange {
+  min: number;
+  max: number;
+}
+
 /**
  * Cost Estimate
+ * Estimated_* values are for a typical run; the ranges cover lighter and heavier runs
  */
 export interface CostEstimate {
+  accuracy_level: "high" | "medium";
+  model: string;
   estimated_total_tokens: number;
   estimated_cost_usd: number;
   estimated_time_seconds: number;
+  token_range: EstimateRange;
+  cost_range_usd: EstimateRange;
+  time_range_seconds: EstimateRange;
+  cost_breakdown: CostBreakdown;      // Components of the typical run's cost
   warning?: string;
 }
 
@@ -329,5 +704,7 @@ export interface CostEstimate {
 
 export {
   DoDeepResearchSchema,
+  ResearchJobLookupSchema,
+  UsageReportSchema,
   MODEL_CONFIGS
 };
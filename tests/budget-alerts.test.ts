@@ -0,0 +1,219 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { BudgetAlertMonitor, createWebhookAlertListener } from '../src/modules/budget-alerts';
+import { ResearchRateLimiter } from '../src/modules/rate-limiter';
+import { getLocalDate } from '../src/modules/rate-limit-algorithms';
+import { InMemoryUsageStore } from '../src/modules/usage-store';
+import type { BudgetAlert, Logger, RateLimitConfig } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+const now = Date.parse('2026-10-19T10:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const config: RateLimitConfig = {
+  requests_per_hour: 100,
+  requests_per_day: 100,
+  tokens_per_day: 1000000,
+  daily_cost_limit_usd: 10,
+  monthly_cost_limit_usd: 100,
+  high_accuracy_daily_limit: 100,
+  medium_accuracy_daily_limit: 100,
+  project_budgets: { research: { daily_usd: 5 } },
+  global_budget: { daily_usd: 15 }
+};
+
+describe('BudgetAlertMonitor', () => {
+  let limiter: ResearchRateLimiter;
+  let monitor: BudgetAlertMonitor;
+  let fired: BudgetAlert[];
+
+  /**
+   * Charge a finished run to the limiter and check the budgets of that day, as the server does
+   */
+  const charge = async (clientId: string, costUsd: number, dayOffset = 0, projectId?: string): Promise<BudgetAlert[]> => {
+    jest.setSystemTime(now + dayOffset * DAY_MS);
+    await limiter.recordRequest(clientId, 'medium', costUsd, 1000, projectId);
+    return monitor.checkBudgets(clientId, projectId, getLocalDate(Date.now(), 'UTC'));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    const store = new InMemoryUsageStore();
+    limiter = new ResearchRateLimiter(config, silentLogger, store);
+    monitor = new BudgetAlertMonitor([0.5, 0.8, 1], limiter, store, silentLogger);
+    fired = [];
+    monitor.onAlert(alert => {
+      fired.push(alert);
+    });
+  });
+
+  afterEach(async () => {
+    await limiter.cleanup();
+    jest.useRealTimers();
+  });
+
+  it('should fire each threshold once per period', async () => {
+    await charge('client_a', 4);
+    expect(fired).toEqual([]);
+
+    await charge('client_a', 1.5);
+    await charge('client_a', 1);
+
+    expect(fired).toEqual([{
+      scope: 'client',
+      client_id: 'client_a',
+      period: 'daily',
+      period_start: '2026-10-19',
+      threshold: 0.5,
+      spent_usd: 5.5,
+      budget_usd: 10,
+      message: 'Client client_a reached 50% of the daily budget: $5.50 of $10.00 spent',
+      timestamp: '2026-10-19T10:00:00.000Z'
+    }]);
+  });
+
+  it('should report only the highest threshold crossed by one run', async () => {
+    await charge('client_a', 8.5);
+    await charge('client_a', 0.5);
+
+    expect(fired.filter(alert => alert.scope === 'client').map(alert => [alert.period, alert.threshold]))
+      .toEqual([['daily', 0.8]]);
+  });
+
+  it('should fire again in the next period', async () => {
+    await charge('client_a', 6);
+    await charge('client_a', 6, 1);
+
+    expect(fired.filter(alert => alert.scope === 'client').map(alert => alert.period_start))
+      .toEqual(['2026-10-19', '2026-10-20']);
+  });
+
+  it('should watch monthly and global budgets across days and clients', async () => {
+    for (let day = 0; day < 6; day++) {
+      await charge('client_a', 9, day);
+    }
+    await charge('client_b', 9, 5);
+
+    const monthly = fired.filter(alert => alert.period === 'monthly');
+    expect(monthly.map(alert => [alert.threshold, alert.spent_usd])).toEqual([[0.5, 54]]);
+
+    const globalExhausted = fired.filter(alert => alert.scope === 'global' && alert.threshold === 1);
+    expect(globalExhausted).toHaveLength(1);
+    expect(globalExhausted[0]).toMatchObject({ period: 'daily', period_start: '2026-10-24', spent_usd: 18 });
+    expect(globalExhausted[0]?.client_id).toBeUndefined();
+  });
+
+  it('should watch project budgets across clients', async () => {
+    await charge('client_a', 3, 0, 'research');
+    await charge('client_b', 3, 0, 'research');
+
+    expect(fired).toEqual([
+      expect.objectContaining({ scope: 'project', project_id: 'research', threshold: 0.5, spent_usd: 3 }),
+      expect.objectContaining({
+        scope: 'project',
+        project_id: 'research',
+        threshold: 1,
+        spent_usd: 6,
+        message: 'Project research reached 100% of the daily budget: $6.00 of $5.00 spent'
+      })
+    ]);
+    expect(fired[1]?.client_id).toBeUndefined();
+  });
+
+  it('should fire a threshold only once when budgets are checked concurrently', async () => {
+    await limiter.recordRequest('client_a', 'medium', 9, 1000);
+
+    const results = await Promise.all([1, 2, 3].map(() => monitor.checkBudgets('client_a', undefined, '2026-10-19')));
+
+    expect(results.flat().filter(alert => alert.scope === 'client').map(alert => alert.threshold)).toEqual([0.8]);
+  });
+
+  it('should not fire again when the same spend is checked again', async () => {
+    await charge('client_a', 5);
+    await monitor.checkBudgets('client_a', undefined, '2026-10-19');
+
+    expect(fired.map(alert => [alert.scope, alert.threshold, alert.spent_usd])).toEqual([['client', 0.5, 5]]);
+  });
+
+  it('should measure a run against the day its budget was reserved on', async () => {
+    jest.setSystemTime(Date.parse('2026-10-19T23:30:00Z'));
+    await limiter.reserveBudget('client_a', 'medium', 1, 1000, 'job_1');
+    jest.setSystemTime(Date.parse('2026-10-20T00:30:00Z'));
+    const chargedDay = await limiter.settleReservation('client_a', 'medium', 'job_1', 6, 1000);
+
+    await monitor.checkBudgets('client_a', undefined, chargedDay as string);
+
+    expect(chargedDay).toBe('2026-10-19');
+    expect(fired.filter(alert => alert.scope === 'client')).toEqual([
+      expect.objectContaining({ period: 'daily', period_start: '2026-10-19', threshold: 0.5, spent_usd: 6 })
+    ]);
+  });
+});
+
+describe('createWebhookAlertListener', () => {
+  let server: http.Server;
+  let url: string;
+  let received: Array<{ contentType: string | undefined; body: unknown }>;
+  let statusCode: number;
+  let store: InMemoryUsageStore;
+  let limiter: ResearchRateLimiter;
+
+  beforeEach(async () => {
+    store = new InMemoryUsageStore();
+    limiter = new ResearchRateLimiter(config, silentLogger, store);
+    received = [];
+    statusCode = 204;
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        received.push({ contentType: request.headers['content-type'], body: JSON.parse(body) });
+        response.writeHead(statusCode);
+        response.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/alerts`;
+  });
+
+  afterEach(async () => {
+    await limiter.cleanup();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('should post fired alerts as JSON', async () => {
+    const monitor = new BudgetAlertMonitor([0.8], limiter, store, silentLogger);
+    monitor.onAlert(createWebhookAlertListener(url, silentLogger));
+
+    await limiter.recordRequest('client_a', 'medium', 9, 1000);
+    await monitor.checkBudgets('client_a', undefined, getLocalDate(Date.now(), 'UTC'));
+
+    expect(received).toHaveLength(1);
+    expect(received[0]?.contentType).toBe('application/json');
+    expect(received[0]?.body).toMatchObject({
+      type: 'budget_alert',
+      alert: { scope: 'client', client_id: 'client_a', threshold: 0.8, spent_usd: 9, budget_usd: 10 }
+    });
+  });
+
+  it('should log rejected and failed deliveries without throwing', async () => {
+    const warnings: string[] = [];
+    const logger: Logger = { ...silentLogger, warn: (message: string) => { warnings.push(message); } };
+    const monitor = new BudgetAlertMonitor([1], limiter, store, silentLogger);
+    monitor.onAlert(createWebhookAlertListener(url, logger));
+    monitor.onAlert(createWebhookAlertListener('http://127.0.0.1:1/alerts', logger));
+    statusCode = 500;
+
+    await limiter.recordRequest('client_a', 'medium', 10, 1000);
+    await expect(monitor.checkBudgets('client_a', undefined, getLocalDate(Date.now(), 'UTC'))).resolves.toHaveLength(1);
+    expect(warnings).toEqual(['Budget alert webhook rejected the alert', 'Budget alert webhook failed']);
+  });
+});
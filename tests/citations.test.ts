@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import type { Response as OpenAIResponse } from 'openai/resources/responses/responses';
+import { extractCitations, normalizeCitationUrl, getCitationDomain } from '../src/modules/citations';
+
+const fixture = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'deep-research-response.json'), 'utf8')
+) as OpenAIResponse;
+
+describe('extractCitations', () => {
+  it('should return one citation per distinct URL in order of appearance', () => {
+    const citations = extractCitations(fixture.output);
+
+    expect(citations.map(citation => citation.url)).toEqual([
+      'https://www.iea.org/reports/batteries-and-secure-energy-transitions',
+      'https://www.reuters.com/business/energy/sodium-ion-costs-2025'
+    ]);
+  });
+
+  it('should include title, domain, offsets and the quoted span', () => {
+    const [first] = extractCitations(fixture.output);
+
+    expect(first).toEqual({
+      title: 'Batteries and Secure Energy Transitions - IEA',
+      url: 'https://www.iea.org/reports/batteries-and-secure-energy-transitions',
+      domain: 'iea.org',
+      start_index: 149,
+      end_index: 245,
+      quoted_text: '[iea.org](https://www.iea.org/reports/batteries-and-secure-energy-transitions?utm_source=openai)'
+    });
+  });
+
+  it('should handle missing or citation-free output', () => {
+    expect(extractCitations(undefined)).toEqual([]);
+    expect(extractCitations(fixture.output.filter(item => item.type !== 'message'))).toEqual([]);
+  });
+});
+
+describe('citation URL helpers', () => {
+  it('should strip utm tracking parameters but keep other query parameters', () => {
+    expect(normalizeCitationUrl('https://example.com/a?id=3&utm_source=openai'))
+      .toBe('https://example.com/a?id=3');
+  });
+
+  it('should leave invalid URLs untouched', () => {
+    expect(normalizeCitationUrl('not a url')).toBe('not a url');
+    expect(getCitationDomain('not a url')).toBe('');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from '@jest/globals';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { buildCostApprovalRequest, requestCostApproval } from '../src/modules/cost-approval';
+import type { ElicitationSender } from '../src/modules/cost-approval';
+import type { CostEstimate, DoDeepResearchRequest, Logger } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+const request: DoDeepResearchRequest = {
+  research_query: 'How are grid-scale batteries financed in Europe?',
+  accuracy_level: 'high',
+  include_sources: true,
+  response_format: 'comprehensive',
+  template: 'regulatory_scan',
+  background: true
+};
+
+const estimate: CostEstimate = {
+  accuracy_level: 'high',
+  model: 'o3-deep-research',
+  estimated_total_tokens: 124000,
+  estimated_cost_usd: 4.2,
+  estimated_time_seconds: 600,
+  token_range: { min: 62000, max: 248000 },
+  cost_range_usd: { min: 2.1, max: 8.4 },
+  time_range_seconds: { min: 300, max: 1200 },
+  cost_breakdown: {
+    input_tokens: 2000,
+    cached_input_tokens: 0,
+    output_tokens: 10000,
+    reasoning_tokens: 112000,
+    web_search_calls: 20,
+    input_usd: 0.02,
+    cached_input_usd: 0,
+    output_usd: 0.4,
+    reasoning_usd: 3.58,
+    web_search_usd: 0.2
+  }
+};
+
+function sender(result: ElicitResult | Error): ElicitationSender {
+  return async () => {
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  };
+}
+
+describe('buildCostApprovalRequest', () => {
+  it('should show the model, estimated cost and scope and ask for a boolean approval', () => {
+    const params = buildCostApprovalRequest(request, estimate, 2, {
+      time_range: { start_date: '2025-01-01T00:00:00Z' },
+      allowed_domains: ['europa.eu'],
+      blocked_domains: ['wikipedia.org']
+    });
+
+    expect(params.message).toBe([
+      'This deep research run is estimated above the $2.00 approval threshold.',
+      '',
+      'Model: o3-deep-research (high accuracy)',
+      'Estimated cost: $4.20 (typically $2.10 to $8.40)',
+      'Query: "How are grid-scale batteries financed in Europe?"',
+      'Scope: from 2025-01-01T00:00:00Z to now; only europa.eu; excluding wikipedia.org; template regulatory_scan; comprehensive report; runs in the background'
+    ].join('\n'));
+    expect(params.requestedSchema).toEqual({
+      type: 'object',
+      properties: {
+        approve: {
+          type: 'boolean',
+          title: 'Run this research',
+          description: 'Approve spending about $4.20 on this run',
+          default: false
+        }
+      },
+      required: ['approve']
+    });
+  });
+
+  it('should shorten long queries', () => {
+    const params = buildCostApprovalRequest({ ...request, research_query: 'x'.repeat(500) }, estimate, 2);
+
+    expect(params.message).toContain(`Query: "${'x'.repeat(300)}…"`);
+  });
+});
+
+describe('requestCostApproval', () => {
+  const params = buildCostApprovalRequest(request, estimate, 2);
+
+  it('should approve only an accepted answer that approves', async () => {
+    await expect(requestCostApproval(sender({ action: 'accept', content: { approve: true } }), params, silentLogger))
+      .resolves.toBe('approved');
+    await expect(requestCostApproval(sender({ action: 'accept', content: { approve: false } }), params, silentLogger))
+      .resolves.toBe('declined');
+    await expect(requestCostApproval(sender({ action: 'decline' }), params, silentLogger)).resolves.toBe('declined');
+    await expect(requestCostApproval(sender({ action: 'cancel' }), params, silentLogger)).resolves.toBe('cancelled');
+  });
+
+  it('should treat a timeout or a cancelled tool call as not approved', async () => {
+    const timeout = new McpError(ErrorCode.RequestTimeout, 'Request timed out');
+    await expect(requestCostApproval(sender(timeout), params, silentLogger, { timeout: 1000 })).resolves.toBe('timed_out');
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(requestCostApproval(sender(new Error('aborted')), params, silentLogger, { signal: controller.signal }))
+      .resolves.toBe('cancelled');
+  });
+
+  it('should pass other failures on', async () => {
+    await expect(requestCostApproval(sender(new Error('connection closed')), params, silentLogger))
+      .rejects.toThrow('connection closed');
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+import type { JSONRPCMessage, JSONRPCNotification } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryEventStore } from '../src/modules/event-store';
+
+function progress(step: number): JSONRPCMessage {
+  return { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 1, progress: step } };
+}
+
+async function replay(store: InMemoryEventStore, lastEventId: string): Promise<{ streamId: string; steps: unknown[] }> {
+  const steps: unknown[] = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (_eventId, message) => {
+      steps.push((message as JSONRPCNotification).params?.['progress']);
+    }
+  });
+  return { streamId, steps };
+}
+
+describe('InMemoryEventStore', () => {
+  it('should replay the later events of the same stream in order', async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent('stream_a', progress(1));
+    await store.storeEvent('stream_b', progress(10));
+    await store.storeEvent('stream_a', progress(2));
+    await store.storeEvent('stream_a', progress(3));
+
+    await expect(replay(store, first)).resolves.toEqual({ streamId: 'stream_a', steps: [2, 3] });
+  });
+
+  it('should drop the oldest events beyond its limit', async () => {
+    const store = new InMemoryEventStore(2);
+    const first = await store.storeEvent('stream_a', progress(1));
+    const second = await store.storeEvent('stream_a', progress(2));
+    await store.storeEvent('stream_a', progress(3));
+
+    expect(store.size).toBe(2);
+    await expect(replay(store, first)).resolves.toEqual({ streamId: '', steps: [] });
+    await expect(replay(store, second)).resolves.toEqual({ streamId: 'stream_a', steps: [3] });
+  });
+});
@@ -0,0 +1,288 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import {
+  ApiKeyVerifier,
+  HttpAuthenticator,
+  JwtAccessTokenVerifier,
+  LocalIntrospectionVerifier,
+  getAuthInfo,
+  hashToken
+} from '../src/modules/http-auth';
+import { McpHttpServer } from '../src/modules/http-transport';
+import type { Logger, ServerConfig } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+const RESOURCE = 'https://research.example.com/mcp';
+const ISSUER = 'https://auth.example.com';
+const expectations = { audience: RESOURCE, issuer: ISSUER };
+
+const rsaKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ecKey = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const otherKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+function signJwt(claims: Record<string, unknown>, options: { kid?: string; alg?: string; key?: crypto.KeyObject } = {}): string {
+  const alg = options.alg ?? 'RS256';
+  const header = Buffer.from(JSON.stringify({ alg, typ: 'JWT', kid: options.kid ?? 'rsa-1' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const key = options.key ?? (alg === 'ES256' ? ecKey.privateKey : rsaKey.privateKey);
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key);
+  return `${header}.${payload}.${signature.toString('base64url')}`;
+}
+
+function claims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    iss: ISSUER,
+    aud: RESOURCE,
+    sub: 'alice@example.com',
+    client_id: 'research-agent',
+    scope: 'research usage',
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    ...overrides
+  };
+}
+
+describe('ApiKeyVerifier', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should map a key to the client it is listed under', async () => {
+    const filePath = path.join(tempDir, 'api-keys.json');
+    fs.writeFileSync(filePath, JSON.stringify([
+      { client_id: 'analytics-team', key_sha256: hashToken('key-one'), scopes: ['research'] }
+    ]));
+    const verifier = await ApiKeyVerifier.load(filePath, silentLogger);
+
+    await expect(verifier.verify('key-one')).resolves.toMatchObject({ clientId: 'analytics-team', scopes: ['research'] });
+    await expect(verifier.verify('key-two')).resolves.toBeUndefined();
+  });
+
+  it('should refuse files with keys that are not hashed', async () => {
+    const filePath = path.join(tempDir, 'api-keys.json');
+    fs.writeFileSync(filePath, JSON.stringify([{ client_id: 'analytics-team', key_sha256: 'key-one' }]));
+
+    await expect(ApiKeyVerifier.load(filePath, silentLogger)).rejects.toThrow('must be the hex SHA-256 hash of the key');
+  });
+});
+
+describe('JwtAccessTokenVerifier', () => {
+  let jwksServer: http.Server;
+  let jwksUrl: string;
+  let jwksRequests: number;
+
+  beforeAll(async () => {
+    const keys = [
+      { ...rsaKey.publicKey.export({ format: 'jwk' }), kid: 'rsa-1', alg: 'RS256', use: 'sig' },
+      { ...ecKey.publicKey.export({ format: 'jwk' }), kid: 'ec-1', alg: 'ES256', use: 'sig' }
+    ];
+    jwksServer = http.createServer((_request, response) => {
+      jwksRequests++;
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ keys }));
+    });
+    await new Promise<void>(resolve => jwksServer.listen(0, '127.0.0.1', resolve));
+    jwksUrl = `http://127.0.0.1:${(jwksServer.address() as AddressInfo).port}/jwks.json`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => jwksServer.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    jwksRequests = 0;
+  });
+
+  it('should accept tokens signed by a JWKS key and use the subject as client id', async () => {
+    const verifier = new JwtAccessTokenVerifier(jwksUrl, expectations, silentLogger);
+
+    await expect(verifier.verify(signJwt(claims()))).resolves.toMatchObject({
+      clientId: 'alice@example.com',
+      scopes: ['research', 'usage'],
+      resource: new URL(RESOURCE),
+      extra: { auth_method: 'jwt', oauth_client_id: 'research-agent' }
+    });
+    await expect(verifier.verify(signJwt(claims(), { alg: 'ES256', kid: 'ec-1' }))).resolves.toMatchObject({
+      clientId: 'alice@example.com'
+    });
+    expect(jwksRequests).toBe(1);
+  });
+
+  it('should reject tokens with a bad signature, audience, issuer or lifetime', async () => {
+    const verifier = new JwtAccessTokenVerifier(jwksUrl, expectations, silentLogger);
+
+    await expect(verifier.verify(signJwt(claims(), { key: otherKey.privateKey }))).rejects.toThrow('Token signature is invalid');
+    await expect(verifier.verify(signJwt(claims({ aud: 'https://other.example.com/mcp' })))).rejects.toThrow('Token was not issued for this server');
+    await expect(verifier.verify(signJwt(claims({ iss: 'https://evil.example.com' })))).rejects.toThrow('issued by another authorization server');
+    await expect(verifier.verify(signJwt(claims({ exp: Math.floor(Date.now() / 1000) - 120 })))).rejects.toThrow('Token has expired');
+    await expect(verifier.verify(signJwt(claims({ exp: undefined })))).rejects.toThrow('Token has no expiration time');
+    await expect(verifier.verify(signJwt(claims(), { alg: 'none' }))).rejects.toThrow('Unsupported token signature algorithm');
+    await expect(verifier.verify(signJwt(claims(), { alg: 'ES256', kid: 'rsa-1' }))).rejects.toThrow('not signed by a key of the authorization server');
+  });
+
+  it('should reject tokens whose header is not a JOSE header as invalid', async () => {
+    const verifier = new JwtAccessTokenVerifier(jwksUrl, expectations, silentLogger);
+    const nullHeader = `${Buffer.from('null').toString('base64url')}.x.y`;
+
+    await expect(verifier.verify(nullHeader)).rejects.toBeInstanceOf(InvalidTokenError);
+    await expect(verifier.verify(nullHeader)).rejects.toThrow('Token header is malformed');
+    expect(jwksRequests).toBe(0);
+  });
+
+  it('should leave tokens that are not JWTs to other verifiers', async () => {
+    const verifier = new JwtAccessTokenVerifier(jwksUrl, expectations, silentLogger);
+
+    await expect(verifier.verify('plain-api-key')).resolves.toBeUndefined();
+    expect(jwksRequests).toBe(0);
+  });
+});
+
+describe('LocalIntrospectionVerifier', () => {
+  it('should accept active tokens issued for this server', async () => {
+    const verifier = new LocalIntrospectionVerifier({
+      [hashToken('token-active')]: { active: true, ...claims() },
+      [hashToken('token-revoked')]: { active: false, ...claims() }
+    }, expectations);
+
+    await expect(verifier.verify('token-active')).resolves.toMatchObject({
+      clientId: 'alice@example.com',
+      extra: { auth_method: 'introspection' }
+    });
+    await expect(verifier.verify('token-revoked')).rejects.toThrow('Token is not active');
+    await expect(verifier.verify('token-unknown')).resolves.toBeUndefined();
+  });
+});
+
+describe('McpHttpServer with authentication', () => {
+  const config: ServerConfig['http'] = {
+    port: 0,
+    host: '127.0.0.1',
+    path: '/mcp',
+    sessionIdleTimeoutSeconds: 600,
+    enableLegacySse: true,
+    ssePath: '/sse',
+    messagesPath: '/messages',
+    enableCors: true,
+    enableHelmet: true
+  };
+  let httpServer: McpHttpServer;
+  let url: URL;
+  let clients: Client[];
+
+  beforeEach(async () => {
+    const authenticator = new HttpAuthenticator(
+      [
+        new ApiKeyVerifier([
+          { client_id: 'analytics-team', key_sha256: hashToken('key-analytics'), scopes: ['research'] },
+          { client_id: 'finance-team', key_sha256: hashToken('key-finance'), scopes: ['research'] },
+          { client_id: 'reporting-bot', key_sha256: hashToken('key-reporting') }
+        ])
+      ],
+      { resourceUrl: RESOURCE, authorizationServers: [ISSUER], requiredScopes: ['research'] },
+      silentLogger
+    );
+    httpServer = new McpHttpServer(
+      config,
+      clientId => {
+        const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+        server.registerTool('whoami', { description: 'Client id of the session', inputSchema: {} }, async () => ({
+          content: [{ type: 'text', text: clientId }]
+        }));
+        return server;
+      },
+      req => getAuthInfo(req)?.clientId ?? 'default_client',
+      silentLogger,
+      authenticator
+    );
+    const address = await httpServer.start();
+    url = new URL(`http://127.0.0.1:${address.port}/mcp`);
+    clients = [];
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      await client.close();
+    }
+    await httpServer.close();
+  });
+
+  async function connect(apiKey: string): Promise<StreamableHTTPClientTransport> {
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: { headers: { Authorization: `Bearer ${apiKey}` } }
+    });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport as Transport);
+    clients.push(client);
+    return transport;
+  }
+
+  it('should challenge requests without credentials with the resource metadata', async () => {
+    const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate'))
+      .toBe('Bearer resource_metadata="https://research.example.com/.well-known/oauth-protected-resource/mcp"');
+
+    const metadata = await fetch(new URL('/.well-known/oauth-protected-resource/mcp', url));
+    await expect(metadata.json()).resolves.toEqual({
+      resource: RESOURCE,
+      authorization_servers: [ISSUER],
+      bearer_methods_supported: ['header'],
+      resource_name: 'OpenAI Deep Research MCP Server',
+      scopes_supported: ['research']
+    });
+  });
+
+  it('should reject unknown keys and keys without the required scopes', async () => {
+    const unknown = await fetch(url, { method: 'GET', headers: { Authorization: 'Bearer key-unknown' } });
+    expect(unknown.status).toBe(401);
+    expect(unknown.headers.get('www-authenticate')).toContain('error="invalid_token"');
+
+    const unscoped = await fetch(url, { method: 'GET', headers: { Authorization: 'Bearer key-reporting' } });
+    expect(unscoped.status).toBe(403);
+    expect(unscoped.headers.get('www-authenticate')).toContain('error="insufficient_scope", error_description="Token needs the scopes research", scope="research"');
+  });
+
+  it('should run each session as its authenticated principal and keep other clients out of it', async () => {
+    const transport = await connect('key-analytics');
+    const [session] = httpServer.getSessions();
+    expect(session?.clientId).toBe('analytics-team');
+
+    const result = await clients[0]?.callTool({ name: 'whoami', arguments: {} });
+    expect(result?.content).toEqual([{ type: 'text', text: 'analytics-team' }]);
+
+    const hijack = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: 'Bearer key-finance',
+        'Mcp-Session-Id': transport.sessionId ?? ''
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} })
+    });
+    expect(hijack.status).toBe(404);
+  });
+});
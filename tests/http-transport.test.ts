@@ -0,0 +1,200 @@
+import type { AddressInfo } from 'net';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { McpHttpServer } from '../src/modules/http-transport';
+import type { Logger, ServerConfig } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+const config: ServerConfig['http'] = {
+  port: 0,
+  host: '127.0.0.1',
+  path: '/mcp',
+  sessionIdleTimeoutSeconds: 600,
+  enableLegacySse: true,
+  ssePath: '/sse',
+  messagesPath: '/messages',
+  enableCors: true,
+  enableHelmet: true
+};
+
+/**
+ * Session server with one tool answering the client id the session runs as
+ */
+function createSessionServer(clientId: string): McpServer {
+  const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+  server.registerTool('whoami', { description: 'Client id of the session', inputSchema: {} }, async () => ({
+    content: [{ type: 'text', text: clientId }]
+  }));
+  return server;
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('McpHttpServer', () => {
+  let httpServer: McpHttpServer;
+  let url: URL;
+  let clients: Client[];
+
+  beforeEach(async () => {
+    httpServer = new McpHttpServer(
+      config,
+      createSessionServer,
+      req => req.header('x-test-client') || 'default_client',
+      silentLogger
+    );
+    const address: AddressInfo = await httpServer.start();
+    url = new URL(`http://127.0.0.1:${address.port}/mcp`);
+    clients = [];
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      await client.close();
+    }
+    await httpServer.close();
+  });
+
+  async function connect(clientId?: string): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: { headers: clientId ? { 'x-test-client': clientId } : {} }
+    });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    // The client transport's optional sessionId does not satisfy exactOptionalPropertyTypes
+    await client.connect(transport as Transport);
+    clients.push(client);
+    return { client, transport };
+  }
+
+  async function connectSse(clientId: string): Promise<Client> {
+    const transport = new SSEClientTransport(new URL('/sse', url), {
+      requestInit: { headers: { 'x-test-client': clientId } }
+    });
+    const client = new Client({ name: 'legacy-client', version: '1.0.0' });
+    await client.connect(transport as Transport);
+    clients.push(client);
+    return client;
+  }
+
+  it('should open one session per client connection and keep its client identity', async () => {
+    const first = await connect('client_a');
+    const second = await connect('client_b');
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(second.transport.sessionId).not.toBe(first.transport.sessionId);
+    expect(httpServer.getSessions().map(session => session.clientId).sort()).toEqual(['client_a', 'client_b']);
+
+    const result = await second.client.callTool({ name: 'whoami', arguments: {} });
+    expect(result.content).toEqual([{ type: 'text', text: 'client_b' }]);
+  });
+
+  it('should reject requests without a session or with an unknown session', async () => {
+    const listTools = { jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} };
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+    const missing = await fetch(url, { method: 'POST', headers, body: JSON.stringify(listTools) });
+    expect(missing.status).toBe(400);
+
+    const unknown = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': 'no-such-session' },
+      body: JSON.stringify(listTools)
+    });
+    expect(unknown.status).toBe(404);
+    expect(await unknown.json()).toMatchObject({ jsonrpc: '2.0', error: { code: -32000 } });
+  });
+
+  it('should tear down a session the client ends', async () => {
+    const { transport } = await connect();
+    expect(httpServer.getSessions()).toHaveLength(1);
+
+    await transport.terminateSession();
+
+    expect(httpServer.getSessions()).toHaveLength(0);
+  });
+
+  it('should close sessions idle for longer than the timeout unless a stream is open', async () => {
+    // The SDK client keeps a stream open for server notifications; a bare initialize request does not
+    await connect('client_a');
+    const initialize = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'x-test-client': 'client_b' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'curl', version: '1.0.0' } }
+      })
+    });
+    await initialize.text();
+    await waitFor(() => httpServer.getSessions().every(session => session.clientId === 'client_a'
+      ? session.openRequests > 0
+      : session.openRequests === 0));
+
+    await expect(httpServer.closeIdleSessions(Date.now() + 601 * 1000)).resolves.toBe(1);
+    expect(httpServer.getSessions().map(session => session.clientId)).toEqual(['client_a']);
+  });
+
+  it('should serve legacy SSE clients with the same tools and client identity', async () => {
+    const legacy = await connectSse('client_c');
+    await connect('client_d');
+
+    expect(httpServer.getSessions().map(session => [session.clientId, session.protocol]).sort()).toEqual([
+      ['client_c', 'sse'],
+      ['client_d', 'streamable-http']
+    ]);
+
+    const result = await legacy.callTool({ name: 'whoami', arguments: {} });
+    expect(result.content).toEqual([{ type: 'text', text: 'client_c' }]);
+  });
+
+  it('should not route messages across the two transports', async () => {
+    await connectSse('client_c');
+    const [session] = httpServer.getSessions();
+    const listTools = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} });
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'Mcp-Session-Id': session?.id ?? '' },
+      body: listTools
+    });
+    expect(response.status).toBe(404);
+
+    const missing = await fetch(new URL('/messages', url), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: listTools });
+    expect(missing.status).toBe(400);
+  });
+
+  it('should tear down a legacy session when its stream closes', async () => {
+    const legacy = await connectSse('client_c');
+    expect(httpServer.getSessions()).toHaveLength(1);
+
+    await legacy.close();
+    await waitFor(() => httpServer.getSessions().length === 0);
+
+    expect(httpServer.getSessions()).toHaveLength(0);
+  });
+
+  it('should close every session when it stops', async () => {
+    await connect('client_a');
+    await connectSse('client_b');
+
+    await httpServer.close();
+
+    expect(httpServer.getSessions()).toHaveLength(0);
+    await expect(fetch(new URL('/health', url))).rejects.toThrow();
+  });
+});
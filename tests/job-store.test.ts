@@ -0,0 +1,149 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { SQLiteJobStore, InMemoryJobStore, ResearchJobStore } from '../src/modules/job-store';
+import type { AccuracyDowngrade, Logger, ResearchJob } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+function createJob(overrides: Partial<ResearchJob> = {}): ResearchJob {
+  return {
+    job_id: 'job_1',
+    client_id: 'client_a',
+    request: {
+      research_query: 'What is the current state of solid-state batteries?',
+      accuracy_level: 'medium',
+      include_sources: true,
+      response_format: 'comprehensive'
+    },
+    model_used: 'o4-mini-deep-research',
+    status: 'queued',
+    openai_response_id: 'resp_123',
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe.each([
+  ['SQLiteJobStore', (): ResearchJobStore => new SQLiteJobStore(':memory:', silentLogger)],
+  ['InMemoryJobStore', (): ResearchJobStore => new InMemoryJobStore()]
+])('%s', (_name, createStore) => {
+  let store: ResearchJobStore;
+
+  beforeEach(async () => {
+    store = createStore();
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('should save and load a job', async () => {
+    await store.saveJob(createJob());
+
+    const job = await store.getJob('job_1');
+    expect(job).toMatchObject({
+      job_id: 'job_1',
+      client_id: 'client_a',
+      status: 'queued',
+      openai_response_id: 'resp_123'
+    });
+    expect(job?.request.research_query).toContain('solid-state');
+  });
+
+  it('should return undefined for unknown jobs', async () => {
+    await expect(store.getJob('missing')).resolves.toBeUndefined();
+  });
+
+  it('should update status, cost and result of an existing job', async () => {
+    await store.saveJob(createJob());
+    await store.saveJob(createJob({
+      status: 'failed',
+      cost_usd: 1.25,
+      error: 'boom',
+      completed_at: '2025-01-01T00:05:00.000Z'
+    }));
+
+    const job = await store.getJob('job_1');
+    expect(job?.status).toBe('failed');
+    expect(job?.cost_usd).toBe(1.25);
+    expect(job?.error).toBe('boom');
+    expect(job?.completed_at).toBe('2025-01-01T00:05:00.000Z');
+  });
+
+  it('should not overwrite a job that already finished', async () => {
+    await store.saveJob(createJob());
+    await expect(store.saveJob(createJob({ status: 'completed', cost_usd: 2 }))).resolves.toBe(true);
+
+    await expect(store.saveJob(createJob({ status: 'in_progress' }))).resolves.toBe(false);
+    await expect(store.saveJob(createJob({ status: 'cancelled', cost_usd: 0.5 }))).resolves.toBe(false);
+    await expect(store.getJob('job_1')).resolves.toMatchObject({ status: 'completed', cost_usd: 2 });
+  });
+
+  it('should list jobs by status', async () => {
+    await store.saveJob(createJob({ job_id: 'job_1', status: 'queued' }));
+    await store.saveJob(createJob({ job_id: 'job_2', status: 'in_progress' }));
+    await store.saveJob(createJob({ job_id: 'job_3', status: 'completed' }));
+
+    const active = await store.listJobsByStatus(['queued', 'in_progress']);
+    expect(active.map(job => job.job_id).sort()).toEqual(['job_1', 'job_2']);
+  });
+
+  it('should keep the accuracy downgrade of a job', async () => {
+    await store.saveJob(createJob({ accuracy_downgrade: downgrade }));
+
+    await expect(store.getJob('job_1')).resolves.toMatchObject({ accuracy_downgrade: downgrade });
+  });
+});
+
+const downgrade: AccuracyDowngrade = {
+  requested_accuracy_level: 'high',
+  accuracy_level: 'medium',
+  reason: 'daily_limit',
+  message: 'Accuracy level changed from high to medium (o4-mini-deep-research) instead of rejecting the request. Daily request limit reached for high accuracy research',
+  cost_savings_tip: 'Medium accuracy is estimated at $0.12 instead of $0.45 for high accuracy'
+};
+
+describe('SQLiteJobStore schema upgrade', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'job-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should add the accuracy downgrade column to an existing database', async () => {
+    const filename = path.join(directory, 'jobs.db');
+    const db = new sqlite3.Database(filename);
+    await new Promise<void>((resolve, reject) => {
+      db.run(`CREATE TABLE research_jobs (
+        job_id TEXT PRIMARY KEY, client_id TEXT NOT NULL, status TEXT NOT NULL, model_used TEXT NOT NULL,
+        openai_response_id TEXT, request_json TEXT NOT NULL, result_json TEXT, cost_usd REAL, error TEXT,
+        created_at TEXT NOT NULL, updated_at TEXT NOT NULL, completed_at TEXT
+      )`, error => (error ? reject(error) : resolve()));
+    });
+    await new Promise<void>((resolve, reject) => db.close(error => (error ? reject(error) : resolve())));
+
+    const store = new SQLiteJobStore(filename, silentLogger);
+    await store.initialize();
+    try {
+      await store.saveJob(createJob({ accuracy_downgrade: downgrade }));
+      await expect(store.getJob('job_1')).resolves.toMatchObject({ accuracy_downgrade: downgrade });
+    } finally {
+      await store.close();
+    }
+  });
+});
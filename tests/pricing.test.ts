@@ -0,0 +1,171 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import type { Response as OpenAIResponse } from 'openai/resources/responses/responses';
+import {
+  DEFAULT_PRICING_TABLE,
+  calculateCostInfo,
+  countWebSearchCalls,
+  estimateResearchCost,
+  getModelPricing,
+  loadPricingTable
+} from '../src/modules/pricing';
+import { OpenAIDeepResearchClient } from '../src/modules/openai-client';
+import type { Logger } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+const fixture = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'deep-research-response.json'), 'utf8')
+) as OpenAIResponse;
+
+describe('calculateCostInfo', () => {
+  it('should price each component of a run separately', () => {
+    const costInfo = calculateCostInfo(
+      getModelPricing(DEFAULT_PRICING_TABLE, 'o3-deep-research'),
+      'high',
+      fixture.usage,
+      countWebSearchCalls(fixture.output)
+    );
+
+    expect(costInfo.breakdown).toEqual({
+      input_tokens: 1426,
+      cached_input_tokens: 1024,
+      output_tokens: 1600,
+      reasoning_tokens: 8200,
+      web_search_calls: 4,
+      input_usd: 0.01426,
+      cached_input_usd: 0.00256,
+      output_usd: 0.064,
+      reasoning_usd: 0.328,
+      web_search_usd: 0.04
+    });
+    expect(costInfo.estimated_cost_usd).toBe(0.44882);
+    expect(costInfo.cost_per_1k_tokens).toBe(0.036638);
+    expect(costInfo.billing_tier).toBe('premium');
+  });
+
+  it('should cost nothing without usage', () => {
+    const costInfo = calculateCostInfo(DEFAULT_PRICING_TABLE['o4-mini-deep-research']!, 'medium', undefined, 0);
+
+    expect(costInfo.estimated_cost_usd).toBe(0);
+    expect(costInfo.cost_per_1k_tokens).toBe(0);
+    expect(costInfo.billing_tier).toBe('standard');
+  });
+});
+
+describe('estimateResearchCost', () => {
+  it('should include the context, reasoning and searches of a typical run', () => {
+    const estimate = estimateResearchCost(DEFAULT_PRICING_TABLE, {
+      research_query: 'a'.repeat(400),
+      accuracy_level: 'medium',
+      include_sources: true,
+      response_format: 'comprehensive',
+      max_tokens: 4000
+    });
+
+    expect(estimate.estimated_total_tokens).toBe(100 + 60000 + 4000 + 10000);
+    expect(estimate.cost_info.breakdown.web_search_calls).toBe(20);
+    expect(estimate.cost_info.estimated_cost_usd).toBeCloseTo(0.1202 + 0.032 + 0.08 + 0.2, 6);
+  });
+
+  it('should estimate high accuracy above medium accuracy', () => {
+    const request = {
+      research_query: 'Compare sodium-ion and lithium-ion battery costs',
+      include_sources: true,
+      response_format: 'comprehensive' as const
+    };
+    const high = estimateResearchCost(DEFAULT_PRICING_TABLE, { ...request, accuracy_level: 'high' });
+    const medium = estimateResearchCost(DEFAULT_PRICING_TABLE, { ...request, accuracy_level: 'medium' });
+
+    expect(high.cost_info.estimated_cost_usd).toBeGreaterThan(medium.cost_info.estimated_cost_usd);
+  });
+});
+
+describe('OpenAIDeepResearchClient.estimateRequestCost', () => {
+  const client = new OpenAIDeepResearchClient({ apiKey: 'test-key', timeout: 60, maxRetries: 0 }, silentLogger);
+  const request = {
+    research_query: 'Compare sodium-ion and lithium-ion battery costs',
+    include_sources: true,
+    response_format: 'comprehensive' as const
+  };
+
+  it('should give the typical estimate within a token, cost and time range', () => {
+    const estimate = client.estimateRequestCost({ ...request, accuracy_level: 'high' });
+
+    expect(estimate.model).toBe('o3-deep-research');
+    expect(estimate.estimated_cost_usd).toBe(
+      estimateResearchCost(DEFAULT_PRICING_TABLE, { ...request, accuracy_level: 'high' }).cost_info.estimated_cost_usd
+    );
+    expect(estimate.token_range.min).toBeLessThan(estimate.estimated_total_tokens);
+    expect(estimate.token_range.max).toBeGreaterThan(estimate.estimated_total_tokens);
+    expect(estimate.cost_range_usd.min).toBeLessThan(estimate.estimated_cost_usd);
+    expect(estimate.cost_range_usd.max).toBeGreaterThan(estimate.estimated_cost_usd);
+    expect(estimate.time_range_seconds).toEqual({ min: 120, max: 480 });
+    expect(estimate.warning).toBeUndefined();
+  });
+
+  it('should warn when max_tokens exceeds the model report limit', () => {
+    const estimate = client.estimateRequestCost({ ...request, accuracy_level: 'medium', max_tokens: 6000 });
+
+    expect(estimate.warning).toContain('exceeds the 4000 token report limit of o4-mini-deep-research');
+  });
+});
+
+describe('loadPricingTable', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pricing-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  function writeTable(content: unknown): string {
+    const filePath = path.join(directory, 'pricing.json');
+    fs.writeFileSync(filePath, JSON.stringify(content));
+    return filePath;
+  }
+
+  it('should merge partial prices over the built-in table and add new models', async () => {
+    const newModel = {
+      input_per_1m_tokens: 5,
+      cached_input_per_1m_tokens: 1,
+      output_per_1m_tokens: 20,
+      reasoning_per_1m_tokens: 20,
+      web_search_per_call: 0.02
+    };
+    const table = await loadPricingTable(writeTable({
+      'o3-deep-research': { web_search_per_call: 0.025 },
+      'custom-deep-research': newModel
+    }), silentLogger);
+
+    expect(table['o3-deep-research']).toEqual({ ...DEFAULT_PRICING_TABLE['o3-deep-research'], web_search_per_call: 0.025 });
+    expect(table['o4-mini-deep-research']).toEqual(DEFAULT_PRICING_TABLE['o4-mini-deep-research']);
+    expect(table['custom-deep-research']).toEqual(newModel);
+  });
+
+  it('should reject new models missing prices', async () => {
+    await expect(loadPricingTable(writeTable({
+      'custom-deep-research': { input_per_1m_tokens: 5 }
+    }), silentLogger)).rejects.toThrow("model 'custom-deep-research' must define every price");
+  });
+
+  it('should reject negative and unknown prices', async () => {
+    await expect(loadPricingTable(writeTable({
+      'o3-deep-research': { input_per_1m_tokens: -1 }
+    }), silentLogger)).rejects.toThrow('o3-deep-research.input_per_1m_tokens');
+    await expect(loadPricingTable(writeTable({
+      'o3-deep-research': { image_per_call: 0.1 }
+    }), silentLogger)).rejects.toThrow('Invalid pricing table');
+  });
+});
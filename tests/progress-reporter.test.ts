@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import type { Response as OpenAIResponse } from 'openai/resources/responses/responses';
+import type { ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import {
+  describeResponseProgress,
+  ResearchProgressReporter
+} from '../src/modules/progress-reporter';
+import type { Logger } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+function responseWith(status: string, outputTypes: string[]): OpenAIResponse {
+  return {
+    id: 'resp_1',
+    status,
+    output: outputTypes.map((type, index) => ({ id: `item_${index}`, type }))
+  } as unknown as OpenAIResponse;
+}
+
+describe('describeResponseProgress', () => {
+  it('should report queued responses', () => {
+    expect(describeResponseProgress(responseWith('queued', [])).phase).toBe('queued');
+  });
+
+  it('should count web searches while searching', () => {
+    const update = describeResponseProgress(
+      responseWith('in_progress', ['reasoning', 'web_search_call', 'web_search_call'])
+    );
+    expect(update.phase).toBe('searching');
+    expect(update.web_searches).toBe(2);
+  });
+
+  it('should report reasoning after the latest search', () => {
+    const update = describeResponseProgress(
+      responseWith('in_progress', ['web_search_call', 'reasoning'])
+    );
+    expect(update.phase).toBe('reasoning');
+  });
+
+  it('should report finalizing once a message is being written', () => {
+    const update = describeResponseProgress(
+      responseWith('in_progress', ['web_search_call', 'reasoning', 'message'])
+    );
+    expect(update.phase).toBe('finalizing');
+  });
+});
+
+describe('ResearchProgressReporter', () => {
+  it('should send increasing progress with the model estimate as total', async () => {
+    const notifications: ServerNotification[] = [];
+    const reporter = new ResearchProgressReporter(
+      'token-1',
+      async notification => {
+        notifications.push(notification);
+      },
+      'medium',
+      silentLogger
+    );
+
+    reporter.report({ phase: 'queued', message: 'queued' });
+    reporter.report({ phase: 'submitted', message: 'submitted' });
+    reporter.report({ phase: 'completed', message: 'done' });
+
+    expect(notifications).toHaveLength(3);
+    const params = notifications.map(n => n.params as { progressToken: string; progress: number; total: number });
+    expect(params.every(p => p.progressToken === 'token-1')).toBe(true);
+    expect(params[1]!.progress).toBeGreaterThan(params[0]!.progress);
+    expect(params[2]!.progress).toBeGreaterThan(params[1]!.progress);
+    expect(params[0]!.total).toBe(90);
+    expect(params[2]!.total).toBe(params[2]!.progress);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import path from 'path';
+import { PromptTemplateRegistry, parsePromptTemplate } from '../src/modules/prompt-templates';
+import { ResearchRequestValidator } from '../src/modules/validation';
+import { OpenAIDeepResearchClient } from '../src/modules/openai-client';
+import type { Logger } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+const templatesDir = path.join(__dirname, '..', 'templates');
+
+describe('parsePromptTemplate', () => {
+  it('should read the description and required and optional variables', () => {
+    const template = parsePromptTemplate(
+      'house_style',
+      '<!-- Our house\n style -->\nWrite for {{audience}} about {{topic | the topic}}. Keep {{audience}} in mind.'
+    );
+
+    expect(template.description).toBe('Our house style');
+    expect(template.body.startsWith('Write for')).toBe(true);
+    expect(template.variables).toEqual([
+      { name: 'audience', required: true },
+      { name: 'topic', required: false, default: 'the topic' }
+    ]);
+  });
+});
+
+describe('PromptTemplateRegistry', () => {
+  const registry = new PromptTemplateRegistry(silentLogger);
+
+  beforeAll(async () => {
+    await registry.loadFromDirectory(templatesDir);
+  });
+
+  it('should load the bundled templates', () => {
+    expect(registry.list().map(template => template.name)).toEqual([
+      'competitor_analysis',
+      'literature_review',
+      'regulatory_scan',
+      'technical_deep_dive'
+    ]);
+    expect(registry.get('literature_review')?.description).toBe('Structured review of the academic literature on a topic');
+  });
+
+  it('should render variables and fall back to defaults', () => {
+    const rendered = registry.render('literature_review', { field: 'materials science' });
+
+    expect(rendered).toContain('in the field of materials science, covering work published in the last five years.');
+    expect(rendered).not.toContain('{{');
+  });
+
+  it('should render the template into the prompt sent to the model', () => {
+    const client = new OpenAIDeepResearchClient({ apiKey: 'test-key', timeout: 60, maxRetries: 0 }, silentLogger, registry);
+    const prompt = client.renderPrompt({
+      research_query: 'Recent advances in solid-state electrolytes',
+      accuracy_level: 'medium',
+      include_sources: true,
+      response_format: 'summary',
+      template: 'literature_review',
+      template_variables: { field: 'materials science' }
+    });
+
+    expect(prompt.input).toBe('Recent advances in solid-state electrolytes');
+    expect(prompt.instructions).toContain('in the field of materials science');
+    expect(prompt.instructions).not.toContain('{{');
+  });
+
+  it('should report missing, unknown and misspelled variables', () => {
+    expect(registry.validate('competitor_analysis', { company: 'Acme', regoin: 'EU' })).toEqual([
+      {
+        field: 'template_variables.market',
+        message: "Template 'competitor_analysis' requires the variable 'market'",
+        code: 'required'
+      },
+      {
+        field: 'template_variables.regoin',
+        message: "Template 'competitor_analysis' has no variable 'regoin' (expected: company, market, region)",
+        code: 'unknown_variable'
+      }
+    ]);
+  });
+
+  it('should list the available templates for an unknown name', () => {
+    const [error] = registry.validate('market_sizing');
+
+    expect(error?.code).toBe('unknown_template');
+    expect(error?.message).toContain('Available templates: competitor_analysis, literature_review');
+  });
+
+  it('should refuse to render an invalid combination', () => {
+    expect(() => registry.render('regulatory_scan', { topic: 'AI' })).toThrow("requires the variable 'jurisdiction'");
+  });
+
+  it('should tolerate a missing directory', async () => {
+    const empty = new PromptTemplateRegistry(silentLogger);
+
+    await expect(empty.loadFromDirectory(path.join(templatesDir, 'does-not-exist'))).resolves.toBe(0);
+    expect(empty.list()).toEqual([]);
+  });
+
+  it('should reject template requests that do not match the template in the validator', () => {
+    const validator = new ResearchRequestValidator(silentLogger, registry);
+    const result = validator.validateResearchRequest({
+      research_query: 'Recent advances in solid-state electrolytes for batteries',
+      accuracy_level: 'medium',
+      template: 'literature_review'
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors?.[0]?.field).toBe('template_variables.field');
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  SlidingLogWindow,
+  SlidingWindowCounter,
+  TokenBucketWindow,
+  getLocalDate,
+  getNextLocalMidnight,
+  getNextLocalMonthStart
+} from '../src/modules/rate-limit-algorithms';
+import { InMemoryUsageStore } from '../src/modules/usage-store';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+describe('SlidingLogWindow', () => {
+  let window: SlidingLogWindow;
+  const start = Date.now();
+
+  beforeEach(() => {
+    window = new SlidingLogWindow(new InMemoryUsageStore(), HOUR_MS);
+  });
+
+  it('should count requests in the last hour and retry when the oldest one leaves it', async () => {
+    await window.record('client_a', 'hourly:medium', 3, start);
+    await window.record('client_a', 'hourly:medium', 3, start + 10 * MINUTE_MS);
+    await window.record('client_a', 'hourly:medium', 3, start + 20 * MINUTE_MS);
+
+    await expect(window.check('client_a', 'hourly:medium', 3, start + 30 * MINUTE_MS)).resolves.toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 30 * 60
+    });
+    await expect(window.check('client_a', 'hourly:medium', 3, start + 61 * MINUTE_MS)).resolves.toEqual({
+      allowed: true,
+      remaining: 1,
+      retryAfterSeconds: 0
+    });
+  });
+});
+
+describe('SlidingWindowCounter', () => {
+  let window: SlidingWindowCounter;
+  const currentHourStart = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+  const previousHourStart = currentHourStart - HOUR_MS;
+
+  beforeEach(() => {
+    window = new SlidingWindowCounter(new InMemoryUsageStore(), HOUR_MS);
+  });
+
+  it('should weight the previous hour by its overlap with the rolling hour', async () => {
+    for (let i = 0; i < 4; i++) {
+      await window.record('client_a', 'hourly:medium', 4, previousHourStart + 10 * MINUTE_MS);
+    }
+
+    await expect(window.check('client_a', 'hourly:medium', 4, currentHourStart)).resolves.toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 15 * 60
+    });
+    await expect(window.check('client_a', 'hourly:medium', 4, currentHourStart + 15 * MINUTE_MS)).resolves.toEqual({
+      allowed: true,
+      remaining: 1,
+      retryAfterSeconds: 0
+    });
+  });
+
+  it('should not allow a burst of twice the limit across an hour boundary', async () => {
+    for (let i = 0; i < 4; i++) {
+      await window.record('client_a', 'hourly:medium', 4, previousHourStart + 59 * MINUTE_MS);
+    }
+
+    const result = await window.check('client_a', 'hourly:medium', 4, currentHourStart + MINUTE_MS);
+
+    expect(result.allowed).toBe(false);
+    expect(result.retryAfterSeconds).toBe(14 * 60);
+  });
+});
+
+describe('TokenBucketWindow', () => {
+  let window: TokenBucketWindow;
+  const start = Date.now();
+
+  beforeEach(() => {
+    window = new TokenBucketWindow(new InMemoryUsageStore(), HOUR_MS);
+  });
+
+  it('should allow a burst up to the limit and refill evenly over the hour', async () => {
+    for (let i = 0; i < 4; i++) {
+      await window.record('client_a', 'hourly:medium', 4, start);
+    }
+
+    await expect(window.check('client_a', 'hourly:medium', 4, start)).resolves.toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 15 * 60
+    });
+    await expect(window.check('client_a', 'hourly:medium', 4, start + 15 * MINUTE_MS)).resolves.toEqual({
+      allowed: true,
+      remaining: 1,
+      retryAfterSeconds: 0
+    });
+  });
+});
+
+describe('local days', () => {
+  it('should use the calendar date of the timezone', () => {
+    const timestamp = Date.parse('2026-10-19T20:00:00Z');
+
+    expect(getLocalDate(timestamp, 'UTC')).toBe('2026-10-19');
+    expect(getLocalDate(timestamp, 'Asia/Tokyo')).toBe('2026-10-20');
+    expect(getLocalDate(timestamp, 'America/Los_Angeles')).toBe('2026-10-19');
+  });
+
+  it('should find the next local midnight', () => {
+    expect(getNextLocalMidnight(Date.parse('2026-10-19T23:59:30Z'), 'UTC')).toBe(Date.parse('2026-10-20T00:00:00Z'));
+    expect(getNextLocalMidnight(Date.parse('2026-10-19T20:00:00Z'), 'Asia/Tokyo')).toBe(Date.parse('2026-10-20T15:00:00Z'));
+  });
+
+  it('should follow daylight saving time changes', () => {
+    // 2026-03-07 22:30 PST; clocks move forward on March 8
+    expect(getNextLocalMidnight(Date.parse('2026-03-08T06:30:00Z'), 'America/Los_Angeles'))
+      .toBe(Date.parse('2026-03-08T08:00:00Z'));
+    // 2026-03-08 05:00 PDT
+    expect(getNextLocalMidnight(Date.parse('2026-03-08T12:00:00Z'), 'America/Los_Angeles'))
+      .toBe(Date.parse('2026-03-09T07:00:00Z'));
+  });
+
+  it('should find the start of the next local month', () => {
+    expect(getNextLocalMonthStart(Date.parse('2026-10-19T10:00:00Z'), 'UTC')).toBe(Date.parse('2026-11-01T00:00:00Z'));
+    // Already November 1 in Tokyo
+    expect(getNextLocalMonthStart(Date.parse('2026-10-31T20:00:00Z'), 'Asia/Tokyo')).toBe(Date.parse('2026-11-30T15:00:00Z'));
+    // Standard time starts on November 1 in Los Angeles
+    expect(getNextLocalMonthStart(Date.parse('2026-10-31T12:00:00Z'), 'America/Los_Angeles'))
+      .toBe(Date.parse('2026-11-01T07:00:00Z'));
+  });
+});
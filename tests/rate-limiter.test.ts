@@ -0,0 +1,411 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ResearchRateLimiter, createDefaultRateLimitConfig } from '../src/modules/rate-limiter';
+import { DEFAULT_PRICING_TABLE, estimateResearchCost } from '../src/modules/pricing';
+import { InMemoryUsageStore } from '../src/modules/usage-store';
+import type { UsageIncrement, UsageValue } from '../src/modules/usage-store';
+import type { Logger, RateLimitConfig } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+const config: RateLimitConfig = {
+  requests_per_hour: 10,
+  requests_per_day: 30,
+  tokens_per_day: 100000,
+  daily_cost_limit_usd: 5,
+  high_accuracy_daily_limit: 8,
+  medium_accuracy_daily_limit: 16
+};
+
+/**
+ * Usage store that can be made to fail reads or writes, like an unreachable Redis
+ */
+class FailingUsageStore extends InMemoryUsageStore {
+  failReads = false;
+  failWrites = false;
+
+  async getCounters(clientId: string, keys: string[]): Promise<Record<string, number>> {
+    if (this.failReads) throw new Error('Redis connection lost');
+    return super.getCounters(clientId, keys);
+  }
+
+  async getEvents(clientId: string, key: string, since: number): Promise<number[]> {
+    if (this.failReads) throw new Error('Redis connection lost');
+    return super.getEvents(clientId, key, since);
+  }
+
+  async increment(clientId: string, increments: UsageIncrement[]): Promise<void> {
+    if (this.failWrites) throw new Error('SQLITE_BUSY: database is locked');
+    return super.increment(clientId, increments);
+  }
+
+  async setCounters(clientId: string, values: UsageValue[]): Promise<void> {
+    if (this.failWrites) throw new Error('SQLITE_BUSY: database is locked');
+    return super.setCounters(clientId, values);
+  }
+
+  async addEvent(clientId: string, key: string, timestamp: number, ttlSeconds: number): Promise<void> {
+    if (this.failWrites) throw new Error('SQLITE_BUSY: database is locked');
+    return super.addEvent(clientId, key, timestamp, ttlSeconds);
+  }
+}
+
+describe('ResearchRateLimiter', () => {
+  let limiter: ResearchRateLimiter;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T10:00:00Z') });
+    limiter = new ResearchRateLimiter(config, silentLogger);
+  });
+
+  afterEach(async () => {
+    await limiter.cleanup();
+    jest.useRealTimers();
+  });
+
+  it('should allow requests within the limits and report the remaining quota', async () => {
+    const result = await limiter.checkRateLimit('client_a', 'medium', 0.85);
+
+    expect(result.allowed).toBe(true);
+    expect(result.remaining).toBe(1);
+    expect(result.costRemaining).toBe(5);
+  });
+
+  it('should reject once the hourly limit is used up, with the seconds until a request is allowed', async () => {
+    await limiter.recordRequest('client_a', 'medium', 0.5, 1000);
+    await limiter.recordRequest('client_a', 'medium', 0.5, 1000);
+
+    const result = await limiter.checkRateLimit('client_a', 'medium', 0.85);
+
+    // Sliding window: half of this hour's two requests still count 30 minutes into the next hour
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe('hourly_limit');
+    expect(result.retryAfter).toBe(90 * 60);
+    expect(result.remaining).toBe(0);
+  });
+
+  it('should use the configured hourly algorithm', async () => {
+    await limiter.cleanup();
+    limiter = new ResearchRateLimiter({ ...config, algorithm: 'token_bucket' }, silentLogger);
+
+    await limiter.recordRequest('client_a', 'medium', 0.5, 1000);
+    await limiter.recordRequest('client_a', 'medium', 0.5, 1000);
+
+    // Two requests per hour refill one every 30 minutes
+    await expect(limiter.checkRateLimit('client_a', 'medium', 0.85)).resolves.toMatchObject({
+      allowed: false,
+      reason: 'hourly_limit',
+      retryAfter: 30 * 60
+    });
+
+    jest.setSystemTime(new Date('2026-10-19T10:30:00Z'));
+    await expect(limiter.checkRateLimit('client_a', 'medium', 0.85)).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('should reset the daily limits at midnight in the configured timezone', async () => {
+    await limiter.cleanup();
+    jest.setSystemTime(new Date('2026-10-19T23:30:00Z'));
+    limiter = new ResearchRateLimiter({ ...config, reset_timezone: 'America/New_York' }, silentLogger);
+
+    await limiter.recordRequest('client_a', 'medium', 4.5, 1000);
+
+    // 19:30 in New York; the budget resets at 04:00 UTC
+    await expect(limiter.checkRateLimit('client_a', 'medium', 0.85)).resolves.toMatchObject({
+      allowed: false,
+      reason: 'cost_limit',
+      retryAfter: 270 * 60
+    });
+
+    jest.setSystemTime(new Date('2026-10-20T01:00:00Z'));
+    await expect(limiter.checkRateLimit('client_a', 'medium', 0.85)).resolves.toMatchObject({
+      allowed: false,
+      reason: 'cost_limit'
+    });
+
+    jest.setSystemTime(new Date('2026-10-20T04:00:00Z'));
+    await expect(limiter.checkRateLimit('client_a', 'medium', 0.85)).resolves.toMatchObject({
+      allowed: true,
+      costRemaining: 5
+    });
+  });
+
+  it('should reject requests while the limits cannot be checked', async () => {
+    await limiter.cleanup();
+    limiter = new ResearchRateLimiter({ ...config, reset_timezone: 'Mars/Olympus_Mons' }, silentLogger);
+
+    await expect(limiter.reserveBudget('client_a', 'medium', 0.85, 4000, 'job_1')).resolves.toMatchObject({
+      allowed: false,
+      reason: 'limits_unavailable',
+      retryAfter: 60
+    });
+  });
+
+  it('should reject requests while the usage store cannot be read', async () => {
+    const store = new FailingUsageStore();
+    await limiter.cleanup();
+    limiter = new ResearchRateLimiter(config, silentLogger, store);
+    store.failReads = true;
+
+    await expect(limiter.reserveBudget('client_a', 'medium', 0.85, 4000, 'job_1')).resolves.toMatchObject({
+      allowed: false,
+      reason: 'limits_unavailable'
+    });
+  });
+
+  it('should reject requests whose reservation cannot be written', async () => {
+    const store = new FailingUsageStore();
+    await limiter.cleanup();
+    limiter = new ResearchRateLimiter(config, silentLogger, store);
+    store.failWrites = true;
+
+    await expect(limiter.reserveBudget('client_a', 'medium', 0.85, 4000, 'job_1')).resolves.toMatchObject({
+      allowed: false,
+      reason: 'limits_unavailable'
+    });
+
+    store.failWrites = false;
+    await expect(limiter.reserveBudget('client_a', 'medium', 0.85, 4000, 'job_2')).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('should reject a request whose estimated cost would exceed the daily budget', async () => {
+    await limiter.recordRequest('client_a', 'medium', 4.2, 50000);
+
+    const result = await limiter.checkRateLimit('client_a', 'medium', 0.85);
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe('cost_limit');
+    expect(result.costRemaining).toBeCloseTo(0.8);
+  });
+
+  it('should track clients separately', async () => {
+    await limiter.recordRequest('client_a', 'medium', 0.5, 1000);
+    await limiter.recordRequest('client_a', 'medium', 0.5, 1000);
+
+    await expect(limiter.getRemainingQuota('client_a', 'medium')).resolves.toEqual({
+      remaining: 0,
+      dailyRemaining: 28,
+      tokensRemaining: 98000,
+      costRemaining: 4
+    });
+    await expect(limiter.getRemainingQuota('client_b', 'medium')).resolves.toEqual({
+      remaining: 2,
+      dailyRemaining: 30,
+      tokensRemaining: 100000,
+      costRemaining: 5
+    });
+  });
+
+  it('should reject a request whose estimated tokens would exceed the daily token budget', async () => {
+    await limiter.recordRequest('client_a', 'medium', 0.5, 97000);
+
+    const result = await limiter.checkRateLimit('client_a', 'medium', 0.85, 4000);
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe('token_limit');
+    expect(result.tokensRemaining).toBe(3000);
+    expect(result.retryAfter).toBe(14 * 60 * 60);
+  });
+
+  it('should count the actual tokens of finished requests against the token budget', async () => {
+    await expect(limiter.checkRateLimit('client_a', 'medium', 0.85, 4000)).resolves.toMatchObject({
+      allowed: true,
+      tokensRemaining: 100000
+    });
+
+    await limiter.recordRequest('client_a', 'medium', 0.85, 61000);
+
+    await expect(limiter.checkRateLimit('client_a', 'medium', 0.85, 4000)).resolves.toMatchObject({
+      allowed: true,
+      tokensRemaining: 39000
+    });
+  });
+
+  it('should enforce the overall daily request cap across accuracy levels', async () => {
+    await limiter.cleanup();
+    limiter = new ResearchRateLimiter(
+      { ...config, requests_per_day: 3, high_accuracy_daily_limit: 80, medium_accuracy_daily_limit: 80 },
+      silentLogger
+    );
+
+    await limiter.recordRequest('client_a', 'high', 0.5, 1000);
+    await limiter.recordRequest('client_a', 'medium', 0.5, 1000);
+    await expect(limiter.checkRateLimit('client_a', 'medium', 0.85)).resolves.toMatchObject({
+      allowed: true,
+      dailyRemaining: 0
+    });
+
+    await limiter.recordRequest('client_a', 'medium', 0.5, 1000);
+    const result = await limiter.checkRateLimit('client_a', 'medium', 0.85);
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe('daily_request_limit');
+    expect(result.dailyRemaining).toBe(0);
+    expect(result.remaining).toBe(0);
+  });
+
+  describe('budget reservations', () => {
+    beforeEach(async () => {
+      await limiter.cleanup();
+      limiter = new ResearchRateLimiter({ ...config, medium_accuracy_daily_limit: 40 }, silentLogger);
+    });
+
+    it('should count outstanding reservations against the cost budget', async () => {
+      const results = await Promise.all([1, 2, 3, 4, 5].map(i =>
+        limiter.reserveBudget('client_a', 'medium', 1.5, 1000, `job_${i}`)
+      ));
+
+      expect(results.filter(result => result.allowed)).toHaveLength(3);
+      expect(results.filter(result => !result.allowed).map(result => result.reason)).toEqual(['cost_limit', 'cost_limit']);
+      await expect(limiter.getRemainingQuota('client_a', 'medium')).resolves.toMatchObject({ costRemaining: 0.5 });
+    });
+
+    it('should settle a reservation to the actual cost and tokens once', async () => {
+      await limiter.reserveBudget('client_a', 'medium', 1.5, 8000, 'job_1');
+      await limiter.settleReservation('client_a', 'medium', 'job_1', 0.4, 3000);
+      await limiter.settleReservation('client_a', 'medium', 'job_1', 0.4, 3000);
+
+      await expect(limiter.getRemainingQuota('client_a', 'medium')).resolves.toMatchObject({
+        dailyRemaining: 29,
+        tokensRemaining: 97000,
+        costRemaining: 4.6
+      });
+    });
+
+    it('should release a reservation without charging its cost', async () => {
+      await limiter.reserveBudget('client_a', 'medium', 2, 8000, 'job_1');
+      await limiter.releaseReservation('client_a', 'job_1');
+
+      await expect(limiter.getRemainingQuota('client_a', 'medium')).resolves.toMatchObject({
+        dailyRemaining: 29,
+        tokensRemaining: 100000,
+        costRemaining: 5
+      });
+    });
+
+    it('should record a request that has no reservation when it is settled', async () => {
+      await limiter.settleReservation('client_a', 'medium', 'job_unknown', 1, 2000);
+
+      await expect(limiter.getRemainingQuota('client_a', 'medium')).resolves.toMatchObject({
+        dailyRemaining: 29,
+        tokensRemaining: 98000,
+        costRemaining: 4
+      });
+    });
+
+    it('should allow another run of each level after a typical high accuracy run with the default budgets', async () => {
+      await limiter.cleanup();
+      limiter = new ResearchRateLimiter(createDefaultRateLimitConfig(), silentLogger);
+      const request = {
+        research_query: 'Compare the grid storage costs of lithium-ion and sodium-ion batteries',
+        include_sources: true,
+        response_format: 'comprehensive' as const
+      };
+      const high = estimateResearchCost(DEFAULT_PRICING_TABLE, { ...request, accuracy_level: 'high' });
+      const medium = estimateResearchCost(DEFAULT_PRICING_TABLE, { ...request, accuracy_level: 'medium' });
+
+      const first = await limiter.reserveBudget(
+        'client_a', 'high', high.cost_info.estimated_cost_usd, high.estimated_total_tokens, 'job_1'
+      );
+      await limiter.settleReservation(
+        'client_a', 'high', 'job_1', high.cost_info.estimated_cost_usd, high.estimated_total_tokens
+      );
+      const second = await limiter.reserveBudget(
+        'client_a', 'medium', medium.cost_info.estimated_cost_usd, medium.estimated_total_tokens, 'job_2'
+      );
+      // The hourly limit allows one high accuracy run per hour, weighing in the previous hour
+      jest.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+      const third = await limiter.reserveBudget(
+        'client_a', 'high', high.cost_info.estimated_cost_usd, high.estimated_total_tokens, 'job_3'
+      );
+
+      expect(first.allowed).toBe(true);
+      expect(second.allowed).toBe(true);
+      expect(third.allowed).toBe(true);
+    });
+  });
+
+  describe('hierarchical budgets', () => {
+    beforeEach(async () => {
+      await limiter.cleanup();
+      limiter = new ResearchRateLimiter({
+        ...config,
+        medium_accuracy_daily_limit: 40,
+        monthly_cost_limit_usd: 12,
+        project_budget: { daily_usd: 4 },
+        project_budgets: { research: { daily_usd: 8, monthly_usd: 9 } },
+        global_budget: { daily_usd: 7 }
+      }, silentLogger);
+    });
+
+    it('should name the monthly client budget once earlier days have used it up', async () => {
+      jest.setSystemTime(new Date('2026-10-17T10:00:00Z'));
+      await limiter.recordRequest('client_a', 'medium', 4.5, 1000);
+      jest.setSystemTime(new Date('2026-10-18T10:00:00Z'));
+      await limiter.recordRequest('client_a', 'medium', 4.5, 1000);
+      jest.setSystemTime(new Date('2026-10-19T10:00:00Z'));
+      await limiter.recordRequest('client_a', 'medium', 2, 1000);
+
+      // $3 is left of today's $5 and $1 of this month's $12; the month resets on November 1
+      await expect(limiter.checkRateLimit('client_a', 'medium', 1.5)).resolves.toMatchObject({
+        allowed: false,
+        reason: 'cost_limit',
+        budget: { scope: 'client', id: 'client_a', period: 'monthly', limit_usd: 12, spent_usd: 11 },
+        retryAfter: (12 * 24 + 14) * 60 * 60,
+        costRemaining: 1
+      });
+    });
+
+    it('should share project budgets between clients and give named projects their own caps', async () => {
+      await limiter.recordRequest('client_a', 'medium', 3, 1000, 'marketing');
+
+      await expect(limiter.checkRateLimit('client_b', 'medium', 1.5, undefined, 'marketing')).resolves.toMatchObject({
+        allowed: false,
+        budget: { scope: 'project', id: 'marketing', period: 'daily', limit_usd: 4, spent_usd: 3 },
+        costRemaining: 1
+      });
+      await expect(limiter.checkRateLimit('client_b', 'medium', 1.5, undefined, 'research')).resolves.toMatchObject({
+        allowed: true,
+        costRemaining: 4
+      });
+      // Without a project only the client and global budgets apply
+      await expect(limiter.checkRateLimit('client_b', 'medium', 1.5)).resolves.toMatchObject({ allowed: true });
+    });
+
+    it('should enforce the global budget across clients and projects', async () => {
+      await limiter.recordRequest('client_a', 'medium', 3, 1000, 'research');
+      await limiter.recordRequest('client_b', 'medium', 3, 1000, 'marketing');
+
+      await expect(limiter.checkRateLimit('client_c', 'medium', 1.5, undefined, 'support')).resolves.toMatchObject({
+        allowed: false,
+        reason: 'cost_limit',
+        budget: { scope: 'global', period: 'daily', limit_usd: 7, spent_usd: 6 }
+      });
+    });
+
+    it('should reserve and settle against every level of the hierarchy', async () => {
+      const results = await Promise.all(['client_a', 'client_b', 'client_c'].map((clientId, i) =>
+        limiter.reserveBudget(clientId, 'medium', 3, 1000, `job_${i}`, 'research')
+      ));
+
+      expect(results.map(result => result.allowed)).toEqual([true, true, false]);
+      expect(results[2]?.budget).toMatchObject({ scope: 'project', id: 'research', period: 'daily', spent_usd: 6 });
+
+      await limiter.settleReservation('client_a', 'medium', 'job_0', 0.5, 1000, 'research');
+      await limiter.releaseReservation('client_b', 'job_1', 'research');
+
+      // Only the settled $0.50 is left of the two reservations
+      await expect(limiter.reserveBudget('client_c', 'medium', 3, 1000, 'job_2', 'research')).resolves.toMatchObject({ allowed: true });
+      await expect(limiter.reserveBudget('client_d', 'medium', 3, 1000, 'job_3', 'support')).resolves.toMatchObject({ allowed: true });
+      await expect(limiter.checkRateLimit('client_e', 'medium', 1)).resolves.toMatchObject({
+        allowed: false,
+        budget: { scope: 'global', period: 'daily', spent_usd: 6.5 },
+        costRemaining: 0.5
+      });
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { Response as OpenAIResponse } from 'openai/resources/responses/responses';
+import { ResearchJobManager } from '../src/modules/research-jobs';
+import type { ResearchJobFinishedListener } from '../src/modules/research-jobs';
+import { InMemoryJobStore } from '../src/modules/job-store';
+import type { OpenAIDeepResearchClient } from '../src/modules/openai-client';
+import type { DoDeepResearchRequest, Logger } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+const request: DoDeepResearchRequest = {
+  research_query: 'How are grid-scale batteries financed in Europe?',
+  accuracy_level: 'high',
+  include_sources: true,
+  response_format: 'comprehensive'
+};
+
+function response(status: string): OpenAIResponse {
+  return {
+    id: 'resp_1',
+    status,
+    output: [],
+    usage: { input_tokens: 100, output_tokens: 900, total_tokens: 1000 }
+  } as unknown as OpenAIResponse;
+}
+
+describe('ResearchJobManager', () => {
+  let client: {
+    submitResearch: jest.Mock<() => Promise<OpenAIResponse>>;
+    retrieveResearch: jest.Mock<() => Promise<OpenAIResponse>>;
+    cancelResearch: jest.Mock<() => Promise<void>>;
+    getModelForAccuracy: jest.Mock<() => string>;
+    calculateCosts: jest.Mock<() => { estimated_cost_usd: number }>;
+    buildResearchResponse: jest.Mock<() => unknown>;
+  };
+  let manager: ResearchJobManager;
+
+  beforeEach(() => {
+    client = {
+      submitResearch: jest.fn(async () => response('queued')),
+      retrieveResearch: jest.fn(async () => response('in_progress')),
+      cancelResearch: jest.fn(async () => undefined),
+      getModelForAccuracy: jest.fn(() => 'o3-deep-research'),
+      calculateCosts: jest.fn(() => ({ estimated_cost_usd: 0.5 })),
+      buildResearchResponse: jest.fn(() => ({ cost_info: { estimated_cost_usd: 2 } }))
+    };
+    manager = new ResearchJobManager(
+      client as unknown as OpenAIDeepResearchClient,
+      new InMemoryJobStore(),
+      silentLogger
+    );
+  });
+
+  it('should submit the request in background mode and store the queued job', async () => {
+    const job = await manager.startJob(request, 'client_a', undefined, 'job_1');
+
+    expect(client.submitResearch).toHaveBeenCalledWith(request, true, undefined);
+    expect(job).toMatchObject({
+      job_id: 'job_1',
+      client_id: 'client_a',
+      status: 'queued',
+      openai_response_id: 'resp_1',
+      model_used: 'o3-deep-research'
+    });
+    await expect(manager.getJob('job_1', 'client_a')).resolves.toMatchObject({ status: 'queued' });
+  });
+
+  it('should cancel the OpenAI response when the job cannot be stored', async () => {
+    const store = new InMemoryJobStore();
+    jest.spyOn(store, 'saveJob').mockRejectedValueOnce(new Error('database is locked'));
+    manager = new ResearchJobManager(client as unknown as OpenAIDeepResearchClient, store, silentLogger);
+
+    await expect(manager.startJob(request, 'client_a', undefined, 'job_1')).rejects.toThrow('database is locked');
+    expect(client.cancelResearch).toHaveBeenCalledWith('resp_1');
+    await expect(store.getJob('job_1')).resolves.toBeUndefined();
+  });
+
+  it('should hide jobs from other clients', async () => {
+    const job = await manager.startJob(request, 'client_a');
+
+    await expect(manager.getJob(job.job_id, 'client_a')).resolves.toBeDefined();
+    await expect(manager.getJob(job.job_id, 'client_b')).resolves.toBeUndefined();
+  });
+
+  it('should store the result once the response completes', async () => {
+    const job = await manager.startJob(request, 'client_a');
+    client.retrieveResearch.mockResolvedValueOnce(response('completed'));
+
+    const refreshed = await manager.refreshJob(job.job_id, 'client_a');
+    expect(refreshed?.status).toBe('completed');
+    expect(refreshed?.cost_usd).toBe(2);
+    expect(refreshed?.result).toBeDefined();
+  });
+
+  it('should notify finished-job listeners exactly once with the final usage and cost', async () => {
+    const finished = jest.fn<ResearchJobFinishedListener>();
+    manager.onJobFinished(finished);
+    const job = await manager.startJob(request, 'client_a');
+    client.retrieveResearch.mockResolvedValue(response('completed'));
+
+    await manager.refreshJob(job.job_id, 'client_a');
+    await manager.refreshJob(job.job_id, 'client_a');
+
+    expect(finished).toHaveBeenCalledTimes(1);
+    expect(finished).toHaveBeenCalledWith(
+      expect.objectContaining({ job_id: job.job_id, status: 'completed', cost_usd: 2 }),
+      expect.objectContaining({ total_tokens: 1000 }),
+      expect.objectContaining({ estimated_cost_usd: 2 })
+    );
+  });
+
+  it('should notify finished-job listeners once when concurrent polls see the job finish', async () => {
+    const finished = jest.fn<ResearchJobFinishedListener>();
+    manager.onJobFinished(finished);
+    const job = await manager.startJob(request, 'client_a');
+    client.retrieveResearch.mockResolvedValue(response('completed'));
+
+    const [refreshed, waited] = await Promise.all([
+      manager.refreshJob(job.job_id, 'client_a'),
+      manager.waitForCompletion(job.job_id, 'client_a', { timeoutMs: 60000 })
+    ]);
+
+    expect(client.retrieveResearch).toHaveBeenCalledTimes(2);
+    expect(finished).toHaveBeenCalledTimes(1);
+    expect(refreshed).toMatchObject({ status: 'completed', cost_usd: 2 });
+    expect(waited).toMatchObject({ status: 'completed', cost_usd: 2 });
+  });
+
+  it('should cancel the OpenAI response and record partial cost when the wait is aborted', async () => {
+    const job = await manager.startJob(request, 'client_a');
+    const controller = new AbortController();
+    client.retrieveResearch
+      .mockResolvedValueOnce(response('in_progress'))
+      .mockResolvedValueOnce(response('cancelled'));
+
+    const waiting = manager.waitForCompletion(job.job_id, 'client_a', {
+      timeoutMs: 60000,
+      signal: controller.signal
+    });
+    setTimeout(() => controller.abort(), 10);
+
+    const cancelled = await waiting;
+    expect(client.cancelResearch).toHaveBeenCalledWith('resp_1');
+    expect(cancelled?.status).toBe('cancelled');
+    expect(cancelled?.cost_usd).toBe(0.5);
+  });
+
+  it('should leave a finished job unchanged when it is cancelled', async () => {
+    const finished = jest.fn<ResearchJobFinishedListener>();
+    manager.onJobFinished(finished);
+    const job = await manager.startJob(request, 'client_a');
+    client.retrieveResearch.mockResolvedValueOnce(response('completed'));
+    await manager.refreshJob(job.job_id, 'client_a');
+
+    const cancelled = await manager.cancelJob(job.job_id, 'client_a');
+
+    expect(cancelled).toMatchObject({ status: 'completed', cost_usd: 2 });
+    expect(client.cancelResearch).not.toHaveBeenCalled();
+    expect(finished).toHaveBeenCalledTimes(1);
+    await expect(manager.cancelJob(job.job_id, 'client_b')).resolves.toBeUndefined();
+  });
+
+  it('should return the final state of a run that finished before it could be cancelled', async () => {
+    const job = await manager.startJob(request, 'client_a');
+    const controller = new AbortController();
+    controller.abort();
+    client.cancelResearch.mockRejectedValueOnce(new Error('Cannot cancel a completed response'));
+    client.retrieveResearch.mockResolvedValueOnce(response('completed'));
+
+    const waited = await manager.waitForCompletion(job.job_id, 'client_a', {
+      timeoutMs: 60000,
+      signal: controller.signal
+    });
+
+    expect(waited).toMatchObject({ status: 'completed', cost_usd: 2 });
+    expect(waited?.result).toBeDefined();
+  });
+
+  it('should leave a job running when OpenAI refuses to cancel it', async () => {
+    const job = await manager.startJob(request, 'client_a');
+    client.cancelResearch.mockRejectedValueOnce(new Error('Service unavailable'));
+
+    await expect(manager.cancelJob(job.job_id, 'client_a')).resolves.toMatchObject({ status: 'in_progress' });
+  });
+
+  it('should return a still-running job when the wait times out', async () => {
+    const job = await manager.startJob(request, 'client_a');
+
+    const waited = await manager.waitForCompletion(job.job_id, 'client_a', { timeoutMs: 1 });
+    expect(waited?.status).toBe('in_progress');
+    expect(client.cancelResearch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildResearchScope, normalizeDomain } from '../src/modules/research-scope';
+import { ResearchRequestValidator } from '../src/modules/validation';
+import type { DoDeepResearchRequest, Logger } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+const baseRequest: DoDeepResearchRequest = {
+  research_query: 'What is the current state of sodium-ion battery commercialization?',
+  accuracy_level: 'medium',
+  include_sources: true,
+  response_format: 'comprehensive'
+};
+
+describe('buildResearchScope', () => {
+  it('should leave the request unscoped when no scope controls are given', () => {
+    const scope = buildResearchScope(baseRequest);
+
+    expect(scope.instructions).toEqual([]);
+    expect(scope.webSearchTool).toEqual({ type: 'web_search_preview' });
+    expect(scope.applied).toBeUndefined();
+  });
+
+  it('should turn the time range into instructions', () => {
+    const scope = buildResearchScope({
+      ...baseRequest,
+      time_range: { start_date: '2024-01-01T00:00:00Z', end_date: '2024-12-31T23:59:59Z' }
+    });
+
+    expect(scope.instructions[0]).toContain('between 2024-01-01 and 2024-12-31');
+    expect(scope.applied?.time_range).toEqual({
+      start_date: '2024-01-01T00:00:00Z',
+      end_date: '2024-12-31T23:59:59Z'
+    });
+  });
+
+  it('should split domain focus into categories and allowed domain filters', () => {
+    const scope = buildResearchScope({
+      ...baseRequest,
+      domain_focus: ['academic', 'https://www.Nature.com/articles', 'iea.org'],
+      excluded_domains: ['wikipedia.org']
+    });
+
+    expect(scope.webSearchTool).toEqual({
+      type: 'web_search',
+      filters: { allowed_domains: ['nature.com', 'iea.org'] }
+    });
+    expect(scope.applied).toEqual({
+      domain_categories: ['academic'],
+      allowed_domains: ['nature.com', 'iea.org'],
+      blocked_domains: ['wikipedia.org']
+    });
+    expect(scope.instructions.join('\n')).toContain('Do not search, open or cite these domains: wikipedia.org');
+  });
+
+  it('should pass the user location to the web search tool', () => {
+    const scope = buildResearchScope({
+      ...baseRequest,
+      user_location: { country: 'GB', city: 'London', timezone: 'Europe/London' }
+    });
+
+    expect(scope.webSearchTool).toEqual({
+      type: 'web_search_preview',
+      user_location: { type: 'approximate', country: 'GB', city: 'London', timezone: 'Europe/London' }
+    });
+    expect(scope.applied?.user_location).toEqual({ country: 'GB', city: 'London', timezone: 'Europe/London' });
+  });
+});
+
+describe('normalizeDomain', () => {
+  it('should strip scheme, path and www prefix', () => {
+    expect(normalizeDomain('HTTPS://www.Reuters.com/business?x=1')).toBe('reuters.com');
+  });
+});
+
+describe('research scope validation', () => {
+  const validator = new ResearchRequestValidator(silentLogger);
+
+  it('should accept valid scope controls', () => {
+    const result = validator.validateResearchRequest({
+      ...baseRequest,
+      time_range: { start_date: '2024-01-01T00:00:00Z' },
+      domain_focus: ['news', 'reuters.com'],
+      excluded_domains: ['example.com'],
+      user_location: { country: 'us', timezone: 'America/New_York' }
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.data?.domain_focus).toEqual(['news', 'reuters.com']);
+    expect(result.data?.user_location?.country).toBe('US');
+  });
+
+  it('should reject a time range that ends before it starts', () => {
+    const result = validator.validateResearchRequest({
+      ...baseRequest,
+      time_range: { start_date: '2024-06-01T00:00:00Z', end_date: '2024-01-01T00:00:00Z' }
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContainEqual(expect.objectContaining({
+      field: 'time_range.end_date',
+      message: 'start_date must be before end_date'
+    }));
+  });
+
+  it('should reject malformed dates', () => {
+    const result = validator.validateResearchRequest({
+      ...baseRequest,
+      time_range: { start_date: 'last year' }
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors?.[0]?.field).toBe('time_range.start_date');
+  });
+
+  it('should reject unknown categories and invalid domains', () => {
+    const result = validator.validateResearchRequest({
+      ...baseRequest,
+      domain_focus: ['blogs'],
+      excluded_domains: ['not a domain']
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors?.map(error => error.field)).toEqual(['domain_focus.0', 'excluded_domains.0']);
+    expect(result.errors?.[0]?.message).toContain("'blogs' is neither a known category");
+  });
+
+  it('should reject an invalid user location', () => {
+    const result = validator.validateResearchRequest({
+      ...baseRequest,
+      user_location: { country: 'USA', timezone: 'Mars/Olympus_Mons' }
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors?.map(error => error.field)).toEqual(['user_location.country', 'user_location.timezone']);
+  });
+
+  it('should reject a domain that is both focused on and excluded', () => {
+    const result = validator.validateResearchRequest({
+      ...baseRequest,
+      domain_focus: ['nature.com'],
+      excluded_domains: ['www.nature.com']
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors?.[0]).toEqual({
+      field: 'excluded_domains',
+      message: 'Domains cannot be both focused on and excluded: nature.com',
+      code: 'business_rule'
+    });
+  });
+});
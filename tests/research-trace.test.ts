@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import type { Response as OpenAIResponse } from 'openai/resources/responses/responses';
+import { extractResearchTrace, extractReasoningSummary } from '../src/modules/research-trace';
+
+const fixture = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'deep-research-response.json'), 'utf8')
+) as OpenAIResponse;
+
+describe('extractResearchTrace', () => {
+  it('should list web search actions in order with their status', () => {
+    const trace = extractResearchTrace(fixture.output);
+
+    expect(trace).toEqual([
+      {
+        step: 1,
+        id: 'ws_68a1c2f6b9e08190a0f7d1f1c6a0e222',
+        action: 'search',
+        status: 'completed',
+        query: 'sodium-ion battery cost per kWh 2025'
+      },
+      {
+        step: 2,
+        id: 'ws_68a1c2fa0c6c8190b0e54b1a7f3b0333',
+        action: 'open_page',
+        status: 'completed',
+        url: 'https://www.iea.org/reports/batteries-and-secure-energy-transitions'
+      },
+      {
+        step: 3,
+        id: 'ws_68a1c2fd7a3481909f1c7d2e3a4b0444',
+        action: 'find_in_page',
+        status: 'completed',
+        url: 'https://www.iea.org/reports/batteries-and-secure-energy-transitions',
+        pattern: 'sodium-ion'
+      },
+      {
+        step: 4,
+        id: 'ws_68a1c3055e9c8190b1c2d3e4f5a60666',
+        action: 'search',
+        status: 'failed',
+        query: 'CATL sodium-ion mass production 2025 announcement'
+      }
+    ]);
+  });
+
+  it('should mark web search calls without an action as unknown', () => {
+    const trace = extractResearchTrace([
+      { id: 'ws_1', type: 'web_search_call', status: 'completed' }
+    ]);
+
+    expect(trace).toEqual([{ step: 1, id: 'ws_1', action: 'unknown', status: 'completed' }]);
+  });
+});
+
+describe('extractReasoningSummary', () => {
+  it('should return reasoning summary texts in order', () => {
+    const summary = extractReasoningSummary(fixture.output);
+
+    expect(summary).toHaveLength(2);
+    expect(summary[0]).toContain('Planning the search');
+    expect(summary[1]).toContain('Cross-checking deployment numbers');
+  });
+
+  it('should return an empty list when there are no reasoning items', () => {
+    expect(extractReasoningSummary([])).toEqual([]);
+  });
+});
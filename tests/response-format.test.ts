@@ -0,0 +1,128 @@
+import { describe, it, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import type { Response as OpenAIResponse } from 'openai/resources/responses/responses';
+import { OpenAIDeepResearchClient } from '../src/modules/openai-client';
+import {
+  getFormatInstructions,
+  renderResearchOutput,
+  relocateCitations,
+  SUMMARY_MAX_WORDS
+} from '../src/modules/response-format';
+import type { DoDeepResearchRequest, Logger } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+/**
+ * Load a recorded Responses API response and its report text
+ */
+function loadFixture(name: string): { response: OpenAIResponse; text: string } {
+  const response = JSON.parse(
+    fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8')
+  ) as OpenAIResponse;
+
+  const message = response.output.find(item => item.type === 'message');
+  const content = message?.type === 'message' ? message.content[0] : undefined;
+  return { response, text: content?.type === 'output_text' ? content.text : '' };
+}
+
+const baseRequest: DoDeepResearchRequest = {
+  research_query: 'What is the current state of sodium-ion battery commercialization?',
+  accuracy_level: 'medium',
+  include_sources: true,
+  response_format: 'comprehensive'
+};
+
+describe('getFormatInstructions', () => {
+  it('should give format-specific instructions', () => {
+    expect(getFormatInstructions('comprehensive')).toContain('"## " section headings');
+    expect(getFormatInstructions('summary')).toContain(`at most ${SUMMARY_MAX_WORDS} words`);
+    expect(getFormatInstructions('bullet_points')).toContain('bullet list');
+  });
+});
+
+describe('renderResearchOutput', () => {
+  describe('comprehensive', () => {
+    it('should leave a report that already has section headings unchanged', () => {
+      const { text } = loadFixture('deep-research-response.json');
+
+      expect(renderResearchOutput(text, 'comprehensive')).toBe(text);
+    });
+
+    it('should add section headings to an unstructured report', () => {
+      const { text } = loadFixture('deep-research-response-unstructured.json');
+      const rendered = renderResearchOutput(text, 'comprehensive');
+
+      expect(rendered.startsWith('## Overview\n\nSodium-ion batteries are moving')).toBe(true);
+      expect(rendered).toContain('\n\n## Findings\n\nCell costs remain');
+    });
+  });
+
+  describe('summary', () => {
+    it('should return heading-free prose within the word budget', () => {
+      const { text } = loadFixture('deep-research-response-summary.json');
+      const rendered = renderResearchOutput(text, 'summary');
+
+      expect(text.split(/\s+/).length).toBeGreaterThan(SUMMARY_MAX_WORDS);
+      expect(rendered.split(/\s+/).length).toBeLessThanOrEqual(SUMMARY_MAX_WORDS);
+      expect(rendered).not.toMatch(/^#/m);
+      expect(rendered).not.toMatch(/^- /m);
+      expect(rendered).toContain('No lithium, cobalt or nickel required, reducing exposure to volatile commodity markets.');
+      expect(rendered.endsWith('.')).toBe(true);
+    });
+
+    it('should truncate a single over-long sentence', () => {
+      const rendered = renderResearchOutput(`${'word '.repeat(SUMMARY_MAX_WORDS + 50).trim()}.`, 'summary');
+
+      expect(rendered.split(/\s+/)).toHaveLength(SUMMARY_MAX_WORDS);
+      expect(rendered.endsWith('…')).toBe(true);
+    });
+  });
+
+  describe('bullet_points', () => {
+    it('should turn headings, prose, numbered lists and tables into a flat bullet list', () => {
+      const { text } = loadFixture('deep-research-response-bullet-points.json');
+      const lines = renderResearchOutput(text, 'bullet_points').split('\n');
+
+      expect(lines.every(line => line.startsWith('- '))).toBe(true);
+      expect(lines).toHaveLength(6);
+      expect(lines[0]).toBe('- Sodium-ion is now in commercial production.');
+      expect(lines[3]).toBe('- Energy density of 140-160 Wh/kg suits stationary storage and small vehicles, but not long-range cars.');
+      expect(lines[4]).toBe('- Cold-weather performance is better than LFP.');
+    });
+  });
+});
+
+describe('OpenAIDeepResearchClient.buildResearchResponse', () => {
+  const client = new OpenAIDeepResearchClient({ apiKey: 'test-key', timeout: 60, maxRetries: 0 }, silentLogger);
+
+  it('should render the report and point citations at the rendered text', () => {
+    const { response } = loadFixture('deep-research-response-bullet-points.json');
+    const result = client.buildResearchResponse({ ...baseRequest, response_format: 'bullet_points' }, response);
+
+    expect(result.research_results.split('\n').every(line => line.startsWith('- '))).toBe(true);
+    expect(result.citations).toHaveLength(3);
+    for (const citation of result.citations || []) {
+      expect(result.research_results.slice(citation.start_index, citation.end_index)).toBe(citation.quoted_text);
+    }
+  });
+
+  it('should keep citations whose span was cut from a summary, without offsets', () => {
+    const { response } = loadFixture('deep-research-response-summary.json');
+    const result = client.buildResearchResponse({ ...baseRequest, response_format: 'summary' }, response);
+    const citation = result.citations?.[0];
+    if (!citation) throw new Error('expected a citation');
+
+    const shortened = relocateCitations([citation], 'A summary without the cited span.');
+
+    expect(result.research_results).not.toContain('Investors should therefore');
+    expect(result.research_results.slice(citation.start_index, citation.end_index)).toBe(citation.quoted_text);
+    expect(shortened[0]).toMatchObject({ url: citation.url, start_index: -1, end_index: -1 });
+  });
+});
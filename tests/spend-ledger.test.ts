@@ -0,0 +1,178 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import type { ResponseUsage } from 'openai/resources/responses/responses';
+import { InMemorySpendLedger, SQLiteSpendLedger, createLedgerEntry } from '../src/modules/spend-ledger';
+import type { SpendLedger } from '../src/modules/spend-ledger';
+import type { CostBreakdown, CostInfo, LedgerEntry, Logger, ResearchJob } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+const breakdown: CostBreakdown = {
+  input_tokens: 1426,
+  cached_input_tokens: 1024,
+  output_tokens: 1600,
+  reasoning_tokens: 8200,
+  web_search_calls: 4,
+  input_usd: 0.01426,
+  cached_input_usd: 0.00256,
+  output_usd: 0.064,
+  reasoning_usd: 0.328,
+  web_search_usd: 0.04
+};
+
+function entry(jobId: string, clientId: string, finishedAt: string, overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    job_id: jobId,
+    client_id: clientId,
+    model_used: 'o3-deep-research',
+    accuracy_level: 'high',
+    status: 'completed',
+    token_usage: { input_tokens: 2450, output_tokens: 9800, total_tokens: 12250 },
+    cost_usd: 0.44882,
+    cost_breakdown: breakdown,
+    duration_seconds: 240,
+    research_confidence: 85,
+    started_at: new Date(Date.parse(finishedAt) - 240000).toISOString(),
+    finished_at: finishedAt,
+    ...overrides
+  };
+}
+
+describe.each([
+  ['InMemorySpendLedger', (): SpendLedger => new InMemorySpendLedger()],
+  ['SQLiteSpendLedger', (): SpendLedger => new SQLiteSpendLedger(':memory:', silentLogger)]
+])('%s', (_name, createLedger) => {
+  let ledger: SpendLedger;
+
+  beforeEach(async () => {
+    ledger = createLedger();
+    await ledger.initialize();
+  });
+
+  afterEach(async () => {
+    await ledger.close();
+  });
+
+  it('should return recorded entries in the order they finished', async () => {
+    const failed = entry('job_2', 'client_a', '2026-10-19T09:00:00.000Z', { status: 'failed', template: 'literature_review' });
+    delete failed.cost_breakdown;
+    delete failed.research_confidence;
+    await ledger.record(entry('job_1', 'client_a', '2026-10-19T10:00:00.000Z'));
+    await ledger.record(failed);
+
+    await expect(ledger.list()).resolves.toEqual([failed, entry('job_1', 'client_a', '2026-10-19T10:00:00.000Z')]);
+  });
+
+  it('should filter by client and finish time', async () => {
+    await ledger.record(entry('job_1', 'client_a', '2026-10-18T23:00:00.000Z'));
+    await ledger.record(entry('job_2', 'client_a', '2026-10-19T10:00:00.000Z'));
+    await ledger.record(entry('job_3', 'client_b', '2026-10-19T11:00:00.000Z'));
+    await ledger.record(entry('job_4', 'client_a', '2026-10-20T00:00:00.000Z'));
+
+    const entries = await ledger.list({
+      clientId: 'client_a',
+      from: '2026-10-19T00:00:00.000Z',
+      to: '2026-10-20T00:00:00.000Z'
+    });
+
+    expect(entries.map(item => item.job_id)).toEqual(['job_2']);
+  });
+
+  it('should record a job only once', async () => {
+    await ledger.record(entry('job_1', 'client_a', '2026-10-19T10:00:00.000Z'));
+    await ledger.record(entry('job_1', 'client_a', '2026-10-19T10:00:00.000Z', { cost_usd: 0.5 }));
+
+    const entries = await ledger.list();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]?.cost_usd).toBe(0.5);
+  });
+});
+
+describe('createLedgerEntry', () => {
+  const job: ResearchJob = {
+    job_id: 'job_1',
+    client_id: 'client_a',
+    request: {
+      research_query: 'How are grid-scale batteries financed in Europe?',
+      accuracy_level: 'high',
+      include_sources: true,
+      response_format: 'comprehensive',
+      template: 'regulatory_scan'
+    },
+    model_used: 'o3-deep-research',
+    status: 'cancelled',
+    created_at: '2026-10-19T10:00:00.000Z',
+    updated_at: '2026-10-19T10:02:30.000Z',
+    completed_at: '2026-10-19T10:02:30.000Z',
+    cost_usd: 0.12,
+    error: 'Research was cancelled'
+  };
+
+  it('should use the final usage and cost breakdown of a run without a result', () => {
+    const costInfo: CostInfo = {
+      estimated_cost_usd: 0.12,
+      cost_per_1k_tokens: 0.04,
+      billing_tier: 'premium',
+      breakdown
+    };
+
+    expect(createLedgerEntry(job, { input_tokens: 1000, output_tokens: 2000, total_tokens: 3000 } as ResponseUsage, costInfo)).toEqual({
+      job_id: 'job_1',
+      client_id: 'client_a',
+      model_used: 'o3-deep-research',
+      accuracy_level: 'high',
+      template: 'regulatory_scan',
+      status: 'cancelled',
+      token_usage: { input_tokens: 1000, output_tokens: 2000, total_tokens: 3000 },
+      cost_usd: 0.12,
+      cost_breakdown: breakdown,
+      duration_seconds: 150,
+      started_at: '2026-10-19T10:00:00.000Z',
+      finished_at: '2026-10-19T10:02:30.000Z'
+    });
+  });
+
+  it('should record zero usage when the run ended without a final response', () => {
+    const ledgerEntry = createLedgerEntry(job);
+
+    expect(ledgerEntry.token_usage.total_tokens).toBe(0);
+    expect(ledgerEntry.cost_breakdown).toBeUndefined();
+  });
+});
+
+describe('SQLiteSpendLedger persistence', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'spend-ledger-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep entries after a restart', async () => {
+    const filename = path.join(directory, 'ledger.db');
+
+    const firstLedger = new SQLiteSpendLedger(filename, silentLogger);
+    await firstLedger.initialize();
+    await firstLedger.record(entry('job_1', 'client_a', '2026-10-19T10:00:00.000Z'));
+    await firstLedger.close();
+
+    const secondLedger = new SQLiteSpendLedger(filename, silentLogger);
+    await secondLedger.initialize();
+    try {
+      await expect(secondLedger.list()).resolves.toEqual([entry('job_1', 'client_a', '2026-10-19T10:00:00.000Z')]);
+    } finally {
+      await secondLedger.close();
+    }
+  });
+});
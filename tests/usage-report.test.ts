@@ -0,0 +1,114 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildUsageReport, generateUsageReport, resolveReportPeriod } from '../src/modules/usage-report';
+import { InMemorySpendLedger } from '../src/modules/spend-ledger';
+import type { LedgerEntry } from '../src/types';
+
+function entry(jobId: string, finishedAt: string, overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    job_id: jobId,
+    client_id: 'client_a',
+    model_used: 'o3-deep-research',
+    accuracy_level: 'high',
+    status: 'completed',
+    token_usage: { input_tokens: 2000, output_tokens: 8000, total_tokens: 10000 },
+    cost_usd: 0.5,
+    duration_seconds: 240,
+    started_at: new Date(Date.parse(finishedAt) - 240000).toISOString(),
+    finished_at: finishedAt,
+    ...overrides
+  };
+}
+
+const entries: LedgerEntry[] = [
+  entry('job_1', '2026-10-18T09:15:00.000Z', { research_confidence: 80 }),
+  entry('job_2', '2026-10-18T09:45:00.000Z', { template: 'literature_review', research_confidence: 90 }),
+  entry('job_3', '2026-10-19T14:00:00.000Z', {
+    client_id: 'client_b',
+    model_used: 'o4-mini-deep-research',
+    accuracy_level: 'medium',
+    status: 'failed',
+    token_usage: { input_tokens: 500, output_tokens: 500, total_tokens: 1000 },
+    cost_usd: 0.05
+  }),
+  entry('job_4', '2026-10-19T16:30:00.000Z', { status: 'cancelled', cost_usd: 0.2, template: 'literature_review' })
+];
+
+describe('buildUsageReport', () => {
+  it('should fill the analytics fields and break usage down by day, client, model and template', () => {
+    const report = buildUsageReport(entries, { since: '2026-10-18', until: '2026-10-19' }, 'UTC');
+
+    expect(report).toEqual({
+      period: '2026-10-18..2026-10-19',
+      total_requests: 4,
+      total_cost: 1.25,
+      total_tokens: 31000,
+      average_confidence: 85,
+      model_usage: { 'o3-deep-research': 3, 'o4-mini-deep-research': 1 },
+      peak_hours: [9, 14, 16],
+      cost_by_day: { '2026-10-18': 1, '2026-10-19': 0.25 },
+      error_rate: 0.25,
+      status_counts: { completed: 2, failed: 1, cancelled: 1 },
+      by_day: {
+        '2026-10-18': { requests: 2, errors: 0, total_tokens: 20000, cost_usd: 1 },
+        '2026-10-19': { requests: 2, errors: 1, total_tokens: 11000, cost_usd: 0.25 }
+      },
+      by_client: {
+        client_a: { requests: 3, errors: 0, total_tokens: 30000, cost_usd: 1.2 },
+        client_b: { requests: 1, errors: 1, total_tokens: 1000, cost_usd: 0.05 }
+      },
+      by_model: {
+        'o3-deep-research': { requests: 3, errors: 0, total_tokens: 30000, cost_usd: 1.2 },
+        'o4-mini-deep-research': { requests: 1, errors: 1, total_tokens: 1000, cost_usd: 0.05 }
+      },
+      by_template: {
+        none: { requests: 2, errors: 1, total_tokens: 11000, cost_usd: 0.55 },
+        literature_review: { requests: 2, errors: 0, total_tokens: 20000, cost_usd: 0.7 }
+      }
+    });
+  });
+
+  it('should assign runs to days and hours of the report timezone', () => {
+    // In Tokyo the runs finish at 18:15 and 18:45 on October 18, 23:00 on October 19 and 01:30 on October 20
+    const report = buildUsageReport(entries, { since: '2026-10-18', until: '2026-10-19' }, 'Asia/Tokyo');
+
+    expect(report.cost_by_day).toEqual({ '2026-10-18': 1, '2026-10-19': 0.05 });
+    expect(report.peak_hours).toEqual([18, 23]);
+  });
+
+  it('should only count the requested client', () => {
+    const report = buildUsageReport(entries, { since: '2026-10-18', until: '2026-10-19' }, 'UTC', 'client_b');
+
+    expect(report.client_id).toBe('client_b');
+    expect(report.total_requests).toBe(1);
+    expect(report.error_rate).toBe(1);
+    expect(report.average_confidence).toBe(0);
+  });
+});
+
+describe('resolveReportPeriod', () => {
+  const now = Date.parse('2026-10-19T10:00:00Z');
+
+  it('should default to the 30 days ending today', () => {
+    expect(resolveReportPeriod({}, 'UTC', now)).toEqual({ since: '2026-09-20', until: '2026-10-19' });
+    expect(resolveReportPeriod({ until: '2026-10-02' }, 'UTC', now)).toEqual({ since: '2026-09-03', until: '2026-10-02' });
+  });
+
+  it('should reject a start day after the end day', () => {
+    expect(() => resolveReportPeriod({ since: '2026-10-20', until: '2026-10-19' }, 'UTC', now)).toThrow('is after its end day');
+  });
+});
+
+describe('generateUsageReport', () => {
+  it('should report the ledger entries of the period', async () => {
+    const ledger = new InMemorySpendLedger();
+    for (const item of entries) {
+      await ledger.record(item);
+    }
+
+    const report = await generateUsageReport(ledger, { since: '2026-10-19', client_id: 'client_a' }, 'UTC', Date.parse('2026-10-19T18:00:00Z'));
+
+    expect(report.period).toBe('2026-10-19..2026-10-19');
+    expect(report.total_requests).toBe(1);
+    expect(report.status_counts).toEqual({ cancelled: 1 });
+  });
+});
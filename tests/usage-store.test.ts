@@ -0,0 +1,345 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { InMemoryUsageStore, SQLiteUsageStore, RedisUsageStore } from '../src/modules/usage-store';
+import type { RedisUsageClient, UsageStore } from '../src/modules/usage-store';
+import { ResearchRateLimiter } from '../src/modules/rate-limiter';
+import type { Logger, RateLimitConfig } from '../src/types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => silentLogger
+};
+
+/**
+ * Local stand-in for a Redis server implementing the commands the store uses
+ */
+class FakeRedisClient implements RedisUsageClient {
+  isOpen = false;
+  private values: Map<string, { value: number; expiresAt?: number }> = new Map();
+  private sortedSets: Map<string, Map<string, number>> = new Map();
+  private locks: Map<string, { owner: string; expiresAt: number }> = new Map();
+
+  async connect(): Promise<void> {
+    this.isOpen = true;
+  }
+
+  async quit(): Promise<void> {
+    this.isOpen = false;
+  }
+
+  on(): this {
+    return this;
+  }
+
+  async incrByFloat(key: string, increment: number): Promise<string> {
+    const current = this.read(key);
+    const value = (current ?? 0) + increment;
+    const existing = current === undefined ? undefined : this.values.get(key);
+    this.values.set(key, existing?.expiresAt !== undefined ? { value, expiresAt: existing.expiresAt } : { value });
+    return String(value);
+  }
+
+  async set(key: string, value: string, options: { EX: number } | { PX: number; NX: true }): Promise<string | null> {
+    if ('NX' in options) {
+      const lock = this.locks.get(key);
+      if (lock && lock.expiresAt > Date.now()) {
+        return null;
+      }
+      this.locks.set(key, { owner: value, expiresAt: Date.now() + options.PX });
+      return 'OK';
+    }
+    this.values.set(key, { value: parseFloat(value), expiresAt: Date.now() + options.EX * 1000 });
+    return 'OK';
+  }
+
+  /** Only the lock release script (compare-and-delete) is supported */
+  async eval(_script: string, options: { keys: string[]; arguments: string[] }): Promise<number> {
+    const [key] = options.keys;
+    const [owner] = options.arguments;
+    if (key === undefined || this.locks.get(key)?.owner !== owner) {
+      return 0;
+    }
+    this.locks.delete(key);
+    return 1;
+  }
+
+  async zAdd(key: string, member: { score: number; value: string }): Promise<number> {
+    const members = this.sortedSets.get(key) || new Map<string, number>();
+    members.set(member.value, member.score);
+    this.sortedSets.set(key, members);
+    return 1;
+  }
+
+  async zRangeByScore(key: string, min: number | string, max: number | string): Promise<string[]> {
+    return Array.from(this.sortedSets.get(key)?.entries() || [])
+      .filter(([, score]) => this.inRange(score, min, max))
+      .sort((a, b) => a[1] - b[1])
+      .map(([member]) => member);
+  }
+
+  async zRemRangeByScore(key: string, min: number | string, max: number | string): Promise<number> {
+    const members = this.sortedSets.get(key);
+    let removed = 0;
+    for (const [member, score] of members?.entries() || []) {
+      if (this.inRange(score, min, max)) {
+        members?.delete(member);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async expire(key: string, seconds: number): Promise<boolean> {
+    if (this.sortedSets.has(key)) {
+      // Sorted sets are only kept for the lifetime of the test
+      return true;
+    }
+    const entry = this.values.get(key);
+    if (!entry) {
+      return false;
+    }
+    if (seconds <= 0) {
+      this.values.delete(key);
+    } else {
+      entry.expiresAt = Date.now() + seconds * 1000;
+    }
+    return true;
+  }
+
+  async mGet(keys: string[]): Promise<Array<string | null>> {
+    return keys.map(key => {
+      const value = this.read(key);
+      return value === undefined ? null : String(value);
+    });
+  }
+
+  private inRange(score: number, min: number | string, max: number | string): boolean {
+    const bound = (value: number | string): { value: number; exclusive: boolean } => {
+      if (typeof value === 'number') return { value, exclusive: false };
+      if (value === '-inf') return { value: -Infinity, exclusive: false };
+      if (value === '+inf') return { value: Infinity, exclusive: false };
+      return value.startsWith('(')
+        ? { value: parseFloat(value.slice(1)), exclusive: true }
+        : { value: parseFloat(value), exclusive: false };
+    };
+    const lower = bound(min);
+    const upper = bound(max);
+    return (lower.exclusive ? score > lower.value : score >= lower.value)
+      && (upper.exclusive ? score < upper.value : score <= upper.value);
+  }
+
+  private read(key: string): number | undefined {
+    const entry = this.values.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+}
+
+const config: RateLimitConfig = {
+  requests_per_hour: 10,
+  requests_per_day: 30,
+  tokens_per_day: 100000,
+  daily_cost_limit_usd: 5,
+  high_accuracy_daily_limit: 8,
+  medium_accuracy_daily_limit: 16
+};
+
+describe.each([
+  ['InMemoryUsageStore', (): UsageStore => new InMemoryUsageStore()],
+  ['SQLiteUsageStore', (): UsageStore => new SQLiteUsageStore(':memory:', silentLogger)],
+  ['RedisUsageStore', (): UsageStore => new RedisUsageStore(new FakeRedisClient(), silentLogger)]
+])('%s', (_name, createStore) => {
+  let store: UsageStore;
+
+  beforeEach(async () => {
+    store = createStore();
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('should add increments to counters and report missing counters as zero', async () => {
+    await store.increment('client_a', [
+      { key: 'hour:1', amount: 1, ttlSeconds: 60 },
+      { key: 'cost:1', amount: 0.85, ttlSeconds: 60 }
+    ]);
+    await store.increment('client_a', [
+      { key: 'hour:1', amount: 1, ttlSeconds: 60 },
+      { key: 'cost:1', amount: 2.5, ttlSeconds: 60 }
+    ]);
+
+    const counters = await store.getCounters('client_a', ['hour:1', 'cost:1', 'day:1:high']);
+
+    expect(counters['hour:1']).toBe(2);
+    expect(counters['cost:1']).toBeCloseTo(3.35);
+    expect(counters['day:1:high']).toBe(0);
+  });
+
+  it('should keep counters of different clients apart', async () => {
+    await store.increment('client_a', [{ key: 'hour:1', amount: 3, ttlSeconds: 60 }]);
+    await store.increment('client_b', [{ key: 'hour:1', amount: 1, ttlSeconds: 60 }]);
+
+    await expect(store.getCounters('client_a', ['hour:1'])).resolves.toEqual({ 'hour:1': 3 });
+    await expect(store.getCounters('client_b', ['hour:1'])).resolves.toEqual({ 'hour:1': 1 });
+  });
+
+  it('should replace counter values', async () => {
+    await store.increment('client_a', [{ key: 'bucket:used', amount: 3, ttlSeconds: 60 }]);
+    await store.setCounters('client_a', [
+      { key: 'bucket:used', value: 1.5, ttlSeconds: 60 },
+      { key: 'bucket:at', value: 1700000000000, ttlSeconds: 60 }
+    ]);
+
+    await expect(store.getCounters('client_a', ['bucket:used', 'bucket:at'])).resolves.toEqual({
+      'bucket:used': 1.5,
+      'bucket:at': 1700000000000
+    });
+  });
+
+  it('should return logged events after a timestamp in order', async () => {
+    const now = Date.now();
+    await store.addEvent('client_a', 'hourly:medium', now - 2000, 3600);
+    await store.addEvent('client_a', 'hourly:medium', now - 5000, 3600);
+    await store.addEvent('client_a', 'hourly:medium', now - 9000, 3600);
+    await store.addEvent('client_b', 'hourly:medium', now - 1000, 3600);
+
+    await expect(store.getEvents('client_a', 'hourly:medium', now - 6000)).resolves.toEqual([now - 5000, now - 2000]);
+    await expect(store.getEvents('client_a', 'hourly:high', now - 6000)).resolves.toEqual([]);
+  });
+
+  it('should ignore expired counters', async () => {
+    await store.increment('client_a', [{ key: 'hour:1', amount: 5, ttlSeconds: 0 }]);
+    await store.purgeExpired();
+
+    await expect(store.getCounters('client_a', ['hour:1'])).resolves.toEqual({ 'hour:1': 0 });
+  });
+
+  it('should run tasks holding the same lock one at a time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const task = async (): Promise<void> => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      running--;
+    };
+
+    await Promise.all([
+      store.withLock('reservation:client_a', task),
+      store.withLock('reservation:client_a', task),
+      store.withLock('reservation:client_a', task)
+    ]);
+
+    expect(maxRunning).toBe(1);
+  });
+
+  it('should release the lock when the task fails', async () => {
+    await expect(store.withLock('reservation:client_a', async () => {
+      throw new Error('task failed');
+    })).rejects.toThrow('task failed');
+
+    await expect(store.withLock('reservation:client_a', async () => 'done')).resolves.toBe('done');
+  });
+});
+
+describe('Reservations across processes', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  /** Two limiters on separate stores over the same backend, as in two server processes */
+  const reserveConcurrently = async (firstStore: UsageStore, secondStore: UsageStore): Promise<boolean[]> => {
+    await firstStore.initialize();
+    await secondStore.initialize();
+    const firstLimiter = new ResearchRateLimiter(config, silentLogger, firstStore);
+    const secondLimiter = new ResearchRateLimiter(config, silentLogger, secondStore);
+
+    try {
+      const results = await Promise.all([
+        firstLimiter.reserveBudget('client_a', 'high', 3, 1000, 'run_1'),
+        secondLimiter.reserveBudget('client_a', 'high', 3, 1000, 'run_2')
+      ]);
+      return results.map(result => result.allowed);
+    } finally {
+      await firstLimiter.cleanup();
+      await secondLimiter.cleanup();
+    }
+  };
+
+  it('should not let two processes sharing a SQLite file overspend the daily budget', async () => {
+    const filename = path.join(directory, 'usage.db');
+
+    const allowed = await reserveConcurrently(
+      new SQLiteUsageStore(filename, silentLogger),
+      new SQLiteUsageStore(filename, silentLogger)
+    );
+
+    expect(allowed.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('should not let two processes sharing a Redis server overspend the daily budget', async () => {
+    const client = new FakeRedisClient();
+
+    const allowed = await reserveConcurrently(
+      new RedisUsageStore(client, silentLogger),
+      new RedisUsageStore(client, silentLogger)
+    );
+
+    expect(allowed.filter(Boolean)).toHaveLength(1);
+  });
+});
+
+describe('SQLiteUsageStore persistence', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep enforcing limits after a restart', async () => {
+    const filename = path.join(directory, 'usage.db');
+
+    const firstStore = new SQLiteUsageStore(filename, silentLogger);
+    await firstStore.initialize();
+    const firstLimiter = new ResearchRateLimiter(config, silentLogger, firstStore);
+    await firstLimiter.recordRequest('client_a', 'medium', 4.5, 50000);
+    await firstLimiter.cleanup();
+
+    const secondStore = new SQLiteUsageStore(filename, silentLogger);
+    await secondStore.initialize();
+    const secondLimiter = new ResearchRateLimiter(config, silentLogger, secondStore);
+
+    try {
+      const result = await secondLimiter.checkRateLimit('client_a', 'medium', 0.85);
+
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toBe('cost_limit');
+      expect(result.costRemaining).toBeCloseTo(0.5);
+    } finally {
+      await secondLimiter.cleanup();
+    }
+  });
+});